@@ -1,2 +1,4 @@
 export * from "./electron-api";
 export * from "./ipc-renderer-api";
+export * from "./media-api";
+export * from "./project-api";
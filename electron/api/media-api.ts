@@ -0,0 +1,63 @@
+import { ipcRenderer, webUtils } from "electron";
+import type {
+  FilmstripResult,
+  MediaProbeResult,
+  MediaProxyStatus,
+} from "../media/types";
+
+export interface MediaRendererAPI {
+  openVideoDialog: () => Promise<string | null>;
+  /** Pick files for the media library, empty when cancelled */
+  importMediaDialog: () => Promise<string[]>;
+  /** Subset of `filePaths` that no longer exist on disk */
+  findMissing: (filePaths: string[]) => Promise<string[]>;
+  /** Absolute path of a file dropped into the window */
+  getPathForFile: (file: File) => string;
+  /** Streams, exact duration and playback warnings, read with ffmpeg */
+  probe: (filePath: string) => Promise<MediaProbeResult>;
+  /** Proxy status of a source, queueing generation when it needs one */
+  requestProxy: (filePath: string) => Promise<MediaProxyStatus>;
+  onProxyStatus: (callback: (status: MediaProxyStatus) => void) => () => void;
+  /** Thumbnails every `interval` seconds (one of FILMSTRIP_INTERVALS) */
+  getFilmstrip: (
+    filePath: string,
+    interval: number,
+  ) => Promise<FilmstripResult>;
+  /** Path of a representative frame for the media library */
+  getPoster: (filePath: string) => Promise<string>;
+  /** Cached waveform peaks (WAVEFORM_PEAKS_PER_SECOND), null if none yet */
+  readWaveform: (filePath: string) => Promise<Uint8Array | null>;
+  writeWaveform: (filePath: string, peaks: Uint8Array) => Promise<void>;
+  /** Video passed on the command line, only returned once */
+  getLaunchFile: () => Promise<string | null>;
+}
+
+export function createMediaAPI(): MediaRendererAPI {
+  return {
+    openVideoDialog: () => ipcRenderer.invoke("media-open-video"),
+    importMediaDialog: () => ipcRenderer.invoke("media-import"),
+    findMissing: (filePaths: string[]) =>
+      ipcRenderer.invoke("media-find-missing", filePaths),
+    getPathForFile: (file: File) => webUtils.getPathForFile(file),
+    probe: (filePath: string) => ipcRenderer.invoke("media-probe", filePath),
+    requestProxy: (filePath: string) =>
+      ipcRenderer.invoke("media-proxy-request", filePath),
+    onProxyStatus: (callback: (status: MediaProxyStatus) => void) => {
+      const listener = (
+        _event: Electron.IpcRendererEvent,
+        status: MediaProxyStatus,
+      ) => callback(status);
+      ipcRenderer.on("media-proxy-status", listener);
+      return () => ipcRenderer.removeListener("media-proxy-status", listener);
+    },
+    getFilmstrip: (filePath: string, interval: number) =>
+      ipcRenderer.invoke("media-filmstrip", filePath, interval),
+    getPoster: (filePath: string) =>
+      ipcRenderer.invoke("media-poster", filePath),
+    readWaveform: (filePath: string) =>
+      ipcRenderer.invoke("media-waveform-read", filePath),
+    writeWaveform: (filePath: string, peaks: Uint8Array) =>
+      ipcRenderer.invoke("media-waveform-write", filePath, peaks),
+    getLaunchFile: () => ipcRenderer.invoke("media-get-launch-file"),
+  };
+}
@@ -0,0 +1,79 @@
+import { ipcRenderer } from "electron";
+import type {
+  AutosaveRequest,
+  AutosaveSnapshot,
+  AutosaveSnapshotInfo,
+  ProjectOpenResult,
+  ProjectSaveRequest,
+  ProjectSaveResult,
+  RecentProject,
+} from "../project/types";
+
+export interface ProjectRendererAPI {
+  saveProject: (
+    request: ProjectSaveRequest,
+  ) => Promise<ProjectSaveResult | null>;
+  openProject: () => Promise<ProjectOpenResult | null>;
+  openProjectFile: (filePath: string) => Promise<ProjectOpenResult>;
+  /** Move a project file to the OS trash */
+  deleteProject: (filePath: string) => Promise<void>;
+  getRecentProjects: () => Promise<RecentProject[]>;
+  removeRecentProject: (filePath: string) => Promise<void>;
+  writeAutosave: (request: AutosaveRequest) => Promise<void>;
+  clearAutosave: () => Promise<void>;
+  readAutosave: (id: string) => Promise<AutosaveSnapshot>;
+  discardAutosave: (sessionId: string) => Promise<void>;
+  onRecoveryAvailable: (
+    callback: (snapshots: AutosaveSnapshotInfo[]) => void,
+  ) => () => void;
+}
+
+type RecoveryListener = (snapshots: AutosaveSnapshotInfo[]) => void;
+
+const recoveryListeners = new Set<RecoveryListener>();
+// The offer can arrive before React has subscribed, keep it until someone does
+let pendingRecovery: AutosaveSnapshotInfo[] | null = null;
+
+export function createProjectAPI(): ProjectRendererAPI {
+  ipcRenderer.on(
+    "session-recovery-available",
+    (_event: Electron.IpcRendererEvent, snapshots: AutosaveSnapshotInfo[]) => {
+      if (recoveryListeners.size === 0) {
+        pendingRecovery = snapshots;
+        return;
+      }
+      recoveryListeners.forEach((listener) => listener(snapshots));
+    },
+  );
+
+  return {
+    saveProject: (request: ProjectSaveRequest) =>
+      ipcRenderer.invoke("project-save", request),
+    openProject: () => ipcRenderer.invoke("project-open"),
+    openProjectFile: (filePath: string) =>
+      ipcRenderer.invoke("project-open-file", filePath),
+    deleteProject: (filePath: string) =>
+      ipcRenderer.invoke("project-delete", filePath),
+    getRecentProjects: () => ipcRenderer.invoke("project-recent-list"),
+    removeRecentProject: (filePath: string) =>
+      ipcRenderer.invoke("project-recent-remove", filePath),
+    writeAutosave: (request: AutosaveRequest) =>
+      ipcRenderer.invoke("autosave-write", request),
+    clearAutosave: () => ipcRenderer.invoke("autosave-clear"),
+    readAutosave: (id: string) => ipcRenderer.invoke("autosave-read", id),
+    discardAutosave: (sessionId: string) =>
+      ipcRenderer.invoke("autosave-discard", sessionId),
+    onRecoveryAvailable: (
+      callback: (snapshots: AutosaveSnapshotInfo[]) => void,
+    ) => {
+      recoveryListeners.add(callback);
+      if (pendingRecovery) {
+        callback(pendingRecovery);
+        pendingRecovery = null;
+      }
+      return () => {
+        recoveryListeners.delete(callback);
+      };
+    },
+  };
+}
@@ -1,11 +1,54 @@
-import { ipcMain } from "electron";
+import { BrowserWindow, ipcMain, type IpcMainInvokeEvent } from "electron";
 import { WindowManager } from "./window-manager";
+import {
+  AutosaveStore,
+  ProjectFiles,
+  RecentProjects,
+  type AutosaveRequest,
+  type AutosaveSnapshot,
+  type ProjectOpenResult,
+  type ProjectSaveRequest,
+  type ProjectSaveResult,
+  type RecentProject,
+} from "../project";
+import {
+  MediaFiles,
+  MediaProbe,
+  ProxyManager,
+  ThumbnailCache,
+  WaveformCache,
+  findVideoArgument,
+  type FilmstripResult,
+  type MediaProbeResult,
+  type MediaProxyStatus,
+} from "../media";
 
 export class IPCHandlers {
   private windowManager: WindowManager;
+  private projectFiles: ProjectFiles;
+  private recentProjects: RecentProjects;
+  private mediaFiles: MediaFiles;
+  private mediaProbe: MediaProbe;
+  private proxyManager: ProxyManager;
+  private thumbnailCache: ThumbnailCache;
+  private waveformCache: WaveformCache;
+  // Video passed on the command line, handed to the editor once it asks
+  private launchVideoPath: string | null;
 
   constructor() {
     this.windowManager = WindowManager.getInstance();
+    this.projectFiles = new ProjectFiles();
+    this.recentProjects = new RecentProjects();
+    this.mediaFiles = new MediaFiles();
+    this.mediaProbe = new MediaProbe();
+    this.proxyManager = new ProxyManager(this.mediaProbe, (status) => {
+      for (const window of this.windowManager.getAllWindows()) {
+        window.webContents.send("media-proxy-status", status);
+      }
+    });
+    this.thumbnailCache = new ThumbnailCache(this.proxyManager);
+    this.waveformCache = new WaveformCache();
+    this.launchVideoPath = findVideoArgument(process.argv);
     this.setupHandlers();
   }
 
@@ -21,6 +64,35 @@ export class IPCHandlers {
 
     // DevTools handler
     ipcMain.on("open-devtools", this.handleOpenDevTools.bind(this));
+
+    // Project file handlers
+    ipcMain.handle("project-save", this.handleProjectSave.bind(this));
+    ipcMain.handle("project-open", this.handleProjectOpen.bind(this));
+    ipcMain.handle("project-open-file", this.handleProjectOpenFile.bind(this));
+    ipcMain.handle("project-delete", this.handleProjectDelete.bind(this));
+    ipcMain.handle("project-recent-list", this.handleRecentList.bind(this));
+    ipcMain.handle("project-recent-remove", this.handleRecentRemove.bind(this));
+
+    // Media handlers
+    ipcMain.handle("media-open-video", this.handleMediaOpenVideo.bind(this));
+    ipcMain.handle("media-import", this.handleMediaImport.bind(this));
+    ipcMain.handle("media-find-missing", this.handleFindMissing.bind(this));
+    ipcMain.handle("media-probe", this.handleMediaProbe.bind(this));
+    ipcMain.handle("media-proxy-request", this.handleProxyRequest.bind(this));
+    ipcMain.handle("media-filmstrip", this.handleFilmstrip.bind(this));
+    ipcMain.handle("media-poster", this.handlePoster.bind(this));
+    ipcMain.handle("media-waveform-read", this.handleWaveformRead.bind(this));
+    ipcMain.handle("media-waveform-write", this.handleWaveformWrite.bind(this));
+    ipcMain.handle(
+      "media-get-launch-file",
+      this.handleMediaGetLaunchFile.bind(this),
+    );
+
+    // Autosave handlers
+    ipcMain.handle("autosave-write", this.handleAutosaveWrite.bind(this));
+    ipcMain.handle("autosave-clear", this.handleAutosaveClear.bind(this));
+    ipcMain.handle("autosave-read", this.handleAutosaveRead.bind(this));
+    ipcMain.handle("autosave-discard", this.handleAutosaveDiscard.bind(this));
   }
 
   private handleMinimize(): void {
@@ -56,4 +128,163 @@ export class IPCHandlers {
     const window = this.windowManager.getMainWindow();
     window?.webContents.openDevTools();
   }
+
+  private async handleProjectSave(
+    event: IpcMainInvokeEvent,
+    request: ProjectSaveRequest,
+  ): Promise<ProjectSaveResult | null> {
+    const result = await this.projectFiles.save(
+      BrowserWindow.fromWebContents(event.sender),
+      request,
+    );
+    if (result) {
+      await this.addRecentProject(result.filePath, request.content);
+    }
+    return result;
+  }
+
+  private async handleProjectOpen(
+    event: IpcMainInvokeEvent,
+  ): Promise<ProjectOpenResult | null> {
+    const result = await this.projectFiles.open(
+      BrowserWindow.fromWebContents(event.sender),
+    );
+    if (result) {
+      await this.addRecentProject(result.filePath, result.content);
+    }
+    return result;
+  }
+
+  private async handleProjectOpenFile(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<ProjectOpenResult> {
+    // Throws before the list is touched unless it is a project document
+    const result = await this.projectFiles.read(filePath);
+    await this.addRecentProject(result.filePath, result.content);
+    return result;
+  }
+
+  private handleProjectDelete(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<void> {
+    return this.recentProjects.trash(filePath);
+  }
+
+  private handleRecentList(): Promise<RecentProject[]> {
+    return this.recentProjects.list();
+  }
+
+  private handleRecentRemove(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<void> {
+    return this.recentProjects.remove(filePath);
+  }
+
+  // The project itself is on disk already, a stale list is not worth failing for
+  private async addRecentProject(filePath: string, content: string) {
+    try {
+      await this.recentProjects.add(filePath, content);
+    } catch (error) {
+      console.error("Failed to update recent projects", error);
+    }
+  }
+
+  private handleAutosaveWrite(
+    _event: IpcMainInvokeEvent,
+    request: AutosaveRequest,
+  ): Promise<void> {
+    return AutosaveStore.getInstance().writeSnapshot(request);
+  }
+
+  private handleAutosaveClear(): Promise<void> {
+    return AutosaveStore.getInstance().clearCurrentSession();
+  }
+
+  private handleAutosaveRead(
+    _event: IpcMainInvokeEvent,
+    id: string,
+  ): Promise<AutosaveSnapshot> {
+    return AutosaveStore.getInstance().readSnapshot(id);
+  }
+
+  private handleAutosaveDiscard(
+    _event: IpcMainInvokeEvent,
+    sessionId: string,
+  ): Promise<void> {
+    return AutosaveStore.getInstance().discardSession(sessionId);
+  }
+
+  private handleMediaOpenVideo(
+    event: IpcMainInvokeEvent,
+  ): Promise<string | null> {
+    return this.mediaFiles.openVideo(
+      BrowserWindow.fromWebContents(event.sender),
+    );
+  }
+
+  private handleMediaImport(event: IpcMainInvokeEvent): Promise<string[]> {
+    return this.mediaFiles.importMedia(
+      BrowserWindow.fromWebContents(event.sender),
+    );
+  }
+
+  private handleFindMissing(
+    _event: IpcMainInvokeEvent,
+    filePaths: string[],
+  ): Promise<string[]> {
+    return this.mediaFiles.findMissing(filePaths);
+  }
+
+  private handleMediaProbe(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<MediaProbeResult> {
+    return this.mediaProbe.probe(filePath);
+  }
+
+  private handleProxyRequest(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<MediaProxyStatus> {
+    return this.proxyManager.request(filePath);
+  }
+
+  private handleFilmstrip(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+    interval: number,
+  ): Promise<FilmstripResult> {
+    return this.thumbnailCache.getFilmstrip(filePath, interval);
+  }
+
+  private handlePoster(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<string> {
+    return this.thumbnailCache.getPoster(filePath);
+  }
+
+  private handleWaveformRead(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+  ): Promise<Uint8Array | null> {
+    return this.waveformCache.read(filePath);
+  }
+
+  private handleWaveformWrite(
+    _event: IpcMainInvokeEvent,
+    filePath: string,
+    peaks: Uint8Array,
+  ): Promise<void> {
+    return this.waveformCache.write(filePath, peaks);
+  }
+
+  private handleMediaGetLaunchFile(): string | null {
+    const filePath = this.launchVideoPath;
+    this.launchVideoPath = null;
+    return filePath;
+  }
 }
@@ -1,5 +1,14 @@
-import { BrowserWindow, Menu } from "electron";
+import { BrowserWindow, Menu, dialog } from "electron";
 import path from "node:path";
+import { AutosaveStore } from "../project";
+
+/** Hash route of the start screen listing recent projects */
+export const WELCOME_ROUTE = "#/welcome";
+
+// A renderer that keeps crashing (e.g. on a snapshot it cannot restore) is
+// reloaded this many times within the window before giving up on it
+const MAX_CRASH_RELOADS = 3;
+const CRASH_RELOAD_WINDOW_MS = 60_000;
 
 interface WindowConfig {
   viteDevServerUrl?: string;
@@ -71,7 +80,7 @@ export class WindowManager {
           responseHeaders: {
             ...details.responseHeaders,
             "Content-Security-Policy": [
-              "default-src 'self'; script-src 'self' 'unsafe-inline' blob:; worker-src 'self' blob:; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: file:; font-src 'self'; connect-src 'self' ws: wss: https://huggingface.co; media-src 'self' blob: data: file:;",
+              "default-src 'self'; script-src 'self' 'unsafe-inline' blob:; worker-src 'self' blob:; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: file: media:; font-src 'self'; connect-src 'self' ws: wss: https://huggingface.co media:; media-src 'self' blob: data: file: media:;",
             ],
           },
         });
@@ -79,6 +88,7 @@ export class WindowManager {
     );
 
     this.setupWindowEvents(this.mainWindow);
+    this.setupSessionRecovery(this.mainWindow);
     this.loadContent(
       this.mainWindow,
       options.viteDevServerUrl,
@@ -162,6 +172,69 @@ export class WindowManager {
     this.enableNativeContextMenu(window);
   }
 
+  private setupSessionRecovery(window: BrowserWindow): void {
+    const crashTimes: number[] = [];
+    let offerRecovery = true;
+
+    // Offer the last unsaved session every time the editor (re)loads
+    window.webContents.on("did-finish-load", async () => {
+      if (!offerRecovery) return;
+
+      try {
+        const snapshots =
+          await AutosaveStore.getInstance().getRecoverableSnapshots();
+        if (snapshots.length > 0 && !window.isDestroyed()) {
+          window.webContents.send("session-recovery-available", snapshots);
+        }
+      } catch (error) {
+        console.error("Failed to look up autosave snapshots", error);
+      }
+    });
+
+    // Bring the editor back after a renderer crash; the reload above then
+    // offers whatever was autosaved before it went down. When it crashes
+    // again and again, fall back to the start screen without recovery.
+    window.webContents.on("render-process-gone", (_event, details) => {
+      if (details.reason === "clean-exit" || window.isDestroyed()) {
+        return;
+      }
+
+      const now = Date.now();
+      crashTimes.push(now);
+      while (crashTimes[0] < now - CRASH_RELOAD_WINDOW_MS) {
+        crashTimes.shift();
+      }
+
+      if (crashTimes.length <= MAX_CRASH_RELOADS) {
+        console.error(`Renderer process gone (${details.reason}), reloading`);
+        window.webContents.reload();
+        return;
+      }
+
+      console.error(
+        `Renderer process gone (${details.reason}) ${crashTimes.length} times, giving up on recovery`,
+      );
+      offerRecovery = false;
+      crashTimes.length = 0;
+      void dialog.showMessageBox(window, {
+        type: "error",
+        title: "Editor crashed",
+        message: "The editor crashed repeatedly while loading.",
+        detail:
+          "The start screen was opened instead of restoring the unsaved session.",
+      });
+
+      if (this.config) {
+        this.loadContent(
+          window,
+          this.config.viteDevServerUrl,
+          this.config.rendererDist,
+          WELCOME_ROUTE,
+        );
+      }
+    });
+  }
+
   private enableNativeContextMenu(window: BrowserWindow): void {
     // Enable the native context menu by handling the context-menu event
     window.webContents.on("context-menu", (_event, params) => {
@@ -1,5 +1,9 @@
 import { app, BrowserWindow } from "electron";
-import { WindowManager, IPCHandlers, AppPaths } from "./core";
+import { WindowManager, IPCHandlers, AppPaths, WELCOME_ROUTE } from "./core";
+import { MediaProtocol, findVideoArgument, registerMediaScheme } from "./media";
+
+// Custom schemes have to be declared before the app is ready
+registerMediaScheme();
 
 // Initialize app paths and configuration
 const appPaths = new AppPaths();
@@ -11,12 +15,18 @@ const windowManager = WindowManager.getInstance();
 new IPCHandlers();
 
 function createWindow() {
-  windowManager.createMainWindow({
-    viteDevServerUrl: appPaths.VITE_DEV_SERVER_URL,
-    rendererDist: appPaths.RENDERER_DIST,
-    preloadPath: appPaths.getPreloadPath(),
-    iconPath: appPaths.getIconPath(),
-  });
+  // A video passed on the command line goes straight into the editor
+  const route = findVideoArgument(process.argv) ? undefined : WELCOME_ROUTE;
+
+  windowManager.createMainWindow(
+    {
+      viteDevServerUrl: appPaths.VITE_DEV_SERVER_URL,
+      rendererDist: appPaths.RENDERER_DIST,
+      preloadPath: appPaths.getPreloadPath(),
+      iconPath: appPaths.getIconPath(),
+    },
+    route,
+  );
 }
 
 // App event handlers
@@ -33,5 +43,6 @@ app.on("activate", () => {
 });
 
 app.whenReady().then(() => {
+  new MediaProtocol(appPaths.VITE_DEV_SERVER_URL).register();
   createWindow();
 });
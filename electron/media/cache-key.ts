@@ -0,0 +1,15 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+
+/**
+ * Key for files derived from a source (proxies, thumbnails). It covers the
+ * path and file version, so replacing or editing the source invalidates them.
+ */
+export async function getMediaCacheKey(filePath: string): Promise<string> {
+  const stat = await fs.stat(filePath);
+  return crypto
+    .createHash("sha1")
+    .update(`${filePath}:${stat.size}:${stat.mtimeMs}`)
+    .digest("hex")
+    .slice(0, 16);
+}
@@ -0,0 +1,60 @@
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import { spawn } from "node:child_process";
+import readline from "node:readline";
+
+/**
+ * Binary shipped with @ffmpeg-installer. Packaged builds unpack it next to
+ * the asar archive (see `asarUnpack` in electron-builder.json5).
+ */
+export const FFMPEG_PATH = ffmpegInstaller.path.replace(
+  "app.asar",
+  "app.asar.unpacked",
+);
+
+export interface FfmpegRunOptions {
+  /** Called for every stdout line, which is then not buffered */
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface FfmpegRunResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run ffmpeg to completion. Resolves with the exit code instead of
+ * rejecting on failure, since `ffmpeg -i <file>` alone always exits with 1.
+ */
+export function runFfmpeg(
+  args: string[],
+  options: FfmpegRunOptions = {},
+): Promise<FfmpegRunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ["-hide_banner", "-nostdin", ...args], {
+      signal: options.signal,
+      windowsHide: true,
+    });
+
+    let stdout = "";
+    let stderr = "";
+
+    readline.createInterface({ input: child.stdout }).on("line", (line) => {
+      if (options.onStdoutLine) {
+        options.onStdoutLine(line);
+      } else {
+        stdout += `${line}\n`;
+      }
+    });
+
+    readline.createInterface({ input: child.stderr }).on("line", (line) => {
+      stderr += `${line}\n`;
+      options.onStderrLine?.(line);
+    });
+
+    child.on("error", reject);
+    child.on("close", (code) => resolve({ code, stdout, stderr }));
+  });
+}
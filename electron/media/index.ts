@@ -0,0 +1,9 @@
+export * from "./cache-key";
+export * from "./ffmpeg";
+export * from "./media-files";
+export * from "./media-probe";
+export * from "./media-protocol";
+export * from "./proxy-manager";
+export * from "./thumbnail-cache";
+export * from "./types";
+export * from "./waveform-cache";
@@ -0,0 +1,94 @@
+import { BrowserWindow, dialog } from "electron";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  AUDIO_FILE_EXTENSIONS,
+  IMAGE_FILE_EXTENSIONS,
+  VIDEO_FILE_EXTENSIONS,
+} from "./types";
+
+export function isVideoFile(filePath: string): boolean {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return VIDEO_FILE_EXTENSIONS.includes(extension);
+}
+
+/**
+ * First existing video file among command line arguments, e.g.
+ * `openscreen ~/Videos/take-2.mov`.
+ */
+export function findVideoArgument(argv: string[]): string | null {
+  for (const arg of argv.slice(1)) {
+    if (arg.startsWith("-") || !isVideoFile(arg)) continue;
+
+    const filePath = path.resolve(arg);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+  }
+
+  return null;
+}
+
+export class MediaFiles {
+  async openVideo(window: BrowserWindow | null): Promise<string | null> {
+    const options: Electron.OpenDialogOptions = {
+      title: "Open Video",
+      properties: ["openFile"],
+      filters: [
+        { name: "Videos", extensions: VIDEO_FILE_EXTENSIONS },
+        { name: "All Files", extensions: ["*"] },
+      ],
+    };
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    return result.filePaths[0];
+  }
+
+  /** Pick any number of videos, images and audio files for the library */
+  async importMedia(window: BrowserWindow | null): Promise<string[]> {
+    const options: Electron.OpenDialogOptions = {
+      title: "Import Media",
+      properties: ["openFile", "multiSelections"],
+      filters: [
+        {
+          name: "Media",
+          extensions: [
+            ...VIDEO_FILE_EXTENSIONS,
+            ...IMAGE_FILE_EXTENSIONS,
+            ...AUDIO_FILE_EXTENSIONS,
+          ],
+        },
+        { name: "Videos", extensions: VIDEO_FILE_EXTENSIONS },
+        { name: "Images", extensions: IMAGE_FILE_EXTENSIONS },
+        { name: "Audio", extensions: AUDIO_FILE_EXTENSIONS },
+      ],
+    };
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+
+    return result.canceled ? [] : result.filePaths;
+  }
+
+  /** Paths that no longer exist or cannot be read */
+  async findMissing(filePaths: string[]): Promise<string[]> {
+    const checks = await Promise.all(
+      filePaths.map(async (filePath) => {
+        try {
+          await fs.promises.access(filePath, fs.constants.R_OK);
+          return null;
+        } catch {
+          return filePath;
+        }
+      }),
+    );
+
+    return checks.filter((filePath): filePath is string => filePath !== null);
+  }
+}
@@ -0,0 +1,387 @@
+import fs from "node:fs/promises";
+import { runFfmpeg } from "./ffmpeg";
+import type {
+  MediaAudioStreamInfo,
+  MediaProbeResult,
+  MediaVideoStreamInfo,
+} from "./types";
+
+// Codecs and containers the Chromium build in Electron can decode
+const PLAYABLE_VIDEO_CODECS = ["h264", "vp8", "vp9", "av1", "theora"];
+const PLAYABLE_AUDIO_CODECS = ["aac", "mp3", "opus", "vorbis", "flac"];
+const PLAYABLE_CONTAINERS = ["mov", "mp4", "webm", "matroska", "ogg"];
+
+// A source counts as VFR once more than this share of frame intervals
+// differ from the typical one by over 10%
+const VFR_OUTLIER_RATIO = 0.01;
+
+interface StreamHeader {
+  index: number;
+  kind: "video" | "audio";
+  line: string;
+  extraLines: string[];
+}
+
+interface PacketStats {
+  timeBase: number;
+  minPts: number;
+  maxEnd: number;
+  count: number;
+  /** Presentation timestamps, video only (needed for VFR detection) */
+  pts: number[];
+}
+
+/**
+ * Probes media files with the bundled ffmpeg: the `-i` header for streams
+ * and codecs, then a stream-copy `framecrc` pass over every packet for the
+ * exact duration and frame timing. Results are cached per file version.
+ */
+export class MediaProbe {
+  private cache = new Map<string, Promise<MediaProbeResult>>();
+
+  async probe(filePath: string): Promise<MediaProbeResult> {
+    const stat = await fs.stat(filePath);
+    const key = `${filePath}:${stat.size}:${stat.mtimeMs}`;
+
+    let result = this.cache.get(key);
+    if (!result) {
+      result = this.run(filePath);
+      this.cache.set(key, result);
+      // Do not keep failures around, the file may become readable later
+      result.catch(() => this.cache.delete(key));
+    }
+
+    return result;
+  }
+
+  private async run(filePath: string): Promise<MediaProbeResult> {
+    const header = await runFfmpeg(["-i", filePath]);
+    const input = /^Input #0, (.+?), from /m.exec(header.stderr);
+    if (!input) {
+      const reason = header.stderr.trim().split("\n").pop();
+      throw new Error(`Could not read ${filePath}: ${reason}`);
+    }
+
+    const streams = parseStreamHeaders(header.stderr);
+    const videoHeader = streams.find((stream) => stream.kind === "video");
+    const audioHeader = streams.find((stream) => stream.kind === "audio");
+    const packets = await this.readPacketStats(
+      filePath,
+      Boolean(videoHeader),
+      Boolean(audioHeader),
+    );
+
+    const videoPackets = videoHeader ? packets.get(0) : undefined;
+    const audioPackets = audioHeader
+      ? packets.get(videoHeader ? 1 : 0)
+      : undefined;
+    const timedPackets = videoPackets ?? audioPackets;
+
+    const duration = timedPackets
+      ? (timedPackets.maxEnd - timedPackets.minPts) * timedPackets.timeBase
+      : parseHeaderDuration(header.stderr);
+
+    const video = videoHeader
+      ? parseVideoStream(videoHeader, videoPackets, duration)
+      : null;
+    const audio = audioHeader ? parseAudioStream(audioHeader) : null;
+    const container = input[1];
+
+    return {
+      filePath,
+      container,
+      duration,
+      video,
+      audio,
+      warnings: getPlaybackWarnings(container, video, audio),
+    };
+  }
+
+  private async readPacketStats(
+    filePath: string,
+    hasVideo: boolean,
+    hasAudio: boolean,
+  ): Promise<Map<number, PacketStats>> {
+    const stats = new Map<number, PacketStats>();
+    const maps = [
+      ...(hasVideo ? ["-map", "0:v:0"] : []),
+      ...(hasAudio ? ["-map", "0:a:0"] : []),
+    ];
+
+    if (maps.length === 0) {
+      return stats;
+    }
+
+    const getStats = (index: number) => {
+      let entry = stats.get(index);
+      if (!entry) {
+        entry = {
+          timeBase: 0,
+          minPts: Infinity,
+          maxEnd: -Infinity,
+          count: 0,
+          pts: [],
+        };
+        stats.set(index, entry);
+      }
+      return entry;
+    };
+
+    // Streams are renumbered in output order: video (if any) is stream 0
+    const { code, stderr } = await runFfmpeg(
+      [
+        "-v",
+        "error",
+        "-i",
+        filePath,
+        ...maps,
+        "-c",
+        "copy",
+        "-f",
+        "framecrc",
+        "-",
+      ],
+      {
+        onStdoutLine: (line) => {
+          if (line.startsWith("#tb ")) {
+            const match = /^#tb (\d+): (\d+)\/(\d+)/.exec(line);
+            if (match) {
+              getStats(Number(match[1])).timeBase =
+                Number(match[2]) / Number(match[3]);
+            }
+            return;
+          }
+
+          if (line.startsWith("#")) return;
+
+          // stream, dts, pts, duration, size, crc
+          const fields = line.split(",", 4);
+          if (fields.length < 4) return;
+
+          const index = Number(fields[0]);
+          const pts = Number(fields[2]);
+          const duration = Number(fields[3]);
+          const entry = getStats(index);
+
+          entry.count += 1;
+          entry.minPts = Math.min(entry.minPts, pts);
+          entry.maxEnd = Math.max(entry.maxEnd, pts + duration);
+          if (hasVideo && index === 0) {
+            entry.pts.push(pts);
+          }
+        },
+      },
+    );
+
+    if (code !== 0) {
+      console.warn(`Packet scan of ${filePath} failed: ${stderr.trim()}`);
+    }
+
+    // Ignore streams the scan never saw a packet for
+    for (const [index, entry] of stats) {
+      if (entry.count === 0 || entry.timeBase === 0) {
+        stats.delete(index);
+      }
+    }
+
+    return stats;
+  }
+}
+
+function parseStreamHeaders(stderr: string): StreamHeader[] {
+  const streams: StreamHeader[] = [];
+  let current: StreamHeader | null = null;
+
+  for (const line of stderr.split("\n")) {
+    const match =
+      /Stream #0:(\d+).*?: (Video|Audio|Subtitle|Data|Attachment): /.exec(line);
+
+    if (match) {
+      current =
+        match[2] === "Video" || match[2] === "Audio"
+          ? {
+              index: Number(match[1]),
+              kind: match[2] === "Video" ? "video" : "audio",
+              line,
+              extraLines: [],
+            }
+          : null;
+      if (current) {
+        streams.push(current);
+      }
+    } else if (current && /^\s{4,}/.test(line)) {
+      current.extraLines.push(line.trim());
+    } else {
+      current = null;
+    }
+  }
+
+  // Attached cover art shows up as a video stream, it is not the picture
+  return streams.filter((stream) => !stream.line.includes("(attached pic)"));
+}
+
+function parseHeaderDuration(stderr: string): number {
+  const match = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(stderr);
+  if (!match) return 0;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function parseVideoStream(
+  header: StreamHeader,
+  packets: PacketStats | undefined,
+  duration: number,
+): MediaVideoStreamInfo {
+  const description = header.line.split(/: Video: /)[1] ?? "";
+  const codecMatch = /^(\w+)(?: \(([^)]+)\))?/.exec(description);
+  const sizeMatch = /, (\d{2,5})x(\d{2,5})/.exec(description);
+  const fpsMatch = /, ([\d.]+)(k?) fps/.exec(description);
+  const pixelFormatMatch = /^[^,]+, (\w+)/.exec(description);
+
+  const nominalFrameRate = fpsMatch
+    ? Number(fpsMatch[1]) * (fpsMatch[2] ? 1000 : 1)
+    : null;
+
+  return {
+    codec: codecMatch?.[1] ?? "unknown",
+    profile: codecMatch?.[2] ?? null,
+    pixelFormat: pixelFormatMatch?.[1] ?? null,
+    width: sizeMatch ? Number(sizeMatch[1]) : 0,
+    height: sizeMatch ? Number(sizeMatch[2]) : 0,
+    frameRate:
+      packets && duration > 0
+        ? packets.count / duration
+        : (nominalFrameRate ?? 0),
+    nominalFrameRate,
+    isVariableFrameRate: packets ? isVariableFrameRate(packets.pts) : false,
+    rotation: parseRotation(header.extraLines),
+  };
+}
+
+function parseAudioStream(header: StreamHeader): MediaAudioStreamInfo {
+  const description = header.line.split(/: Audio: /)[1] ?? "";
+  const codecMatch = /^(\w+)/.exec(description);
+  const rateMatch = /, (\d+) Hz/.exec(description);
+  const layoutMatch = /Hz, ([^,]+)/.exec(description);
+  const layout = layoutMatch?.[1].trim() ?? null;
+
+  return {
+    codec: codecMatch?.[1] ?? "unknown",
+    sampleRate: rateMatch ? Number(rateMatch[1]) : 0,
+    channels: getChannelCount(layout),
+    channelLayout: layout,
+  };
+}
+
+function getChannelCount(layout: string | null): number {
+  if (!layout) return 0;
+
+  const named: Record<string, number> = {
+    mono: 1,
+    stereo: 2,
+    "2.1": 3,
+    quad: 4,
+    "4.0": 4,
+    "5.0": 5,
+    "5.1": 6,
+    "6.1": 7,
+    "7.1": 8,
+  };
+  const base = layout.replace(/\(.*\)$/, "");
+  if (base in named) return named[base];
+
+  const channels = /^(\d+) channels/.exec(layout);
+  return channels ? Number(channels[1]) : 0;
+}
+
+function parseRotation(lines: string[]): number {
+  let degrees = 0;
+
+  for (const line of lines) {
+    // Newer builds: "displaymatrix: rotation of -90.00 degrees" (counter-clockwise)
+    const matrix = /rotation of (-?[\d.]+) degrees/.exec(line);
+    if (matrix) {
+      degrees = -Number(matrix[1]);
+      break;
+    }
+
+    // Older builds: "rotate : 90" metadata (clockwise)
+    const rotate = /^rotate\s*:\s*(-?\d+)/.exec(line);
+    if (rotate) {
+      degrees = Number(rotate[1]);
+    }
+  }
+
+  return (((Math.round(degrees / 90) * 90) % 360) + 360) % 360;
+}
+
+function isVariableFrameRate(pts: number[]): boolean {
+  if (pts.length < 3) return false;
+
+  const sorted = [...pts].sort((a, b) => a - b);
+  const intervals: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    intervals.push(sorted[i] - sorted[i - 1]);
+  }
+
+  const typical = [...intervals].sort((a, b) => a - b)[
+    Math.floor(intervals.length / 2)
+  ];
+  if (typical <= 0) return true;
+
+  const outliers = intervals.filter(
+    (interval) => Math.abs(interval - typical) > typical * 0.1,
+  ).length;
+
+  return outliers / intervals.length > VFR_OUTLIER_RATIO;
+}
+
+function getPlaybackWarnings(
+  container: string,
+  video: MediaVideoStreamInfo | null,
+  audio: MediaAudioStreamInfo | null,
+): string[] {
+  const warnings: string[] = [];
+  const demuxers = container.split(",");
+
+  if (!demuxers.some((name) => PLAYABLE_CONTAINERS.includes(name))) {
+    warnings.push(
+      `The ${demuxers[0]} container is not supported by the preview player.`,
+    );
+  }
+
+  if (!video) {
+    warnings.push("The file has no video stream.");
+  } else {
+    if (video.codec === "hevc") {
+      warnings.push(
+        "HEVC (H.265) video only plays where the system provides a hardware decoder.",
+      );
+    } else if (!PLAYABLE_VIDEO_CODECS.includes(video.codec)) {
+      warnings.push(
+        `${video.codec} video cannot be decoded by the preview player.`,
+      );
+    }
+
+    if (video.pixelFormat && /(422|444|10le|12le)/.test(video.pixelFormat)) {
+      warnings.push(
+        `The ${video.pixelFormat} pixel format may not play or may render with wrong colors.`,
+      );
+    }
+
+    if (video.isVariableFrameRate) {
+      warnings.push(
+        "The video has a variable frame rate, so frame-accurate seeking may drift.",
+      );
+    }
+  }
+
+  if (
+    audio &&
+    !PLAYABLE_AUDIO_CODECS.includes(audio.codec) &&
+    !audio.codec.startsWith("pcm_")
+  ) {
+    warnings.push(`${audio.codec} audio will be silent in the preview.`);
+  }
+
+  return warnings;
+}
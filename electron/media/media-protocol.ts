@@ -0,0 +1,176 @@
+import { protocol } from "electron";
+import fs from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import {
+  AUDIO_FILE_EXTENSIONS,
+  IMAGE_FILE_EXTENSIONS,
+  MEDIA_PROTOCOL,
+  MEDIA_PROTOCOL_HOST,
+  VIDEO_FILE_EXTENSIONS,
+} from "./types";
+
+// Only media is served, never any other file the path could point at
+const SERVED_EXTENSIONS = new Set(
+  [
+    ...VIDEO_FILE_EXTENSIONS,
+    ...IMAGE_FILE_EXTENSIONS,
+    ...AUDIO_FILE_EXTENSIONS,
+  ].map((extension) => `.${extension}`),
+);
+
+// Origin of the packaged renderer, loaded from index.html
+const FILE_ORIGIN = "file://";
+
+const MIME_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+  ".avi": "video/x-msvideo",
+  ".ogv": "video/ogg",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".wav": "audio/wav",
+  ".aac": "audio/aac",
+  ".ogg": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".flac": "audio/flac",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+};
+
+/**
+ * Privileges must be registered before the app is ready. `stream` lets
+ * <video> elements issue range requests, `corsEnabled` lets textures and
+ * fetch() read the pixels and bytes back.
+ */
+export function registerMediaScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: MEDIA_PROTOCOL,
+      privileges: {
+        standard: true,
+        secure: true,
+        supportFetchAPI: true,
+        stream: true,
+        corsEnabled: true,
+      },
+    },
+  ]);
+}
+
+/**
+ * Serves `media://local/<encoded path>` straight from disk with HTTP range
+ * support, so seeking in multi-GB recordings only reads what is needed.
+ * Only media files are served, and only the app's own pages may read them
+ * back across origins.
+ */
+export class MediaProtocol {
+  private readonly allowedOrigins: Set<string>;
+
+  constructor(viteDevServerUrl?: string) {
+    this.allowedOrigins = new Set([FILE_ORIGIN]);
+    if (viteDevServerUrl) {
+      this.allowedOrigins.add(new URL(viteDevServerUrl).origin);
+    }
+  }
+
+  register(): void {
+    protocol.handle(MEDIA_PROTOCOL, (request) => this.handleRequest(request));
+  }
+
+  private async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.host !== MEDIA_PROTOCOL_HOST) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const filePath = decodeURIComponent(url.pathname.slice(1));
+    if (!path.isAbsolute(filePath)) {
+      return new Response("Bad request", { status: 400 });
+    }
+    if (!SERVED_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    let size: number;
+    try {
+      const stat = await fs.promises.stat(filePath);
+      if (!stat.isFile()) {
+        return new Response("Not found", { status: 404 });
+      }
+      size = stat.size;
+    } catch {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const headers = new Headers({
+      "Accept-Ranges": "bytes",
+      "Content-Type":
+        MIME_TYPES[path.extname(filePath).toLowerCase()] ??
+        "application/octet-stream",
+    });
+
+    const origin = request.headers.get("Origin");
+    if (origin && this.allowedOrigins.has(origin)) {
+      headers.set("Access-Control-Allow-Origin", origin);
+      headers.set("Vary", "Origin");
+    }
+
+    const range = this.parseRange(request.headers.get("Range"), size);
+    if (range === "invalid") {
+      headers.set("Content-Range", `bytes */${size}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    const { start, end } = range ?? { start: 0, end: size - 1 };
+    headers.set("Content-Length", String(size === 0 ? 0 : end - start + 1));
+
+    if (range) {
+      headers.set("Content-Range", `bytes ${start}-${end}/${size}`);
+    }
+
+    if (request.method === "HEAD" || size === 0) {
+      return new Response(null, { status: range ? 206 : 200, headers });
+    }
+
+    const stream = fs.createReadStream(filePath, { start, end });
+    return new Response(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      status: range ? 206 : 200,
+      headers,
+    });
+  }
+
+  /** Single `bytes=` range; multipart ranges are not used by media elements */
+  private parseRange(
+    header: string | null,
+    size: number,
+  ): { start: number; end: number } | "invalid" | null {
+    if (!header) return null;
+
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (!match[1] && !match[2])) return "invalid";
+
+    let start: number;
+    let end: number;
+
+    if (!match[1]) {
+      // Suffix range: the last N bytes
+      const length = parseInt(match[2], 10);
+      start = Math.max(0, size - length);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1], 10);
+      end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+    }
+
+    if (start > end || start >= size) return "invalid";
+    return { start, end };
+  }
+}
@@ -0,0 +1,252 @@
+import { app } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getMediaCacheKey } from "./cache-key";
+import { runFfmpeg } from "./ffmpeg";
+import type { MediaProbe } from "./media-probe";
+import type { MediaProbeResult, MediaProxyStatus } from "./types";
+
+/** Short side of proxy frames */
+const PROXY_SHORT_SIDE = 720;
+const PROXY_FRAME_RATE = 30;
+/** Keyframe every third of a second keeps scrubbing cheap */
+const PROXY_GOP = 10;
+
+// Sources above this many pixels per frame are too heavy to preview live
+const HEAVY_PIXEL_COUNT = 1920 * 1080;
+const HEAVY_FRAME_RATE = 50;
+
+/**
+ * Reason a source should be edited through a proxy, or null when the
+ * original plays smoothly as it is.
+ */
+export function getProxyReason(probe: MediaProbeResult): string | null {
+  const { video } = probe;
+  if (!video) return null;
+
+  if (video.isVariableFrameRate) return "variable frame rate";
+  if (video.width * video.height > HEAVY_PIXEL_COUNT) {
+    return `${video.width}x${video.height} resolution`;
+  }
+  if (video.frameRate > HEAVY_FRAME_RATE) {
+    return `${Math.round(video.frameRate)} fps`;
+  }
+  if (probe.warnings.length > 0) return "format the preview cannot decode";
+
+  return null;
+}
+
+/**
+ * Background queue turning heavy sources into constant frame rate, low
+ * resolution, short-GOP H.264 proxies under `<userData>/proxies`. Jobs run
+ * one at a time; every state change is reported through `onStatus`.
+ */
+export class ProxyManager {
+  private readonly proxyDir = path.join(app.getPath("userData"), "proxies");
+  private statuses = new Map<string, MediaProxyStatus>();
+  private queue: string[] = [];
+  private active: { filePath: string; controller: AbortController } | null =
+    null;
+  private readonly probe: MediaProbe;
+  private readonly onStatus: (status: MediaProxyStatus) => void;
+
+  constructor(probe: MediaProbe, onStatus: (status: MediaProxyStatus) => void) {
+    this.probe = probe;
+    this.onStatus = onStatus;
+    app.on("will-quit", () => this.cancelAll());
+  }
+
+  /** Current proxy status, queueing a job when the source needs one */
+  async request(filePath: string): Promise<MediaProxyStatus> {
+    const existing = this.statuses.get(filePath);
+    if (existing && existing.state !== "failed") {
+      return existing;
+    }
+
+    const probe = await this.probe.probe(filePath);
+    const reason = getProxyReason(probe);
+    if (!reason) {
+      return this.setStatus(filePath, { state: "none", reason: null });
+    }
+
+    const proxyPath = await this.getProxyPath(filePath);
+    try {
+      await fs.access(proxyPath);
+      return this.setStatus(filePath, { state: "ready", proxyPath, reason });
+    } catch {
+      // Not generated yet
+    }
+
+    this.queue.push(filePath);
+    const status = this.setStatus(filePath, {
+      state: "queued",
+      proxyPath: null,
+      reason,
+    });
+    void this.runNext();
+    return status;
+  }
+
+  /** Proxy file of a source, if one has been generated */
+  getReadyProxyPath(filePath: string): string | null {
+    const status = this.statuses.get(filePath);
+    return status?.state === "ready" ? status.proxyPath : null;
+  }
+
+  cancelAll(): void {
+    this.queue = [];
+    this.active?.controller.abort();
+  }
+
+  private async runNext(): Promise<void> {
+    if (this.active) return;
+
+    const filePath = this.queue.shift();
+    if (!filePath) return;
+
+    const controller = new AbortController();
+    this.active = { filePath, controller };
+
+    try {
+      const probe = await this.probe.probe(filePath);
+      const proxyPath = await this.getProxyPath(filePath);
+      await this.transcode(filePath, proxyPath, probe, controller.signal);
+      this.setStatus(filePath, { state: "ready", progress: 1, proxyPath });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(`Proxy generation failed for ${filePath}`, error);
+        this.setStatus(filePath, {
+          state: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      this.active = null;
+      void this.runNext();
+    }
+  }
+
+  private async transcode(
+    filePath: string,
+    proxyPath: string,
+    probe: MediaProbeResult,
+    signal: AbortSignal,
+  ): Promise<void> {
+    await fs.mkdir(this.proxyDir, { recursive: true });
+    const partialPath = `${proxyPath}.part.mp4`;
+
+    // ffmpeg auto-rotates, so portrait is judged after rotation
+    const video = probe.video;
+    const rotated = video ? video.rotation % 180 !== 0 : false;
+    const isPortrait = video
+      ? (rotated ? video.width : video.height) >
+        (rotated ? video.height : video.width)
+      : false;
+    const scale = isPortrait
+      ? `scale='min(${PROXY_SHORT_SIDE},iw)':-2`
+      : `scale=-2:'min(${PROXY_SHORT_SIDE},ih)'`;
+
+    let lastReported = 0;
+    this.setStatus(filePath, { state: "generating", progress: 0 });
+
+    const { code, stderr } = await runFfmpeg(
+      [
+        "-y",
+        "-v",
+        "error",
+        "-i",
+        filePath,
+        "-map",
+        "0:v:0",
+        "-map",
+        "0:a:0?",
+        "-vf",
+        `${scale},fps=${PROXY_FRAME_RATE}`,
+        "-vsync",
+        "cfr",
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-tune",
+        "fastdecode",
+        "-crf",
+        "23",
+        "-pix_fmt",
+        "yuv420p",
+        "-g",
+        String(PROXY_GOP),
+        "-keyint_min",
+        String(PROXY_GOP),
+        "-sc_threshold",
+        "0",
+        // Stretch/squeeze audio to the rewritten video timestamps
+        "-af",
+        "aresample=async=1",
+        "-c:a",
+        "aac",
+        "-b:a",
+        "160k",
+        "-movflags",
+        "+faststart",
+        "-progress",
+        "pipe:1",
+        "-nostats",
+        partialPath,
+      ],
+      {
+        signal,
+        onStdoutLine: (line) => {
+          // Despite the name, out_time_ms is in microseconds
+          const match = /^out_time_ms=(\d+)/.exec(line);
+          if (!match || probe.duration <= 0) return;
+
+          const progress = Math.min(
+            1,
+            Number(match[1]) / 1_000_000 / probe.duration,
+          );
+          if (progress - lastReported >= 0.01) {
+            lastReported = progress;
+            this.setStatus(filePath, { progress });
+          }
+        },
+      },
+    );
+
+    if (code !== 0) {
+      await fs.rm(partialPath, { force: true });
+      throw new Error(
+        stderr.trim().split("\n").pop() || `ffmpeg exited with ${code}`,
+      );
+    }
+
+    await fs.rename(partialPath, proxyPath);
+  }
+
+  private async getProxyPath(filePath: string): Promise<string> {
+    return path.join(this.proxyDir, `${await getMediaCacheKey(filePath)}.mp4`);
+  }
+
+  private setStatus(
+    filePath: string,
+    update: Partial<Omit<MediaProxyStatus, "filePath">>,
+  ): MediaProxyStatus {
+    const previous: MediaProxyStatus = this.statuses.get(filePath) ?? {
+      filePath,
+      state: "none",
+      progress: 0,
+      proxyPath: null,
+      reason: null,
+      error: null,
+    };
+    const status: MediaProxyStatus = {
+      ...previous,
+      error: null,
+      ...update,
+    };
+
+    this.statuses.set(filePath, status);
+    this.onStatus(status);
+    return status;
+  }
+}
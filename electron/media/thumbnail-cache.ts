@@ -0,0 +1,199 @@
+import { app } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getMediaCacheKey } from "./cache-key";
+import { runFfmpeg } from "./ffmpeg";
+import type { ProxyManager } from "./proxy-manager";
+import { FILMSTRIP_INTERVALS, type FilmstripResult } from "./types";
+
+/** Pixel height of extracted thumbnails (2x the timeline track) */
+const THUMBNAIL_HEIGHT = 90;
+const MANIFEST_FILE = "filmstrip.json";
+const POSTER_FILE = "poster.jpg";
+
+const getFrameName = (index: number) =>
+  `${String(index + 1).padStart(5, "0")}.jpg`;
+
+/**
+ * Filmstrip thumbnails extracted with ffmpeg into
+ * `<userData>/thumbnails/<asset>/<interval>s/`. Each density is extracted
+ * once per asset version; extractions run one after another so zooming
+ * through several levels does not spawn a decoder per level.
+ */
+export class ThumbnailCache {
+  private readonly rootDir = path.join(app.getPath("userData"), "thumbnails");
+  private readonly proxies: ProxyManager;
+  private pending = new Map<string, Promise<FilmstripResult>>();
+  private pendingPosters = new Map<string, Promise<string>>();
+  private extractionQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(proxies: ProxyManager) {
+    this.proxies = proxies;
+  }
+
+  async getFilmstrip(
+    filePath: string,
+    interval: number,
+  ): Promise<FilmstripResult> {
+    if (!FILMSTRIP_INTERVALS.includes(interval)) {
+      throw new Error(`Unsupported filmstrip interval: ${interval}`);
+    }
+
+    const dir = path.join(
+      this.rootDir,
+      await getMediaCacheKey(filePath),
+      `${interval}s`,
+    );
+
+    let job = this.pending.get(dir);
+    if (!job) {
+      job = this.readOrExtract(filePath, interval, dir).finally(() =>
+        this.pending.delete(dir),
+      );
+      this.pending.set(dir, job);
+    }
+
+    return job;
+  }
+
+  /**
+   * Single representative frame for the media library, picked by ffmpeg's
+   * `thumbnail` filter so it is rarely a black fade-in.
+   */
+  async getPoster(filePath: string): Promise<string> {
+    const dir = path.join(this.rootDir, await getMediaCacheKey(filePath));
+    const posterPath = path.join(dir, POSTER_FILE);
+
+    let job = this.pendingPosters.get(posterPath);
+    if (!job) {
+      job = this.readOrExtractPoster(filePath, posterPath).finally(() =>
+        this.pendingPosters.delete(posterPath),
+      );
+      this.pendingPosters.set(posterPath, job);
+    }
+
+    return job;
+  }
+
+  private async readOrExtractPoster(
+    filePath: string,
+    posterPath: string,
+  ): Promise<string> {
+    try {
+      await fs.access(posterPath);
+      return posterPath;
+    } catch {
+      // Not extracted yet
+    }
+
+    const extraction = this.extractionQueue.then(async () => {
+      await fs.mkdir(path.dirname(posterPath), { recursive: true });
+      const input = this.proxies.getReadyProxyPath(filePath) ?? filePath;
+
+      const { code, stderr } = await runFfmpeg([
+        "-v",
+        "error",
+        "-i",
+        input,
+        "-map",
+        "0:v:0",
+        "-vf",
+        `thumbnail,scale=-2:${THUMBNAIL_HEIGHT * 2}`,
+        "-frames:v",
+        "1",
+        "-q:v",
+        "4",
+        "-y",
+        posterPath,
+      ]);
+
+      if (code !== 0) {
+        throw new Error(
+          stderr.trim().split("\n").pop() || `ffmpeg exited with ${code}`,
+        );
+      }
+      return posterPath;
+    });
+    this.extractionQueue = extraction.catch(() => undefined);
+
+    return extraction;
+  }
+
+  private async readOrExtract(
+    filePath: string,
+    interval: number,
+    dir: string,
+  ): Promise<FilmstripResult> {
+    let count = await this.readManifest(dir);
+
+    if (count === null) {
+      const extraction = this.extractionQueue.then(() =>
+        this.extract(filePath, interval, dir),
+      );
+      this.extractionQueue = extraction.catch(() => undefined);
+      count = await extraction;
+    }
+
+    return {
+      filePath,
+      interval,
+      framePaths: Array.from({ length: count }, (_, index) =>
+        path.join(dir, getFrameName(index)),
+      ),
+    };
+  }
+
+  private async readManifest(dir: string): Promise<number | null> {
+    try {
+      const manifest = JSON.parse(
+        await fs.readFile(path.join(dir, MANIFEST_FILE), "utf-8"),
+      ) as { count: number };
+      return manifest.count;
+    } catch {
+      return null;
+    }
+  }
+
+  private async extract(
+    filePath: string,
+    interval: number,
+    dir: string,
+  ): Promise<number> {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+
+    // The proxy decodes far faster than a 4K original and has the same timing
+    const input = this.proxies.getReadyProxyPath(filePath) ?? filePath;
+
+    const { code, stderr } = await runFfmpeg([
+      "-v",
+      "error",
+      "-i",
+      input,
+      "-map",
+      "0:v:0",
+      "-vf",
+      `fps=${1 / interval},scale=-2:${THUMBNAIL_HEIGHT}`,
+      "-q:v",
+      "6",
+      path.join(dir, "%05d.jpg"),
+    ]);
+
+    if (code !== 0) {
+      await fs.rm(dir, { recursive: true, force: true });
+      throw new Error(
+        stderr.trim().split("\n").pop() || `ffmpeg exited with ${code}`,
+      );
+    }
+
+    const files = await fs.readdir(dir);
+    const count = files.filter((file) => file.endsWith(".jpg")).length;
+    await fs.writeFile(
+      path.join(dir, MANIFEST_FILE),
+      JSON.stringify({ interval, count }),
+      "utf-8",
+    );
+
+    return count;
+  }
+}
@@ -0,0 +1,111 @@
+/** Scheme serving local media files to the renderer, see MediaProtocol */
+export const MEDIA_PROTOCOL = "media";
+
+/** Host part of media URLs: `media://local/<encoded absolute path>` */
+export const MEDIA_PROTOCOL_HOST = "local";
+
+/** Video containers accepted by the open dialog, drag-and-drop and the CLI */
+export const VIDEO_FILE_EXTENSIONS = [
+  "mp4",
+  "m4v",
+  "mov",
+  "webm",
+  "mkv",
+  "avi",
+  "ogv",
+];
+
+/** Still images that can be imported into the media library */
+export const IMAGE_FILE_EXTENSIONS = [
+  "png",
+  "jpg",
+  "jpeg",
+  "webp",
+  "gif",
+  "bmp",
+];
+
+/** Audio files that can be imported into the media library */
+export const AUDIO_FILE_EXTENSIONS = [
+  "mp3",
+  "wav",
+  "m4a",
+  "aac",
+  "ogg",
+  "opus",
+  "flac",
+];
+
+export type MediaAssetKind = "video" | "image" | "audio";
+
+export interface MediaVideoStreamInfo {
+  codec: string;
+  profile: string | null;
+  pixelFormat: string | null;
+  width: number;
+  height: number;
+  /** Average frame rate measured from the packet timestamps */
+  frameRate: number;
+  /** Frame rate the container advertises */
+  nominalFrameRate: number | null;
+  isVariableFrameRate: boolean;
+  /** Clockwise display rotation in degrees (0, 90, 180 or 270) */
+  rotation: number;
+}
+
+export interface MediaAudioStreamInfo {
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  channelLayout: string | null;
+}
+
+export interface MediaProbeResult {
+  filePath: string;
+  /** ffmpeg demuxer names, e.g. "mov,mp4,m4a,3gp,3g2,mj2" */
+  container: string;
+  /** Exact duration in seconds, from packet timestamps */
+  duration: number;
+  video: MediaVideoStreamInfo | null;
+  audio: MediaAudioStreamInfo | null;
+  /** Human readable problems the Chromium decoder is likely to have */
+  warnings: string[];
+}
+
+export type MediaProxyState =
+  | "none"
+  | "queued"
+  | "generating"
+  | "ready"
+  | "failed";
+
+export interface MediaProxyStatus {
+  /** Original file the proxy stands in for */
+  filePath: string;
+  state: MediaProxyState;
+  /** 0-1 while generating */
+  progress: number;
+  proxyPath: string | null;
+  /** Why the source gets a proxy, e.g. "variable frame rate" */
+  reason: string | null;
+  error: string | null;
+}
+
+/**
+ * Seconds between filmstrip thumbnails. Zoom levels are quantized to these
+ * so each density is extracted (and cached) only once per asset.
+ */
+export const FILMSTRIP_INTERVALS = [0.5, 1, 2, 5, 10, 30, 60];
+
+export interface FilmstripResult {
+  filePath: string;
+  interval: number;
+  /** Thumbnail `i` shows the source at `i * interval` seconds */
+  framePaths: string[];
+}
+
+/**
+ * Peaks per second of the finest waveform level. Coarser levels for zoomed
+ * out timelines are derived from it by halving.
+ */
+export const WAVEFORM_PEAKS_PER_SECOND = 400;
@@ -0,0 +1,41 @@
+import { app } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getMediaCacheKey } from "./cache-key";
+import { WAVEFORM_PEAKS_PER_SECOND } from "./types";
+
+/**
+ * Audio peaks computed by the renderer's waveform worker, stored as raw
+ * bytes in `<userData>/waveforms/`. Only the finest level is kept; the
+ * coarser ones are cheap to rebuild from it.
+ */
+export class WaveformCache {
+  private readonly rootDir = path.join(app.getPath("userData"), "waveforms");
+
+  async read(filePath: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(
+        await fs.readFile(await this.getPeaksPath(filePath)),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  async write(filePath: string, peaks: Uint8Array): Promise<void> {
+    const peaksPath = await this.getPeaksPath(filePath);
+    const tempPath = `${peaksPath}.part`;
+
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(tempPath, peaks);
+    await fs.rename(tempPath, peaksPath);
+  }
+
+  private async getPeaksPath(filePath: string): Promise<string> {
+    // The rate is part of the name so changing it never reads stale peaks
+    return path.join(
+      this.rootDir,
+      `${await getMediaCacheKey(filePath)}-${WAVEFORM_PEAKS_PER_SECOND}.peaks`,
+    );
+  }
+}
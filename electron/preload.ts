@@ -1,8 +1,19 @@
 import { contextBridge } from "electron";
-import { createIPCRendererAPI, createElectronAPI } from "./api";
+import {
+  createIPCRendererAPI,
+  createElectronAPI,
+  createProjectAPI,
+  createMediaAPI,
+} from "./api";
 
 // --------- Expose some API to the Renderer process ---------
 contextBridge.exposeInMainWorld("ipcRenderer", createIPCRendererAPI());
 
 // Expose window control APIs for custom title bar
 contextBridge.exposeInMainWorld("electronAPI", createElectronAPI());
+
+// Project files (save / open through native dialogs)
+contextBridge.exposeInMainWorld("projectAPI", createProjectAPI());
+
+// Local media: open dialog, dropped file paths and command line files
+contextBridge.exposeInMainWorld("mediaAPI", createMediaAPI());
@@ -0,0 +1,168 @@
+import { app } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  AutosaveRequest,
+  AutosaveSnapshot,
+  AutosaveSnapshotInfo,
+} from "./types";
+
+/** Snapshots kept per editing session, oldest are removed first */
+const MAX_SNAPSHOTS_PER_SESSION = 10;
+/** Sessions with unsaved work kept around for recovery */
+const MAX_SESSIONS = 5;
+const SNAPSHOT_PREFIX = "snapshot-";
+
+type SnapshotFile = Omit<AutosaveSnapshot, "id" | "sessionId">;
+
+/**
+ * Periodic project snapshots written to `<userData>/autosave/<session>/`.
+ * A session directory only exists while it holds unsaved work, so anything
+ * left over on the next launch (or after a renderer crash) can be offered
+ * for recovery.
+ */
+export class AutosaveStore {
+  private static instance: AutosaveStore;
+  private readonly rootDir: string;
+  private readonly sessionId: string;
+
+  private constructor() {
+    this.rootDir = path.join(app.getPath("userData"), "autosave");
+    this.sessionId = `${Date.now()}-${process.pid}`;
+  }
+
+  static getInstance(): AutosaveStore {
+    if (!AutosaveStore.instance) {
+      AutosaveStore.instance = new AutosaveStore();
+    }
+    return AutosaveStore.instance;
+  }
+
+  async writeSnapshot(request: AutosaveRequest): Promise<void> {
+    const sessionDir = this.getSessionDir(this.sessionId);
+    await fs.mkdir(sessionDir, { recursive: true });
+
+    const snapshot: SnapshotFile = {
+      savedAt: Date.now(),
+      projectName: request.projectName,
+      projectPath: request.projectPath,
+      content: request.content,
+    };
+    await fs.writeFile(
+      path.join(sessionDir, `${SNAPSHOT_PREFIX}${snapshot.savedAt}.json`),
+      JSON.stringify(snapshot),
+      "utf-8",
+    );
+
+    const files = await this.listSnapshotFiles(sessionDir);
+    const stale = files.slice(
+      0,
+      Math.max(0, files.length - MAX_SNAPSHOTS_PER_SESSION),
+    );
+    await Promise.all(
+      stale.map((file) => fs.rm(path.join(sessionDir, file), { force: true })),
+    );
+  }
+
+  /** Called once the project is saved: nothing left to recover */
+  async clearCurrentSession(): Promise<void> {
+    await this.discardSession(this.sessionId);
+  }
+
+  async discardSession(sessionId: string): Promise<void> {
+    await fs.rm(this.getSessionDir(sessionId), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  /**
+   * Snapshots of the most recent session that still has unsaved work,
+   * newest first. Older sessions beyond MAX_SESSIONS are pruned.
+   */
+  async getRecoverableSnapshots(): Promise<AutosaveSnapshotInfo[]> {
+    const sessions = await this.listSessions();
+
+    await Promise.all(
+      sessions
+        .slice(MAX_SESSIONS)
+        .map((sessionId) => this.discardSession(sessionId)),
+    );
+
+    for (const sessionId of sessions.slice(0, MAX_SESSIONS)) {
+      const snapshots = await this.readSessionSnapshots(sessionId);
+      if (snapshots.length > 0) {
+        return snapshots;
+      }
+    }
+
+    return [];
+  }
+
+  async readSnapshot(id: string): Promise<AutosaveSnapshot> {
+    const [sessionId, file] = id.split("/");
+    const filePath = path.join(this.getSessionDir(sessionId), file ?? "");
+
+    if (!file || path.dirname(filePath) !== this.getSessionDir(sessionId)) {
+      throw new Error(`Invalid autosave snapshot id: ${id}`);
+    }
+
+    const data = JSON.parse(
+      await fs.readFile(filePath, "utf-8"),
+    ) as SnapshotFile;
+    return { ...data, id, sessionId };
+  }
+
+  private async readSessionSnapshots(
+    sessionId: string,
+  ): Promise<AutosaveSnapshotInfo[]> {
+    const files = await this.listSnapshotFiles(this.getSessionDir(sessionId));
+    const snapshots: AutosaveSnapshotInfo[] = [];
+
+    for (const file of files.reverse()) {
+      try {
+        const { content: _content, ...info } = await this.readSnapshot(
+          `${sessionId}/${file}`,
+        );
+        snapshots.push(info);
+      } catch (error) {
+        console.warn(`Skipping unreadable autosave ${file}`, error);
+      }
+    }
+
+    return snapshots;
+  }
+
+  /** Session ids, most recent first */
+  private async listSessions(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.rootDir, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+    } catch {
+      return [];
+    }
+  }
+
+  /** Snapshot file names, oldest first */
+  private async listSnapshotFiles(sessionDir: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(sessionDir);
+      return files
+        .filter((file) => file.startsWith(SNAPSHOT_PREFIX))
+        .sort(
+          (a, b) =>
+            parseInt(a.slice(SNAPSHOT_PREFIX.length), 10) -
+            parseInt(b.slice(SNAPSHOT_PREFIX.length), 10),
+        );
+    } catch {
+      return [];
+    }
+  }
+
+  private getSessionDir(sessionId: string): string {
+    return path.join(this.rootDir, path.basename(sessionId));
+  }
+}
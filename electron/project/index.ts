@@ -0,0 +1,4 @@
+export * from "./autosave-store";
+export * from "./project-files";
+export * from "./recent-projects";
+export * from "./types";
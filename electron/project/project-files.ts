@@ -0,0 +1,94 @@
+import { BrowserWindow, dialog } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  PROJECT_DOCUMENT_FORMAT,
+  PROJECT_FILE_EXTENSION,
+  type ProjectOpenResult,
+  type ProjectSaveRequest,
+  type ProjectSaveResult,
+} from "./types";
+
+const PROJECT_FILE_FILTERS = [
+  { name: "OpenScreen Project", extensions: [PROJECT_FILE_EXTENSION] },
+];
+
+export class ProjectFiles {
+  async save(
+    window: BrowserWindow | null,
+    request: ProjectSaveRequest,
+  ): Promise<ProjectSaveResult | null> {
+    let filePath = request.filePath ?? null;
+
+    if (!filePath) {
+      const options: Electron.SaveDialogOptions = {
+        title: "Save Project",
+        defaultPath: `${request.suggestedName || "Untitled"}.${PROJECT_FILE_EXTENSION}`,
+        filters: PROJECT_FILE_FILTERS,
+      };
+      const result = window
+        ? await dialog.showSaveDialog(window, options)
+        : await dialog.showSaveDialog(options);
+
+      if (result.canceled || !result.filePath) {
+        return null;
+      }
+
+      filePath = ensureExtension(result.filePath);
+    }
+
+    // Write next to the target first so a crash mid-write never truncates
+    // the user's existing project file
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, request.content, "utf-8");
+    await fs.rename(tempPath, filePath);
+
+    return { filePath };
+  }
+
+  async open(window: BrowserWindow | null): Promise<ProjectOpenResult | null> {
+    const options: Electron.OpenDialogOptions = {
+      title: "Open Project",
+      filters: PROJECT_FILE_FILTERS,
+      properties: ["openFile"],
+    };
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return null;
+    }
+
+    return this.read(result.filePaths[0]);
+  }
+
+  /** Contents of a project file, throws for anything that is not one */
+  async read(filePath: string): Promise<ProjectOpenResult> {
+    if (path.extname(filePath).toLowerCase() !== `.${PROJECT_FILE_EXTENSION}`) {
+      throw new Error(`Not a project file: ${filePath}`);
+    }
+
+    const content = await fs.readFile(filePath, "utf-8");
+    if (!isProjectDocument(content)) {
+      throw new Error(`Not an OpenScreen project: ${filePath}`);
+    }
+
+    return { filePath, content };
+  }
+}
+
+// The renderer checks the rest when it parses the document
+function isProjectDocument(content: string): boolean {
+  try {
+    return JSON.parse(content)?.format === PROJECT_DOCUMENT_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+function ensureExtension(filePath: string): string {
+  return path.extname(filePath).toLowerCase() === `.${PROJECT_FILE_EXTENSION}`
+    ? filePath
+    : `${filePath}.${PROJECT_FILE_EXTENSION}`;
+}
@@ -0,0 +1,113 @@
+import { app, shell } from "electron";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { PROJECT_FILE_EXTENSION, type RecentProject } from "./types";
+
+/** Projects remembered for the start screen, least recent are dropped */
+const MAX_RECENT_PROJECTS = 20;
+
+interface RecentProjectEntry {
+  filePath: string;
+  mediaPath: string | null;
+  openedAt: number;
+}
+
+/**
+ * Projects saved or opened lately, kept in `<userData>/recent-projects.json`
+ * most recent first.
+ */
+export class RecentProjects {
+  private readonly storePath = path.join(
+    app.getPath("userData"),
+    "recent-projects.json",
+  );
+  // Serializes read-modify-write cycles of the store file
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /** Move a project to the top of the list */
+  add(filePath: string, content: string): Promise<void> {
+    return this.update((entries) => [
+      { filePath, mediaPath: readMainMediaPath(content), openedAt: Date.now() },
+      ...entries.filter((entry) => entry.filePath !== filePath),
+    ]);
+  }
+
+  remove(filePath: string): Promise<void> {
+    return this.update((entries) =>
+      entries.filter((entry) => entry.filePath !== filePath),
+    );
+  }
+
+  async list(): Promise<RecentProject[]> {
+    const entries = await this.read();
+
+    return Promise.all(
+      entries.map(async ({ filePath, mediaPath, openedAt }) => {
+        const name = path.basename(filePath, `.${PROJECT_FILE_EXTENSION}`);
+        try {
+          const stats = await fs.stat(filePath);
+          return {
+            filePath,
+            name,
+            modifiedAt: stats.mtimeMs,
+            mediaPath,
+            exists: true,
+          };
+        } catch {
+          return {
+            filePath,
+            name,
+            modifiedAt: openedAt,
+            mediaPath,
+            exists: false,
+          };
+        }
+      }),
+    );
+  }
+
+  /** Move a project file to the OS trash and forget about it */
+  async trash(filePath: string): Promise<void> {
+    if (path.extname(filePath).toLowerCase() !== `.${PROJECT_FILE_EXTENSION}`) {
+      throw new Error(`Not a project file: ${filePath}`);
+    }
+
+    await shell.trashItem(filePath);
+    await this.remove(filePath);
+  }
+
+  private update(
+    change: (entries: RecentProjectEntry[]) => RecentProjectEntry[],
+  ): Promise<void> {
+    const task = this.queue.then(async () => {
+      const entries = change(await this.read()).slice(0, MAX_RECENT_PROJECTS);
+      const tempPath = `${this.storePath}.tmp`;
+
+      await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), "utf-8");
+      await fs.rename(tempPath, this.storePath);
+    });
+    this.queue = task.catch(() => {});
+    return task;
+  }
+
+  private async read(): Promise<RecentProjectEntry[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.storePath, "utf-8"));
+      return Array.isArray(data)
+        ? data.filter((entry) => typeof entry?.filePath === "string")
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/** First media reference of a serialized project, the video it was made for */
+function readMainMediaPath(content: string): string | null {
+  try {
+    const mediaPath = JSON.parse(content)?.media?.[0]?.path;
+    return typeof mediaPath === "string" ? mediaPath : null;
+  } catch {
+    return null;
+  }
+}
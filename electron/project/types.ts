@@ -0,0 +1,54 @@
+export const PROJECT_FILE_EXTENSION = "openscreen";
+/** `format` field of every project document, see src/lib/project.ts */
+export const PROJECT_DOCUMENT_FORMAT = "openscreen-project";
+
+export interface ProjectSaveRequest {
+  /** Serialized project document */
+  content: string;
+  /** Existing location on disk. When omitted the user is asked for one. */
+  filePath?: string | null;
+  /** Suggested file name for the save dialog (without extension) */
+  suggestedName?: string;
+}
+
+export interface ProjectSaveResult {
+  filePath: string;
+}
+
+export interface ProjectOpenResult {
+  filePath: string;
+  content: string;
+}
+
+export interface AutosaveRequest {
+  /** Serialized project document */
+  content: string;
+  projectName: string;
+  /** File the project was last saved to, if any */
+  projectPath: string | null;
+}
+
+export interface AutosaveSnapshotInfo {
+  /** Opaque identifier used to read the snapshot back */
+  id: string;
+  sessionId: string;
+  /** Unix timestamp in milliseconds */
+  savedAt: number;
+  projectName: string;
+  projectPath: string | null;
+}
+
+export interface AutosaveSnapshot extends AutosaveSnapshotInfo {
+  content: string;
+}
+
+export interface RecentProject {
+  filePath: string;
+  name: string;
+  /** Unix timestamp in milliseconds of the last save, from the file itself */
+  modifiedAt: number;
+  /** Main video of the project, its poster is the project thumbnail */
+  mediaPath: string | null;
+  /** False once the file was moved or deleted outside the app */
+  exists: boolean;
+}
@@ -9,13 +9,41 @@ import {
 import Sidebar from "@/components/layout/sidebar";
 import Main from "@/components/layout/main";
 import Footer from "@/components/layout/footer";
+import RecoveryDialog from "@/components/layout/recovery-dialog";
+import WelcomeScreen from "@/components/layout/welcome";
+import { useHashRoute } from "@/hooks/use-hash-route";
 import { PlaybackProvider } from "@/context/playback-context";
 import { PresentationProvider } from "@/context/presentation-context";
 import { ExportProvider } from "@/context/export-context";
 import { BackgroundProvider } from "@/context/background-context";
+import { HistoryProvider } from "@/context/history-context";
+import { MediaProvider } from "@/context/media-context";
+import { ProjectProvider } from "@/context/project-context";
 import { TooltipProvider as GlobalTooltipProvider } from "./components/ui/global-tooltip";
 
+function Editor() {
+  return (
+    <div className="h-dvh w-dvw overflow-hidden">
+      <TitleBar />
+      <ResizablePanelGroup direction="vertical">
+        <ResizablePanel order={1}>
+          <section className="flex h-full flex-row">
+            <Sidebar />
+            <Main />
+          </section>
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel minSize={30} order={2} defaultSize={31} maxSize={60}>
+          <Footer />
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+}
+
 export default function App() {
+  const { route } = useHashRoute();
+
   return (
     <ThemeProvider defaultTheme="light">
       <TooltipProvider delayDuration={0}>
@@ -24,26 +52,14 @@ export default function App() {
             <ExportProvider>
               <PlaybackProvider>
                 <BackgroundProvider>
-                  <div className="h-dvh w-dvw overflow-hidden">
-                    <TitleBar />
-                    <ResizablePanelGroup direction="vertical">
-                      <ResizablePanel order={1}>
-                        <section className="flex h-full flex-row">
-                          <Sidebar />
-                          <Main />
-                        </section>
-                      </ResizablePanel>
-                      <ResizableHandle withHandle />
-                      <ResizablePanel
-                        minSize={30}
-                        order={2}
-                        defaultSize={31}
-                        maxSize={60}
-                      >
-                        <Footer />
-                      </ResizablePanel>
-                    </ResizablePanelGroup>
-                  </div>
+                  <HistoryProvider>
+                    <MediaProvider>
+                      <ProjectProvider>
+                        {route === "welcome" ? <WelcomeScreen /> : <Editor />}
+                        <RecoveryDialog />
+                      </ProjectProvider>
+                    </MediaProvider>
+                  </HistoryProvider>
                 </BackgroundProvider>
               </PlaybackProvider>
             </ExportProvider>
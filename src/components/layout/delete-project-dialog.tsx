@@ -0,0 +1,70 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+
+type DeleteProjectDialogProps = {
+  /** Project to delete, the dialog is open while set */
+  projectName: string | null;
+  /** Saved project file, null for a project that only exists in the editor */
+  filePath: string | null;
+  onCancel: () => void;
+  onConfirm: () => Promise<unknown>;
+};
+
+export default function DeleteProjectDialog({
+  projectName,
+  filePath,
+  onCancel,
+  onConfirm,
+}: DeleteProjectDialogProps) {
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsDeleting(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={projectName !== null}
+      onOpenChange={(next) => !next && !isDeleting && onCancel()}
+    >
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Delete “{projectName}”?</DialogTitle>
+          <DialogDescription>
+            {filePath
+              ? "The project file is moved to the trash. Your media files are not touched."
+              : "This project was never saved, its changes will be discarded."}
+          </DialogDescription>
+        </DialogHeader>
+        {filePath && (
+          <p className="text-muted-foreground truncate text-xs">{filePath}</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isDeleting}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={isDeleting}
+          >
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
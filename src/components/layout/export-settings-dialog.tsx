@@ -15,30 +15,76 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { useEffect, useMemo, useState } from "react";
+import { usePlayback } from "@/context/playback-context";
+import { EXPORT_FRAME_RATES } from "@/lib/media";
+import { formatChapterList, getChapters } from "@/lib/chapters";
 
 export type ExportSettings = {
   resolution: "4k" | "1080p" | "720p" | "480p";
   format: "mp4" | "webm";
   quality: "high" | "medium" | "low";
+  fps: number;
+  /** Write the timeline markers into the file as MP4 chapters */
+  embedChapters: boolean;
+  /** Export only the in/out range instead of the whole timeline */
+  rangeOnly: boolean;
 };
 
 type ExportSettingsDialogProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onExport: (settings: ExportSettings) => void;
+  /** Frame rate preselected each time the dialog opens, from the source */
+  defaultFps: number;
 };
 
 export default function ExportSettingsDialog({
   open,
   onOpenChange,
   onExport,
+  defaultFps,
 }: ExportSettingsDialogProps) {
   const [resolution, setResolution] = useState<ExportSettings["resolution"]>(
     "1080p",
   );
   const [format, setFormat] = useState<ExportSettings["format"]>("mp4");
   const [quality, setQuality] = useState<ExportSettings["quality"]>("high");
+  const [fps, setFps] = useState(defaultFps);
+  const [embedChapters, setEmbedChapters] = useState(true);
+  const [rangeOnly, setRangeOnly] = useState(true);
+  const { markers, duration, inPoint, outPoint, getPlaybackRange } =
+    usePlayback();
+  const hasRange = inPoint !== null || outPoint !== null;
+  const exportRangeOnly = hasRange && rangeOnly;
+
+  const chapterList = useMemo(
+    () =>
+      formatChapterList(
+        getChapters(
+          markers,
+          exportRangeOnly ? getPlaybackRange() : { start: 0, end: duration },
+        ),
+      ),
+    [markers, duration, exportRangeOnly, getPlaybackRange],
+  );
+
+  const handleSaveChapterList = () => {
+    const blob = new Blob([`${chapterList}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `chapters-${Date.now()}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  useEffect(() => {
+    if (open) {
+      setFps(defaultFps);
+    }
+  }, [open, defaultFps]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -88,6 +134,26 @@ export default function ExportSettingsDialog({
               </SelectContent>
             </Select>
           </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="fps" className="text-right">
+              Frame rate
+            </Label>
+            <Select
+              value={String(fps)}
+              onValueChange={(v) => setFps(Number(v))}
+            >
+              <SelectTrigger className="col-span-3">
+                <SelectValue placeholder="Select frame rate" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_FRAME_RATES.map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>
+                    {rate} fps{rate === defaultFps ? " (source)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="quality" className="text-right">
               Quality
@@ -106,6 +172,59 @@ export default function ExportSettingsDialog({
               </SelectContent>
             </Select>
           </div>
+          {hasRange && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="range" className="text-right">
+                Range
+              </Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <Switch
+                  id="range"
+                  checked={rangeOnly}
+                  onCheckedChange={setRangeOnly}
+                />
+                <span className="text-sm text-muted-foreground">
+                  Export in/out range only
+                </span>
+              </div>
+            </div>
+          )}
+          {chapterList && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="chapters" className="text-right">
+                Chapters
+              </Label>
+              <div className="col-span-3 flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="chapters"
+                    checked={format === "mp4" && embedChapters}
+                    disabled={format !== "mp4"}
+                    onCheckedChange={setEmbedChapters}
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    Embed markers as MP4 chapters
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigator.clipboard.writeText(chapterList)}
+                  >
+                    Copy chapter list
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSaveChapterList}
+                  >
+                    Save as text file
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
@@ -113,7 +232,14 @@ export default function ExportSettingsDialog({
           </Button>
           <Button
             onClick={() => {
-              onExport({ resolution, format, quality });
+              onExport({
+                resolution,
+                format,
+                quality,
+                fps,
+                embedChapters: format === "mp4" && embedChapters,
+                rangeOnly: exportRangeOnly,
+              });
               onOpenChange(false);
             }}
           >
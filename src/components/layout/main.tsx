@@ -1,11 +1,16 @@
 import { HugeiconsIcon } from "@hugeicons/react";
 import {
+  Alert02Icon,
+  ArrowDown01Icon,
   ArrowLeft01Icon,
   ArrowRight01Icon,
   AspectRatioIcon,
+  Magnet01Icon,
   PauseIcon,
   PlayIcon,
   RectangularIcon,
+  RepeatIcon,
+  RippleIcon,
   ScissorIcon,
   SquareIcon,
 } from "@hugeicons/core-free-icons";
@@ -16,12 +21,26 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { ZoomSlider } from "@/components/timeline/toolbar";
 
 import PixiVideoPlayer, {
   type PixiVideoPlayerHandle,
 } from "@/components/layout/pixi/canvas";
 import ExportDialog from "@/components/layout/export-dialog";
+import ProxyStatusIndicator from "@/components/layout/proxy-status";
 import ExportSettingsDialog, {
   type ExportSettings,
 } from "@/components/layout/export-settings-dialog";
@@ -29,6 +48,8 @@ import ExportSettingsDialog, {
 import { useMemo, useRef, useState, useEffect } from "react";
 import { useExport } from "@/context/export-context";
 import { usePresentation } from "@/context/presentation-context";
+import { useProject } from "@/context/project-context";
+import { useMedia } from "@/context/media-context";
 import {
   usePlayback,
   TIMELINE_ZOOM_MIN,
@@ -36,6 +57,8 @@ import {
 } from "@/context/playback-context";
 import { Button } from "../ui/button";
 import { cn } from "@/lib/utils";
+import { getDefaultExportFps, isVideoFile } from "@/lib/media";
+import type { SnapSettings } from "@/components/timeline/types";
 
 const ASPECT_OPTIONS = [
   { id: "16-9", label: "Wide", ratioLabel: "16:9", width: 16, height: 9 },
@@ -45,6 +68,13 @@ const ASPECT_OPTIONS = [
   { id: "1-1", label: "Square", ratioLabel: "1:1", width: 1, height: 1 },
 ];
 
+const SNAP_TARGETS: { key: Exclude<keyof SnapSettings, "enabled">; label: string }[] = [
+  { key: "clipEdges", label: "Clip edges" },
+  { key: "playhead", label: "Playhead" },
+  { key: "markers", label: "Markers" },
+  { key: "range", label: "In/out points" },
+];
+
 function formatTime(seconds: number) {
   const minutes = Math.floor(seconds / 60);
   const remainingSeconds = Math.floor(seconds % 60);
@@ -72,9 +102,9 @@ function TimeDisplay() {
 }
 
 export default function Main() {
-  const [aspectId, setAspectId] = useState<string>(
-    ASPECT_OPTIONS[0]?.id ?? "16-9"
-  );
+  const { aspectRatio: aspectId, setAspectRatio: setAspectId } = useProject();
+  const { openVideo, probe, source } = useMedia();
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const {
     isSettingsOpen,
     setIsSettingsOpen,
@@ -91,12 +121,21 @@ export default function Main() {
   const {
     isPlaying,
     togglePlay,
+    playbackRate,
     duration,
     step,
     timelineZoom,
     setTimelineZoom,
     scissorMode,
     toggleScissorMode,
+    editMode,
+    setEditMode,
+    snapSettings,
+    setSnapSettings,
+    isLooping,
+    setIsLooping,
+    inPoint,
+    outPoint,
   } = usePlayback();
 
   const handleZoomChange = (value: number) => {
@@ -132,6 +171,24 @@ export default function Main() {
     }
   };
 
+  const handleDragOver = (e: React.DragEvent<HTMLElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+    setIsDraggingFile(false);
+
+    const file = e.dataTransfer.files[0];
+    const filePath = file ? window.mediaAPI?.getPathForFile(file) : null;
+    if (!filePath || !isVideoFile(filePath)) return;
+
+    e.preventDefault();
+    openVideo(filePath);
+  };
+
   useEffect(() => {
     const handleToggle = async () => {
       const handle = pixiRef.current;
@@ -152,7 +209,13 @@ export default function Main() {
     <main className="flex flex-1 flex-col min-h-0 min-w-0">
       <section
         id="canvas"
-        className="flex flex-1 min-h-0 min-w-0 items-center justify-center bg-background p-4"
+        className={cn(
+          "flex flex-1 min-h-0 min-w-0 items-center justify-center bg-background p-4",
+          isDraggingFile && "ring-2 ring-inset ring-primary"
+        )}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDraggingFile(false)}
+        onDrop={handleDrop}
       >
         <div className="h-full w-full min-h-0 min-w-0">
           <PixiVideoPlayer
@@ -214,6 +277,26 @@ export default function Main() {
                 ))}
               </SelectContent>
             </Select>
+            {probe && probe.warnings.length > 0 && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon">
+                    <HugeiconsIcon
+                      icon={Alert02Icon}
+                      className="text-amber-500"
+                    />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent align="start" className="max-w-80">
+                  <ul className="flex flex-col gap-1">
+                    {probe.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </TooltipContent>
+              </Tooltip>
+            )}
+            <ProxyStatusIndicator filePath={source.path} />
           </div>
           <div className="flex items-center gap-2">
             <TimeDisplay />
@@ -223,9 +306,33 @@ export default function Main() {
             <Button variant="ghost" size="icon" onClick={togglePlay}>
               <HugeiconsIcon icon={isPlaying ? PauseIcon : PlayIcon} />
             </Button>
+            {playbackRate !== 1 && (
+              <span className="text-xs text-primary tabular-nums select-none">
+                {playbackRate}×
+              </span>
+            )}
             <Button variant="ghost" size="icon" onClick={() => step(5)}>
               <HugeiconsIcon icon={ArrowRight01Icon} />
             </Button>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-pressed={isLooping}
+                  onClick={() => setIsLooping(!isLooping)}
+                  className={cn(isLooping && "text-primary")}
+                >
+                  <HugeiconsIcon icon={RepeatIcon} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {inPoint !== null || outPoint !== null
+                  ? "Loop in/out range"
+                  : "Loop"}{" "}
+                (Ctrl+L)
+              </TooltipContent>
+            </Tooltip>
 
             <div className="text-xs select-none tabular-nums">
               {formatTime(duration)}
@@ -242,6 +349,81 @@ export default function Main() {
             >
               <HugeiconsIcon icon={ScissorIcon} />
             </Button>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-pressed={editMode === "ripple"}
+                  onClick={() =>
+                    setEditMode(editMode === "ripple" ? "overwrite" : "ripple")
+                  }
+                  className={cn(editMode === "ripple" && "text-primary")}
+                >
+                  <HugeiconsIcon icon={RippleIcon} />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                {editMode === "ripple"
+                  ? "Ripple editing: clips close up behind edits"
+                  : "Overwrite editing: clips stay put, gaps allowed"}
+              </TooltipContent>
+            </Tooltip>
+            <div className="flex items-center">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-pressed={snapSettings.enabled}
+                    onClick={() =>
+                      setSnapSettings((previous) => ({
+                        ...previous,
+                        enabled: !previous.enabled,
+                      }))
+                    }
+                    className={cn(snapSettings.enabled && "text-primary")}
+                  >
+                    <HugeiconsIcon icon={Magnet01Icon} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  Snapping (hold Ctrl/Cmd to bypass)
+                </TooltipContent>
+              </Tooltip>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="w-5"
+                    aria-label="Snap targets"
+                  >
+                    <HugeiconsIcon icon={ArrowDown01Icon} />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Snap to</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {SNAP_TARGETS.map(({ key, label }) => (
+                    <DropdownMenuCheckboxItem
+                      key={key}
+                      checked={snapSettings[key]}
+                      onCheckedChange={(checked) =>
+                        setSnapSettings((previous) => ({
+                          ...previous,
+                          [key]: checked,
+                        }))
+                      }
+                      // Stay open to toggle several
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {label}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
             <ZoomSlider
               zoom={timelineZoom}
               minZoom={TIMELINE_ZOOM_MIN}
@@ -255,6 +437,7 @@ export default function Main() {
         open={isSettingsOpen}
         onOpenChange={setIsSettingsOpen}
         onExport={handleStartExport}
+        defaultFps={getDefaultExportFps(probe)}
       />
       <ExportDialog
         open={isExporting}
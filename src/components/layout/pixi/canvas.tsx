@@ -5,6 +5,7 @@ import {
   WebMOutputFormat,
   BufferTarget,
   CanvasSource,
+  AudioBufferSource,
 } from "mediabunny";
 import {
   Container,
@@ -26,6 +27,15 @@ import {
 
 import CompositeScene from "./composite";
 import { usePlayback } from "@/context/playback-context";
+import { useMedia } from "@/context/media-context";
+import { getMediaUrl } from "@/lib/media";
+import { getActiveClips, isVisualTrack } from "@/lib/timeline";
+import { addMp4Chapters, getChapters } from "@/lib/chapters";
+import {
+  EXPORT_AUDIO_SAMPLE_RATE,
+  TimelineAudioMixer,
+  getExportAudioCodec,
+} from "@/lib/export-audio";
 import ExportRenderer from "./export-renderer";
 import { type ExportSettings } from "../export-settings-dialog";
 
@@ -104,6 +114,10 @@ function getExportDimensions(
   }
 }
 
+// Audio is mixed and encoded a second at a time, alongside the frames
+const AUDIO_BLOCK_SAMPLES = EXPORT_AUDIO_SAMPLE_RATE;
+const AUDIO_BITRATE = 192_000;
+
 function getQualityBitrate(
   quality: ExportSettings["quality"],
   resolution: ExportSettings["resolution"],
@@ -207,12 +221,17 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
   const stageWrapperRef = useRef<HTMLDivElement | null>(null);
   const appRef = useRef<PixiApplication | null>(null);
   const playback = usePlayback();
+  const { getAsset } = useMedia();
 
   const [exportConfig, setExportConfig] = useState<{
     width: number;
     height: number;
     resolution: number;
     onReady: (app: PixiApplication) => void;
+    onVideoElement: (mediaId: string, video: HTMLVideoElement) => void;
+    onMediaError: (mediaId: string, error: unknown) => void;
+    activeMediaIds: string[];
+    onMediaShown: (mediaIds: string[]) => void;
   } | null>(null);
 
   const [containerSize, setContainerSize] = useState<Dimensions>({
@@ -397,11 +416,11 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
         settings: ExportSettings,
         onProgress: (progress: number, estimatedSeconds: number) => void,
       ) => {
-        const video = playback.videoElement;
         const duration = playback.duration;
         const clips = playback.clips;
+        const tracks = playback.tracks;
 
-        if (!video || duration <= 0) {
+        if (!playback.videoElement || duration <= 0) {
           console.error("Cannot export: missing video or duration");
           return;
         }
@@ -425,22 +444,106 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
         const logicalWidth = width / exportResolution;
         const logicalHeight = height / exportResolution;
 
+        // Every visible picture track under this frame, bottom first
+        const getFrameMedia = (time: number) =>
+          getActiveClips(clips, tracks, time)
+            .filter(({ track }) => isVisualTrack(track))
+            .map(({ clip, mediaTime }) => ({
+              mediaId: clip.mediaId,
+              mediaTime,
+            }));
+
+        // The export scene loads the original media, even while the preview
+        // plays a proxy, and reports each video element once it is ready.
+        // One that fails to load fails the export instead of stalling it.
+        const videoMediaIds = new Set(
+          clips
+            .filter((clip) => getAsset(clip.mediaId)?.kind === "video")
+            .map((clip) => clip.mediaId),
+        );
+        const exportVideos = new Map<string, HTMLVideoElement>();
+        let resolveVideos: () => void = () => {};
+        let rejectVideos: (error: Error) => void = () => {};
+        const exportVideosReady = new Promise<void>((resolve, reject) => {
+          resolveVideos = resolve;
+          rejectVideos = reject;
+        });
+        // Awaited once the export scene is up, which may be after a failure
+        exportVideosReady.catch(() => {});
+        if (videoMediaIds.size === 0) {
+          resolveVideos();
+        }
+
+        // Switching assets re-renders the scene, wait for it to show the new ones
+        let shownKey: string | null = null;
+        let onShown: (() => void) | null = null;
+        const showMedia = (mediaIds: string[]) => {
+          const key = mediaIds.join("\n");
+          if (shownKey === key) return Promise.resolve();
+
+          return new Promise<void>((resolve) => {
+            onShown = () => {
+              if (shownKey !== key) return;
+              onShown = null;
+              resolve();
+            };
+            setExportConfig((config) =>
+              config ? { ...config, activeMediaIds: mediaIds } : config,
+            );
+          });
+        };
+
         return new Promise<void>((resolve, reject) => {
           setExportConfig({
             width: logicalWidth,
             height: logicalHeight,
             resolution: exportResolution,
+            activeMediaIds: getFrameMedia(0).map(({ mediaId }) => mediaId),
+            onMediaShown: (mediaIds) => {
+              shownKey = mediaIds.join("\n");
+              onShown?.();
+            },
+            onVideoElement: (mediaId, video) => {
+              video.pause();
+              exportVideos.set(mediaId, video);
+              if ([...videoMediaIds].every((id) => exportVideos.has(id))) {
+                resolveVideos();
+              }
+            },
+            onMediaError: (mediaId, error) => {
+              if (!videoMediaIds.has(mediaId)) return;
+              const name = getAsset(mediaId)?.name ?? mediaId;
+              rejectVideos(
+                new Error(`Cannot export: failed to load ${name}`, {
+                  cause: error,
+                }),
+              );
+            },
             onReady: async (exportApp) => {
               try {
-                const fps = 30;
-                const totalFrames = Math.ceil(duration * fps);
+                await exportVideosReady;
+
+                const { fps } = settings;
+                // Only the in/out range, or the whole timeline
+                const range = settings.rangeOnly
+                  ? playback.getPlaybackRange()
+                  : { start: 0, end: duration };
+                const totalFrames = Math.ceil((range.end - range.start) * fps);
                 const startTime = performance.now();
 
+                const chapters = settings.embedChapters
+                  ? getChapters(playback.markers, range)
+                  : [];
+
                 const output = new Output({
                   format:
                     settings.format === "webm"
                       ? new WebMOutputFormat()
-                      : new Mp4OutputFormat(),
+                      : // Chapters grow the movie box, which has to follow
+                        // the media for that (see addMp4Chapters)
+                        new Mp4OutputFormat(
+                          chapters.length > 0 ? { fastStart: false } : {},
+                        ),
                   target: new BufferTarget(),
                 });
 
@@ -456,9 +559,61 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
                 );
 
                 output.addVideoTrack(source, { frameRate: fps });
+
+                // The sound of every audible clip, mixed like the preview
+                // plays it
+                const audioMixer = new TimelineAudioMixer(
+                  clips,
+                  tracks,
+                  (mediaId) => {
+                    const asset = getAsset(mediaId);
+                    return asset ? getMediaUrl(asset.path) : null;
+                  },
+                );
+                const audioCodec = audioMixer.isEmpty
+                  ? null
+                  : await getExportAudioCodec(settings.format);
+                const audioSource = audioCodec
+                  ? new AudioBufferSource({
+                      codec: audioCodec,
+                      bitrate: AUDIO_BITRATE,
+                    })
+                  : null;
+                if (audioSource) {
+                  output.addAudioTrack(audioSource);
+                } else if (!audioMixer.isEmpty) {
+                  console.warn("Exporting without sound: no audio encoder");
+                }
+
                 await output.start();
 
-                const waitForSeek = () => {
+                const totalSamples = Math.round(
+                  (totalFrames / fps) * EXPORT_AUDIO_SAMPLE_RATE,
+                );
+                let mixedSamples = 0;
+                const mixAudioUntil = async (time: number) => {
+                  if (!audioSource) return;
+
+                  const target = Math.min(
+                    totalSamples,
+                    Math.ceil(time * EXPORT_AUDIO_SAMPLE_RATE),
+                  );
+                  while (mixedSamples < target) {
+                    const length = Math.min(
+                      AUDIO_BLOCK_SAMPLES,
+                      totalSamples - mixedSamples,
+                    );
+                    await audioSource.add(
+                      await audioMixer.render(
+                        range.start + mixedSamples / EXPORT_AUDIO_SAMPLE_RATE,
+                        length,
+                      ),
+                    );
+                    mixedSamples += length;
+                  }
+                };
+
+                const waitForSeek = (video: HTMLVideoElement) => {
                   return new Promise<void>((resolve) => {
                     const onSeeked = () => {
                       video.removeEventListener("seeked", onSeeked);
@@ -469,29 +624,28 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
                 };
 
                 for (let i = 0; i < totalFrames; i++) {
-                  const time = i / fps;
+                  const time = range.start + i / fps;
 
-                  // Calculate video time based on clips
-                  let videoTime = time;
-                  if (clips && clips.length > 0) {
-                    const activeClip = clips.find(
-                      (c) => time >= c.start && time < c.start + c.duration,
-                    );
-                    if (activeClip) {
-                      const offset = time - activeClip.start;
-                      videoTime = activeClip.trimStart + offset;
-                    }
-                  }
+                  // Show the assets under this frame and seek the videos
+                  const frameMedia = getFrameMedia(time);
+                  await showMedia(frameMedia.map(({ mediaId }) => mediaId));
+
+                  await Promise.all(
+                    frameMedia.map(({ mediaId, mediaTime }) => {
+                      const video = exportVideos.get(mediaId);
+                      if (!video) return;
 
-                  // Seek video
-                  video.currentTime = videoTime;
-                  await waitForSeek();
+                      video.currentTime = mediaTime;
+                      return waitForSeek(video);
+                    }),
+                  );
 
                   // Force Pixi render
                   exportApp.renderer.render(exportApp.stage);
 
-                  // Add frame
-                  await source.add(time, 1 / fps);
+                  // Add frame, and the sound up to its end
+                  await source.add(i / fps, 1 / fps);
+                  await mixAudioUntil((i + 1) / fps);
 
                   // Calculate progress
                   const progress = (i + 1) / totalFrames;
@@ -506,8 +660,12 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
                 }
 
                 await output.finalize();
+                await audioMixer.dispose();
 
-                const buffer = output.target.buffer;
+                const buffer =
+                  output.target.buffer && chapters.length > 0
+                    ? addMp4Chapters(output.target.buffer, chapters)
+                    : output.target.buffer;
                 if (buffer) {
                   const blob = new Blob([buffer], {
                     type:
@@ -531,7 +689,7 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
         });
       },
     }),
-    [isFullscreen, playback, targetAspectRatio],
+    [getAsset, isFullscreen, playback, targetAspectRatio],
   );
   useEffect(() => {
     if (typeof document === "undefined") {
@@ -588,6 +746,10 @@ export const PixiApp = forwardRef(function PixiVideoPlayer(
           height={exportConfig.height}
           resolution={exportConfig.resolution}
           onInit={exportConfig.onReady}
+          onVideoElement={exportConfig.onVideoElement}
+          onMediaError={exportConfig.onMediaError}
+          activeMediaIds={exportConfig.activeMediaIds}
+          onMediaShown={exportConfig.onMediaShown}
         />
       )}
     </div>
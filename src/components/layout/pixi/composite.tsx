@@ -4,11 +4,23 @@ import VideoTexture from "./video";
 type CompositeSceneProps = {
   onVideoDimensions?: (dimensions: { width: number; height: number }) => void;
   viewportSize: { width: number; height: number };
+  /** Render from the original media rather than the preview proxy */
+  useOriginalMedia?: boolean;
+  onVideoElement?: (mediaId: string, video: HTMLVideoElement) => void;
+  onMediaError?: (mediaId: string, error: unknown) => void;
+  /** Show these assets, bottom first, instead of the playhead's (export) */
+  activeMediaIds?: string[];
+  onMediaShown?: (mediaIds: string[]) => void;
 };
 
 export default function CompositeScene({
   onVideoDimensions,
   viewportSize,
+  useOriginalMedia,
+  onVideoElement,
+  onMediaError,
+  activeMediaIds,
+  onMediaShown,
 }: CompositeSceneProps) {
   return (
     <pixiContainer>
@@ -19,6 +31,11 @@ export default function CompositeScene({
       <VideoTexture
         onVideoDimensions={onVideoDimensions}
         viewportSize={viewportSize}
+        useOriginalMedia={useOriginalMedia}
+        onVideoElement={onVideoElement}
+        onMediaError={onMediaError}
+        activeMediaIds={activeMediaIds}
+        onMediaShown={onMediaShown}
       />
     </pixiContainer>
   );
@@ -7,6 +7,13 @@ type ExportRendererProps = {
   height: number;
   resolution?: number;
   onInit: (app: PixiApplication) => void;
+  /** The export's own elements for the original media, to seek frame by frame */
+  onVideoElement: (mediaId: string, video: HTMLVideoElement) => void;
+  /** A medium the export needs could not be loaded */
+  onMediaError: (mediaId: string, error: unknown) => void;
+  /** Assets the frame being rendered shows, bottom track first */
+  activeMediaIds: string[];
+  onMediaShown: (mediaIds: string[]) => void;
 };
 
 export default function ExportRenderer({
@@ -14,6 +21,10 @@ export default function ExportRenderer({
   height,
   resolution = 1,
   onInit,
+  onVideoElement,
+  onMediaError,
+  activeMediaIds,
+  onMediaShown,
 }: ExportRendererProps) {
   return (
     <div
@@ -36,7 +47,14 @@ export default function ExportRenderer({
         antialias={true}
         preserveDrawingBuffer={true} // Important for capturing canvas
       >
-        <CompositeScene viewportSize={{ width, height }} />
+        <CompositeScene
+          viewportSize={{ width, height }}
+          useOriginalMedia
+          onVideoElement={onVideoElement}
+          onMediaError={onMediaError}
+          activeMediaIds={activeMediaIds}
+          onMediaShown={onMediaShown}
+        />
       </Application>
     </div>
   );
@@ -1,27 +1,76 @@
-import { Assets, Texture, Graphics, BlurFilter } from "pixi.js";
+import { Texture, Graphics, BlurFilter } from "pixi.js";
 import { useEffect, useMemo, useRef, useState } from "react";
 
-import { usePlayback } from "@/context/playback-context";
 import { useBackground } from "@/context/background-context";
+import {
+  useActiveMediaIds,
+  useMediaTextures,
+  useTimelineMediaIds,
+} from "@/hooks/use-timeline-media";
+import { MAIN_MEDIA_ID } from "@/lib/media";
 import { drawSquircle } from "@/lib/squircle";
 
+/** Largest size `texture` fits into `frame` at without cropping */
+function fitInside(
+  texture: Texture,
+  frame: { width: number; height: number },
+): { width: number; height: number } {
+  const width = texture.width || texture.source?.width || 0;
+  const height = texture.height || texture.source?.height || 0;
+  if (!width || !height) return { width: 0, height: 0 };
+
+  const scale = Math.min(frame.width / width, frame.height / height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
 type BunnySpriteProps = {
   onVideoDimensions?: (dimensions: { width: number; height: number }) => void;
   onVideoDuration?: (durationSeconds: number) => void;
   viewportSize: { width: number; height: number };
+  /** Load the original media instead of the preview proxy (export) */
+  useOriginalMedia?: boolean;
+  /** Receives video elements instead of them driving playback */
+  onVideoElement?: (mediaId: string, video: HTMLVideoElement) => void;
+  onMediaError?: (mediaId: string, error: unknown) => void;
+  /** Show these assets, bottom first, instead of the playhead's (export) */
+  activeMediaIds?: string[];
+  /** Called once `activeMediaIds` are loaded and on screen */
+  onMediaShown?: (mediaIds: string[]) => void;
 };
 
 export default function VideoTexture({
   onVideoDimensions,
-  onVideoDuration,
   viewportSize,
+  useOriginalMedia = false,
+  onVideoElement,
+  onMediaError,
+  activeMediaIds: activeMediaIdsOverride,
+  onMediaShown,
 }: BunnySpriteProps) {
   // The Pixi.js `Sprite`
   const spriteRef = useRef(null);
 
-  const [texture, setTexture] = useState(Texture.EMPTY);
-
-  const { registerVideoElement, setDurationHint } = usePlayback();
+  // Every asset in the timeline stays loaded, so cutting between them is instant
+  const mediaIds = useTimelineMediaIds();
+  const { textures, settledIds } = useMediaTextures(mediaIds, {
+    useOriginalMedia,
+    onVideoElement,
+    onMediaError,
+  });
+  const playheadMediaIds = useActiveMediaIds();
+  const activeMediaIds = activeMediaIdsOverride ?? playheadMediaIds;
+  // One sprite per track; audio-only assets have no picture and are skipped
+  const layerTextures = activeMediaIds
+    .map((mediaId) => textures[mediaId])
+    .filter((layerTexture): layerTexture is Texture => Boolean(layerTexture));
+  // The bottom layer is framed (padding, shadow, border), the tracks above
+  // it are fitted inside that frame. Without any, only the background shows.
+  const texture = layerTextures[0] ?? Texture.EMPTY;
+  const overlayTextures = layerTextures.slice(1);
+  const mainTexture = textures[MAIN_MEDIA_ID];
   const {
     padding,
     enabled: backgroundEnabled,
@@ -29,6 +78,7 @@ export default function VideoTexture({
     videoShadow,
     videoBorder,
     videoBorderColor,
+    gapColor,
   } = useBackground();
 
   // Unified animated values for ALL properties (single animation loop)
@@ -106,76 +156,40 @@ export default function VideoTexture({
     };
   }, [padding, videoBorderRadius, videoShadow, videoBorder]);
 
-  // Preload the sprite if it hasn't been loaded yet
+  // The main video decides the canvas aspect ratio
   useEffect(() => {
-    const sourceUrl = "/video/output.mp4";
-
-    let disposed = false;
-    let currentUrl: string | null = null;
-
-    const hydrateTexture = (nextTexture: Texture) => {
-      setTexture(nextTexture);
-
-      if (nextTexture.source && nextTexture.source.resource) {
-        // In PixiJS v8, the resource is the HTMLVideoElement for video textures
-        registerVideoElement(nextTexture.source.resource as HTMLVideoElement);
-      }
+    if (!mainTexture || !onVideoDimensions) return;
 
-      if (onVideoDimensions) {
-        const width = nextTexture.width || nextTexture.source?.width || 0;
-        const height = nextTexture.height || nextTexture.source?.height || 0;
+    const width = mainTexture.width || mainTexture.source?.width || 0;
+    const height = mainTexture.height || mainTexture.source?.height || 0;
 
-        if (width && height) {
-          onVideoDimensions({ width, height });
-        }
-      }
-    };
-
-    const attemptLoad = async () => {
-      try {
-        const loaded = await Assets.load<Texture>(sourceUrl);
-        console.log("Loaded video texture", loaded);
-        if (disposed) {
-          return;
-        }
-        currentUrl = sourceUrl;
-        hydrateTexture(loaded);
-        return;
-      } catch (error) {
-        console.error(`Failed to load video texture from ${sourceUrl}`, error);
-      }
-    };
-
-    void attemptLoad();
+    if (width && height) {
+      onVideoDimensions({ width, height });
+    }
+  }, [mainTexture, onVideoDimensions]);
 
-    return () => {
-      disposed = true;
-      // Do NOT unload the asset here. It is shared between the main app and the export renderer.
-      // Unloading it here destroys the texture for both, causing a crash in the main app.
-      // if (currentUrl) {
-      //   void Assets.unload(currentUrl);
-      // }
-      setTexture(Texture.EMPTY);
-      // Only clear the video element if we are the one who set it?
-      // Actually, for now, let's just not clear it on unmount to be safe,
-      // or we need a way to know if we are the "main" player.
-      // Ideally, the context should handle multiple registrants or we should check if we are the active one.
-      // For now, commenting this out to prevent the main player from losing the video reference during export cleanup.
-      // registerVideoElement(null);
-    };
-  }, [
-    onVideoDimensions,
-    onVideoDuration,
-    registerVideoElement,
-    setDurationHint,
-  ]);
+  useEffect(() => {
+    if (
+      activeMediaIdsOverride &&
+      activeMediaIdsOverride.every((mediaId) => settledIds.has(mediaId))
+    ) {
+      onMediaShown?.(activeMediaIdsOverride);
+    }
+  }, [activeMediaIdsOverride, settledIds, textures, onMediaShown]);
 
   const layout = useMemo(() => {
     const width = texture.width || texture.baseTexture?.width || 0;
     const height = texture.height || texture.baseTexture?.height || 0;
     const { width: viewportWidth, height: viewportHeight } = viewportSize;
 
-    if (!width || !height || !viewportWidth || !viewportHeight) {
+    // No frame (and so no shadow or border) in a gap
+    if (
+      texture === Texture.EMPTY ||
+      !width ||
+      !height ||
+      !viewportWidth ||
+      !viewportHeight
+    ) {
       return {
         width: 0,
         height: 0,
@@ -392,6 +406,18 @@ export default function VideoTexture({
 
   return (
     <>
+      {/* Timeline gap: nothing on any picture track, optionally filled */}
+      {layerTextures.length === 0 && gapColor && (
+        <pixiGraphics
+          key={`gap-${gapColor}`}
+          draw={(g) => {
+            g.clear();
+            g.rect(0, 0, viewportSize.width, viewportSize.height);
+            g.fill({ color: hexToRgb(gapColor) });
+          }}
+        />
+      )}
+
       {/* Shadow Graphics - rendered behind video (OPTIMIZED) */}
       {shadowProps && shadowGraphicsRef.current && (
         <pixiGraphics
@@ -437,17 +463,28 @@ export default function VideoTexture({
         />
       )}
 
-      {/* Video sprite */}
-      <pixiSprite
-        ref={spriteRef}
-        texture={texture}
-        width={layout.width}
-        height={layout.height}
-        x={layout.x}
-        y={layout.y}
-        anchor={0.5}
-        mask={mask}
-      />
+      {/* Video sprite, with the upper tracks stacked on top */}
+      <pixiContainer mask={mask}>
+        <pixiSprite
+          ref={spriteRef}
+          texture={texture}
+          width={layout.width}
+          height={layout.height}
+          x={layout.x}
+          y={layout.y}
+          anchor={0.5}
+        />
+        {overlayTextures.map((overlayTexture, index) => (
+          <pixiSprite
+            key={index}
+            texture={overlayTexture}
+            {...fitInside(overlayTexture, layout)}
+            x={layout.x}
+            y={layout.y}
+            anchor={0.5}
+          />
+        ))}
+      </pixiContainer>
     </>
   );
 }
@@ -0,0 +1,87 @@
+import { HugeiconsIcon } from "@hugeicons/react";
+import {
+  AlertCircleIcon,
+  CheckmarkCircle02Icon,
+  Clock01Icon,
+  Loading03Icon,
+} from "@hugeicons/core-free-icons";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useMedia } from "@/context/media-context";
+import { cn } from "@/lib/utils";
+import type { MediaProxyStatus } from "@/types/media";
+
+function getStatusLabel(status: MediaProxyStatus) {
+  switch (status.state) {
+    case "queued":
+      return "Proxy queued";
+    case "generating":
+      return `Generating proxy… ${Math.round(status.progress * 100)}%`;
+    case "ready":
+      return "Previewing proxy, export uses the original";
+    case "failed":
+      return `Proxy failed: ${status.error ?? "unknown error"}`;
+    default:
+      return null;
+  }
+}
+
+type ProxyStatusIndicatorProps = {
+  /** Media path whose proxy status to show */
+  filePath: string;
+  className?: string;
+};
+
+export default function ProxyStatusIndicator({
+  filePath,
+  className,
+}: ProxyStatusIndicatorProps) {
+  const { proxies } = useMedia();
+  const status = proxies[filePath];
+  const label = status ? getStatusLabel(status) : null;
+
+  if (!status || !label) {
+    return null;
+  }
+
+  const icon = {
+    queued: Clock01Icon,
+    generating: Loading03Icon,
+    ready: CheckmarkCircle02Icon,
+    failed: AlertCircleIcon,
+  }[status.state as Exclude<MediaProxyStatus["state"], "none">];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            "flex items-center gap-1 text-xs text-muted-foreground select-none tabular-nums",
+            status.state === "failed" && "text-destructive",
+            className,
+          )}
+        >
+          <HugeiconsIcon
+            icon={icon}
+            className={cn(
+              "size-4",
+              status.state === "generating" && "animate-spin",
+            )}
+          />
+          {status.state === "generating" &&
+            `${Math.round(status.progress * 100)}%`}
+          {status.state === "ready" && "Proxy"}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{label}</p>
+        {status.reason && (
+          <p className="text-muted-foreground">Reason: {status.reason}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useProject } from "@/context/project-context";
+import { useHashRoute } from "@/hooks/use-hash-route";
+import type { AutosaveSnapshotInfo } from "@/types/project";
+
+export default function RecoveryDialog() {
+  const { recoverSnapshot } = useProject();
+  const { navigate } = useHashRoute();
+  const [snapshots, setSnapshots] = useState<AutosaveSnapshotInfo[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    const api = window.projectAPI;
+    if (!api) return;
+
+    return api.onRecoveryAvailable((available) => {
+      setSnapshots(available);
+      // Newest first, so the default is the latest state before the crash
+      setSelectedId(available[0]?.id ?? null);
+    });
+  }, []);
+
+  const open = snapshots.length > 0;
+  const selected = snapshots.find((snapshot) => snapshot.id === selectedId);
+
+  const close = () => {
+    setSnapshots([]);
+    setSelectedId(null);
+  };
+
+  const handleDiscard = async () => {
+    const sessionId = snapshots[0]?.sessionId;
+    close();
+    if (sessionId) {
+      await window.projectAPI?.discardAutosave(sessionId);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setIsRestoring(true);
+    const restored = await recoverSnapshot(selected);
+    setIsRestoring(false);
+
+    if (restored) {
+      close();
+      navigate("editor");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Restore unsaved session?</DialogTitle>
+          <DialogDescription>
+            OpenScreen closed before your last changes were saved. Pick a
+            snapshot to restore, or discard them.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-64">
+          <RadioGroup
+            value={selectedId ?? undefined}
+            onValueChange={setSelectedId}
+            className="gap-1"
+          >
+            {snapshots.map((snapshot) => (
+              <Label
+                key={snapshot.id}
+                htmlFor={snapshot.id}
+                className="hover:bg-accent flex cursor-pointer items-center gap-3 rounded-md px-3 py-2"
+              >
+                <RadioGroupItem id={snapshot.id} value={snapshot.id} />
+                <span className="flex flex-1 flex-col gap-0.5">
+                  <span className="text-sm font-medium">
+                    {new Date(snapshot.savedAt).toLocaleString()}
+                  </span>
+                  <span className="text-muted-foreground truncate text-xs font-normal">
+                    {snapshot.projectPath ?? snapshot.projectName}
+                  </span>
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+        </ScrollArea>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleDiscard}
+            disabled={isRestoring}
+          >
+            Discard
+          </Button>
+          <Button onClick={handleRestore} disabled={!selected || isRestoring}>
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
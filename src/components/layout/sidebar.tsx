@@ -9,6 +9,7 @@ import {
   ArrowRight01Icon,
   BackgroundIcon,
   EaseInOutIcon,
+  FolderLibraryIcon,
   Video01Icon,
   VolumeHighIcon,
 } from "@hugeicons/core-free-icons";
@@ -21,6 +22,7 @@ import {
   AudioTabContent,
   BackgroundTabContent,
   CursorTabContent,
+  MediaTabContent,
   TranscribeTabContent,
   TransitionTabContent,
   VideoTabContent,
@@ -34,6 +36,12 @@ import {
 import { type TabItem, type TabId } from "@/types";
 
 const TAB_ITEMS: TabItem[] = [
+  {
+    id: "media",
+    label: "Media",
+    icon: <HugeiconsIcon icon={FolderLibraryIcon} className="size-5" />,
+    content: <MediaTabContent />,
+  },
   {
     id: "background",
     label: "Background",
@@ -1,14 +1,29 @@
 import { useId } from "react";
+import Color from "color";
 
 import Tabs from "./tabs";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
+import {
+  ColorPicker,
+  ColorPickerSelection,
+  ColorPickerHue,
+  ColorPickerEyeDropper,
+  ColorPickerOutput,
+  ColorPickerFormat,
+} from "@/components/ui/color-picker";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import {
   useBackground,
   BACKGROUND_BLUR_VALUE,
   BACKGROUND_PADDING_VALUE,
   BACKGROUND_GRAIN_VALUE,
+  GAP_COLOR_VALUE,
 } from "@/context/background-context";
 
 export function BackgroundTabContent() {
@@ -22,6 +37,8 @@ export function BackgroundTabContent() {
     setPadding,
     grainStrength,
     setGrainStrength,
+    gapColor,
+    setGapColor,
   } = useBackground();
 
   return (
@@ -94,6 +111,53 @@ export function BackgroundTabContent() {
             </Button>
           </div>
         </div>
+        <div className="w-full space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Fill timeline gaps</h3>
+            <Switch
+              checked={gapColor !== null}
+              onCheckedChange={(checked) =>
+                setGapColor(checked ? GAP_COLOR_VALUE : null)
+              }
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Gaps between clips show the background, or this color when on.
+          </p>
+          {gapColor !== null && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start gap-2"
+                >
+                  <div
+                    className="h-6 w-6 rounded border"
+                    style={{ backgroundColor: gapColor }}
+                  />
+                  <span className="flex-1 text-left">{gapColor}</span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-80">
+                <div className="p-4">
+                  <ColorPicker
+                    defaultValue={gapColor}
+                    onChange={(rgba) => setGapColor(Color.rgb(rgba).hex())}
+                    className="space-y-4"
+                  >
+                    <ColorPickerSelection className="h-48" />
+                    <ColorPickerHue />
+                    <div className="flex items-center gap-2">
+                      <ColorPickerFormat className="flex-1" />
+                      <ColorPickerOutput />
+                      <ColorPickerEyeDropper />
+                    </div>
+                  </ColorPicker>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
       </div>
     </section>
   );
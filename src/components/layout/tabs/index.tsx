@@ -4,3 +4,4 @@ export * from "./transcribe";
 export * from "./transition";
 export * from "./cursor";
 export * from "./bg";
+export * from "./media";
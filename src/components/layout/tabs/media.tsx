@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import {
+  Alert02Icon,
+  Delete02Icon,
+  FileImportIcon,
+  MusicNote01Icon,
+} from "@hugeicons/core-free-icons";
+import { Button } from "@/components/ui/button";
+import { useMedia } from "@/context/media-context";
+import { usePlayback } from "@/context/playback-context";
+import { MAIN_MEDIA_ID, MEDIA_ASSET_DRAG_TYPE, getMediaUrl } from "@/lib/media";
+import { usePoster } from "@/hooks/use-poster";
+import { cn } from "@/lib/utils";
+import type { ProjectMediaReference } from "@/types/project";
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
+}
+
+function AssetThumbnail({
+  asset,
+  isMissing,
+}: {
+  asset: ProjectMediaReference;
+  isMissing: boolean;
+}) {
+  const poster = usePoster(
+    asset.kind === "video" && !isMissing ? asset.path : null,
+  );
+  const posterUrl =
+    asset.kind === "image" && !isMissing ? getMediaUrl(asset.path) : poster;
+
+  return (
+    <div className="flex h-12 w-20 shrink-0 items-center justify-center overflow-hidden rounded bg-muted">
+      {posterUrl ? (
+        <img
+          src={posterUrl}
+          alt=""
+          draggable={false}
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        asset.kind === "audio" && (
+          <HugeiconsIcon
+            icon={MusicNote01Icon}
+            className="size-5 text-muted-foreground"
+          />
+        )
+      )}
+    </div>
+  );
+}
+
+export function MediaTabContent() {
+  const {
+    assets,
+    probes,
+    missingPaths,
+    importMedia,
+    importMediaDialog,
+    removeAsset,
+  } = useMedia();
+  const { clips } = usePlayback();
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+    setIsDraggingFile(false);
+
+    const api = window.mediaAPI;
+    if (!api || e.dataTransfer.files.length === 0) return;
+
+    e.preventDefault();
+    importMedia(
+      Array.from(e.dataTransfer.files).map((file) => api.getPathForFile(file)),
+    );
+  };
+
+  return (
+    <section
+      className={cn(
+        "space-y-2 rounded-md",
+        isDraggingFile && "ring-2 ring-primary",
+      )}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDraggingFile(false)}
+      onDrop={handleDrop}
+    >
+      <h3 className="text-sm font-semibold">Media Library</h3>
+      <p className="text-xs text-muted-foreground">
+        Videos, images and audio in this project. Drag an item onto the timeline
+        to use it.
+      </p>
+      <Button
+        variant="secondary"
+        className="w-full"
+        onClick={() => void importMediaDialog()}
+      >
+        <HugeiconsIcon icon={FileImportIcon} />
+        Import media
+      </Button>
+      <ul className="grid gap-1 pt-2">
+        {assets.map((asset) => {
+          const probe = probes[asset.path];
+          const isMissing = missingPaths.has(asset.path);
+          const usage = clips.filter(
+            (clip) => clip.mediaId === asset.id,
+          ).length;
+          const details = [
+            asset.kind !== "image" && probe && formatDuration(probe.duration),
+            asset.kind !== "audio" &&
+              probe?.video &&
+              `${probe.video.width}×${probe.video.height}`,
+          ].filter(Boolean);
+
+          return (
+            <li
+              key={asset.id}
+              draggable={!isMissing}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(MEDIA_ASSET_DRAG_TYPE, asset.id);
+                e.dataTransfer.effectAllowed = "copy";
+              }}
+              title={isMissing ? `Media not found: ${asset.path}` : asset.path}
+              className={cn(
+                "group flex items-center gap-3 rounded-md p-1.5 hover:bg-accent",
+                isMissing ? "cursor-not-allowed" : "cursor-grab",
+              )}
+            >
+              <AssetThumbnail asset={asset} isMissing={isMissing} />
+              <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+                <span className="truncate text-sm font-medium">
+                  {asset.name}
+                </span>
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {details.join(" · ") || asset.kind}
+                </span>
+                <span
+                  className={cn(
+                    "flex items-center gap-1 text-xs",
+                    isMissing ? "text-destructive" : "text-muted-foreground",
+                  )}
+                >
+                  {isMissing && (
+                    <HugeiconsIcon icon={Alert02Icon} className="size-3.5" />
+                  )}
+                  {isMissing
+                    ? "Missing"
+                    : usage === 0
+                      ? "Not used"
+                      : `Used ${usage}× in timeline`}
+                </span>
+              </div>
+              {asset.id !== MAIN_MEDIA_ID && usage === 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove ${asset.name}`}
+                  className="opacity-0 group-hover:opacity-100"
+                  onClick={() => removeAsset(asset.id)}
+                >
+                  <HugeiconsIcon icon={Delete02Icon} />
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -1,11 +1,16 @@
 import { isMacintosh } from "@/lib/platform";
+import { useState } from "react";
 import { useWindowState, useWindowControls } from "@/hooks/use-window-state";
+import { useHashRoute } from "@/hooks/use-hash-route";
 import { MacWindowControls, WindowsWindowControls } from "./controls";
+import DeleteProjectDialog from "./delete-project-dialog";
 import { Button } from "@/components/ui/button";
 import { HugeiconsIcon } from "@hugeicons/react";
 import {
   CloudLoadingIcon,
+  CloudSavingDone02Icon,
   Delete02Icon,
+  FileVideoIcon,
   Folder02Icon,
   Redo03Icon,
   Undo03Icon,
@@ -19,12 +24,44 @@ import {
 } from "@/components/ui/tooltip";
 import { usePresentation } from "@/context/presentation-context";
 import { useExport } from "@/context/export-context";
+import { useProject } from "@/context/project-context";
+import { useHistory } from "@/context/history-context";
+import { useMedia } from "@/context/media-context";
 
 export default function TitleBar() {
   const isMaximized = useWindowState();
   const windowControls = useWindowControls();
   const { togglePresentation } = usePresentation();
   const { setIsSettingsOpen, isExporting } = useExport();
+  const {
+    projectName,
+    filePath,
+    isDirty,
+    isSaving,
+    lastError,
+    saveProject,
+    openProject,
+    deleteProject,
+  } = useProject();
+  const { navigate } = useHashRoute();
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const { undo, redo, canUndo, canRedo } = useHistory();
+  const { openVideoDialog } = useMedia();
+
+  const handleDelete = async () => {
+    if (await deleteProject()) {
+      setIsDeleteOpen(false);
+      navigate("welcome");
+    }
+  };
+
+  const saveStatus = lastError
+    ? `Could not save: ${lastError}`
+    : isSaving
+      ? "Saving…"
+      : isDirty
+        ? "Changes are not saved"
+        : "All changes saved";
 
   return (
     <div
@@ -42,17 +79,40 @@ export default function TitleBar() {
         >
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon" className="ml-6">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-6"
+                onClick={() => void openProject()}
+              >
                 <HugeiconsIcon icon={Folder02Icon} />
               </Button>
             </TooltipTrigger>
-            <TooltipContent align="start" alignOffset={5}>
+            <TooltipContent align="start" alignOffset={5} kbd="Ctrl" kbd1="O">
               <p>Open Project</p>
             </TooltipContent>
           </Tooltip>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => void openVideoDialog()}
+              >
+                <HugeiconsIcon icon={FileVideoIcon} />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent kbd="Ctrl" kbd1="I">
+              <p>Open Video</p>
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsDeleteOpen(true)}
+              >
                 <HugeiconsIcon icon={Delete02Icon} />
               </Button>
             </TooltipTrigger>
@@ -63,7 +123,12 @@ export default function TitleBar() {
           <div className="flex outline-0 border-0 w-px h-[calc(100%_-_1.5rem)] bg-foreground/20 grow-0 shrink-0"></div>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!canUndo}
+                onClick={undo}
+              >
                 <HugeiconsIcon icon={Undo03Icon} />
               </Button>
             </TooltipTrigger>
@@ -73,7 +138,12 @@ export default function TitleBar() {
           </Tooltip>
           <Tooltip>
             <TooltipTrigger asChild>
-              <Button variant="ghost" size="icon">
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!canRedo}
+                onClick={redo}
+              >
                 <HugeiconsIcon icon={Redo03Icon} />
               </Button>
             </TooltipTrigger>
@@ -83,21 +153,33 @@ export default function TitleBar() {
           </Tooltip>
           <div className="flex outline-0 border-0 w-px h-[calc(100%_-_1.5rem)] bg-foreground/20 grow-0 shrink-0"></div>
         </div>
-        <div className="flex-1 min-w-0 flex justify-between items-center px-2">
+        <div className="flex-1 min-w-0 flex justify-between items-center gap-1 px-2">
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
                 variant="ghost"
                 size="icon"
+                disabled={isSaving}
+                onClick={() => void saveProject()}
                 style={{ WebkitAppRegion: "no-drag" } as React.CSSProperties}
               >
-                <HugeiconsIcon icon={CloudLoadingIcon} />
+                <HugeiconsIcon
+                  icon={
+                    isDirty || lastError
+                      ? CloudLoadingIcon
+                      : CloudSavingDone02Icon
+                  }
+                />
               </Button>
             </TooltipTrigger>
-            <TooltipContent>
-              <p>Changes are not saved</p>
+            <TooltipContent kbd="Ctrl" kbd1="S">
+              <p>{saveStatus}</p>
             </TooltipContent>
           </Tooltip>
+          <span className="truncate text-xs text-muted-foreground select-none">
+            {projectName}
+            {isDirty ? " *" : ""}
+          </span>
         </div>
 
         {isMacintosh ? (
@@ -142,6 +224,12 @@ export default function TitleBar() {
           />
         )}
       </div>
+      <DeleteProjectDialog
+        projectName={isDeleteOpen ? projectName : null}
+        filePath={filePath}
+        onCancel={() => setIsDeleteOpen(false)}
+        onConfirm={handleDelete}
+      />
     </div>
   );
 }
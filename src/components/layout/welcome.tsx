@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import {
+  Alert02Icon,
+  Cancel01Icon,
+  Delete02Icon,
+  FileVideoIcon,
+  Folder02Icon,
+} from "@hugeicons/core-free-icons";
+import { isMacintosh } from "@/lib/platform";
+import { cn } from "@/lib/utils";
+import { useWindowState, useWindowControls } from "@/hooks/use-window-state";
+import { useHashRoute } from "@/hooks/use-hash-route";
+import { usePoster } from "@/hooks/use-poster";
+import { MacWindowControls, WindowsWindowControls } from "./controls";
+import DeleteProjectDialog from "./delete-project-dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useProject } from "@/context/project-context";
+import { useMedia } from "@/context/media-context";
+import type { RecentProject } from "@/types/project";
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat(undefined, {
+  numeric: "auto",
+});
+
+const TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60 * 1000],
+  ["month", 30 * 24 * 60 * 60 * 1000],
+  ["week", 7 * 24 * 60 * 60 * 1000],
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+function formatRelativeTime(timestamp: number) {
+  const elapsed = timestamp - Date.now();
+  for (const [unit, size] of TIME_UNITS) {
+    if (Math.abs(elapsed) >= size) {
+      return relativeTimeFormat.format(Math.round(elapsed / size), unit);
+    }
+  }
+  return "just now";
+}
+
+function RecentProjectCard({
+  project,
+  onOpen,
+  onDelete,
+  onForget,
+}: {
+  project: RecentProject;
+  onOpen: () => void;
+  onDelete: () => void;
+  onForget: () => void;
+}) {
+  const posterUrl = usePoster(project.exists ? project.mediaPath : null);
+
+  return (
+    <li
+      className={cn(
+        "group relative flex flex-col gap-2 rounded-lg border p-2",
+        project.exists
+          ? "cursor-pointer hover:bg-accent"
+          : "border-dashed opacity-70",
+      )}
+      title={project.filePath}
+      onClick={project.exists ? onOpen : undefined}
+    >
+      <div className="flex aspect-video items-center justify-center overflow-hidden rounded-md bg-muted">
+        {posterUrl ? (
+          <img
+            src={posterUrl}
+            alt=""
+            draggable={false}
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <HugeiconsIcon
+            icon={project.exists ? FileVideoIcon : Alert02Icon}
+            className="size-6 text-muted-foreground"
+          />
+        )}
+      </div>
+      <div className="flex min-w-0 flex-col gap-0.5 px-1">
+        <span className="truncate text-sm font-medium">{project.name}</span>
+        <span className="text-xs text-muted-foreground">
+          {project.exists
+            ? `Edited ${formatRelativeTime(project.modifiedAt)}`
+            : "File not found"}
+        </span>
+        <span className="truncate text-xs text-muted-foreground">
+          {project.filePath}
+        </span>
+      </div>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="secondary"
+            size="icon"
+            className="absolute top-3 right-3 size-8 opacity-0 group-hover:opacity-100"
+            onClick={(e) => {
+              e.stopPropagation();
+              if (project.exists) {
+                onDelete();
+              } else {
+                onForget();
+              }
+            }}
+          >
+            <HugeiconsIcon
+              icon={project.exists ? Delete02Icon : Cancel01Icon}
+              className="size-4"
+            />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>{project.exists ? "Delete Project" : "Remove from list"}</p>
+        </TooltipContent>
+      </Tooltip>
+    </li>
+  );
+}
+
+export default function WelcomeScreen() {
+  const isMaximized = useWindowState();
+  const windowControls = useWindowControls();
+  const { navigate } = useHashRoute();
+  const {
+    filePath: currentFilePath,
+    lastError,
+    openProject,
+    openProjectFile,
+    closeProject,
+  } = useProject();
+  const { openVideo } = useMedia();
+
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  const [pendingDelete, setPendingDelete] = useState<RecentProject | null>(
+    null,
+  );
+
+  const refresh = useCallback(() => {
+    window.projectAPI
+      ?.getRecentProjects()
+      .then(setRecentProjects)
+      .catch((error) => {
+        console.error("Failed to list recent projects", error);
+      });
+  }, []);
+
+  // Files may have been moved while the app was in the background
+  useEffect(() => {
+    refresh();
+    window.addEventListener("focus", refresh);
+    return () => window.removeEventListener("focus", refresh);
+  }, [refresh]);
+
+  const handleNewFromRecording = async () => {
+    const filePath = await window.mediaAPI?.openVideoDialog();
+    if (!filePath) return;
+
+    closeProject();
+    openVideo(filePath);
+    navigate("editor");
+  };
+
+  const handleOpen = async () => {
+    if (await openProject()) {
+      navigate("editor");
+    }
+  };
+
+  const handleOpenRecent = async (project: RecentProject) => {
+    if (await openProjectFile(project.filePath)) {
+      navigate("editor");
+    } else {
+      refresh();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await window.projectAPI?.deleteProject(pendingDelete.filePath);
+      if (pendingDelete.filePath === currentFilePath) {
+        closeProject();
+      }
+      setPendingDelete(null);
+    } catch (error) {
+      console.error(`Failed to delete ${pendingDelete.filePath}`, error);
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleForget = (project: RecentProject) => {
+    window.projectAPI
+      ?.removeRecentProject(project.filePath)
+      .catch((error) => {
+        console.error("Failed to update recent projects", error);
+      })
+      .finally(refresh);
+  };
+
+  return (
+    <div className="flex h-dvh w-dvw flex-col overflow-hidden bg-background">
+      <div
+        style={{ WebkitAppRegion: "drag" } as React.CSSProperties}
+        className="flex h-[var(--titlebar-height)] w-full shrink-0 items-center justify-between select-none"
+      >
+        {isMacintosh ? (
+          <MacWindowControls
+            isMaximized={isMaximized}
+            onMinimize={windowControls.minimize}
+            onMaximize={windowControls.maximize}
+            onClose={windowControls.close}
+          />
+        ) : (
+          <span />
+        )}
+        {isMacintosh ? null : (
+          <WindowsWindowControls
+            isMaximized={isMaximized}
+            onMinimize={windowControls.minimize}
+            onMaximize={windowControls.maximize}
+            onClose={windowControls.close}
+          />
+        )}
+      </div>
+      <div className="mx-auto flex min-h-0 w-full max-w-4xl flex-1 flex-col gap-8 px-8 pb-8">
+        <header className="space-y-4 pt-6">
+          <div className="space-y-1">
+            <h1 className="text-2xl font-semibold">OpenScreen</h1>
+            <p className="text-sm text-muted-foreground">
+              Start from a recording or pick up where you left off.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => void handleNewFromRecording()}>
+              <HugeiconsIcon icon={FileVideoIcon} />
+              New from recording
+            </Button>
+            <Button variant="secondary" onClick={() => void handleOpen()}>
+              <HugeiconsIcon icon={Folder02Icon} />
+              Open…
+            </Button>
+          </div>
+          {lastError && <p className="text-xs text-destructive">{lastError}</p>}
+        </header>
+        <section className="flex min-h-0 flex-1 flex-col gap-3">
+          <h3 className="text-sm font-semibold">Recent Projects</h3>
+          {recentProjects.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Projects you save or open show up here.
+            </p>
+          ) : (
+            <ScrollArea className="min-h-0 flex-1">
+              <ul className="grid grid-cols-3 gap-3">
+                {recentProjects.map((project) => (
+                  <RecentProjectCard
+                    key={project.filePath}
+                    project={project}
+                    onOpen={() => void handleOpenRecent(project)}
+                    onDelete={() => setPendingDelete(project)}
+                    onForget={() => handleForget(project)}
+                  />
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </section>
+      </div>
+      <DeleteProjectDialog
+        projectName={pendingDelete?.name ?? null}
+        filePath={pendingDelete?.filePath ?? null}
+        onCancel={() => setPendingDelete(null)}
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+}
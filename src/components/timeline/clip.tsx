@@ -1,7 +1,15 @@
-import type { TimelineClip, ResizeMode } from "./types";
-import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { TimelineClip, ResizeMode, SpeedKeyframe } from "./types";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Link01Icon } from "@hugeicons/core-free-icons";
 import { cn } from "@/lib/utils";
+import { useMedia } from "@/context/media-context";
 import { TIMELINE_START_LEFT } from "./constants";
+import { getClipMediaTime } from "@/lib/timeline";
+import { getSourceTimeAfter, getTimelineSpan } from "@/lib/speed-ramp";
+import Filmstrip from "./filmstrip";
+import Waveform from "./waveform";
+import SpeedLane from "./speed-lane";
 
 const CLIP_COLORS: Record<string, string> = {
   video: "#f59e0b",
@@ -31,14 +39,18 @@ export type ResizeBehavior = "resize" | "trim";
 export interface ClipProps {
   clip: TimelineClip;
   zoom: number;
+  /** `unlinked` when Alt was held: linked clips stay where they are */
   onUpdate: (
     id: string,
     newStart: number,
     newDuration?: number,
     trimStart?: number,
-    trimEnd?: number
+    trimEnd?: number,
+    unlinked?: boolean
   ) => void;
   isSelected: boolean;
+  /** Linked to clips on other tracks, which follow its edits */
+  isLinked?: boolean;
   onSelect: (clipId: string, multiSelect?: boolean) => void;
   isLocked: boolean;
   snapEnabled: boolean;
@@ -49,6 +61,14 @@ export interface ClipProps {
   
   /** Whether the clip can be moved/dragged to another position (default: true) */
   isMovable?: boolean;
+
+  /**
+   * Reorder instead of moving freely: the clip follows the pointer,
+   * snapping as a move does, `onReorderDrag` hears where it is and dropping
+   * it hands it to `onReorder` to be put between its neighbours
+   */
+  onReorder?: (id: string, start: number, unlinked?: boolean) => void;
+  onReorderDrag?: (id: string, start: number) => void;
   
   /** Whether the clip can be extended from either side (default: true) */
   canExtend?: boolean;
@@ -92,13 +112,17 @@ export interface ClipProps {
   /** Callback when clip is clicked in scissor mode - passes clipId and the exact split time */
   onScissorClick?: (clipId: string, splitTime: number) => void;
   
+  /** Callback when the clip's speed ramp is edited */
+  onSpeedKeyframesChange?: (id: string, keyframes: SpeedKeyframe[]) => void;
+
   /** Callback for real-time resizing (for rolling edits) */
   onResize?: (
     id: string,
     newStart: number,
     newDuration: number,
     trimStart: number,
-    trimEnd: number
+    trimEnd: number,
+    unlinked?: boolean
   ) => void;
 }
 
@@ -107,6 +131,7 @@ export default function Clip({
   zoom,
   onUpdate,
   isSelected,
+  isLinked = false,
   onSelect,
   isLocked,
   snapEnabled,
@@ -114,22 +139,32 @@ export default function Clip({
   onContextMenu,
   // New options with defaults
   isMovable = true,
+  onReorder,
+  onReorderDrag,
   canExtend = true,
   canExtendFromStart,
   canExtendFromEnd,
   canShrink = true,
   canShrinkFromStart,
   canShrinkFromEnd,
-  shrinkBehavior = "resize",
-  extendBehavior = "resize",
+  shrinkBehavior: shrinkBehaviorProp = "resize",
+  extendBehavior: extendBehaviorProp = "resize",
   minDuration = 0.1,
   maxDuration,
   // Scissor mode
   scissorMode = false,
   onScissorClick,
   onResize,
+  onSpeedKeyframesChange,
 }: ClipProps) {
+  // A freeze frame has no source span to trim into, it just resizes
+  const isFreezeFrame = clip.freezeTime !== undefined;
+  const shrinkBehavior = isFreezeFrame ? "resize" : shrinkBehaviorProp;
+  const extendBehavior = isFreezeFrame ? "resize" : extendBehaviorProp;
+
   const [isDragging, setIsDragging] = useState(false);
+  // Alt held when the drag or trim began: this clip moves without its links
+  const [isUnlinked, setIsUnlinked] = useState(false);
   const [resizeMode, setResizeMode] = useState<ResizeMode>(null);
   const [dragStartX, setDragStartX] = useState(0);
   const [initialStart, setInitialStart] = useState(0);
@@ -147,7 +182,7 @@ export default function Clip({
   const [scissorHoverX, setScissorHoverX] = useState<number | null>(null);
   const [scissorTime, setScissorTime] = useState<number | null>(null);
 
-  const SNAP_THRESHOLD = 0.2; // seconds
+  const SNAP_THRESHOLD = 8; // pixels
   const HANDLE_WIDTH = 8; // pixels
 
   // Computed extend/shrink permissions
@@ -160,8 +195,15 @@ export default function Clip({
   const showStartHandle = canExtendStart || canShrinkStart;
   const showEndHandle = canExtendEnd || canShrinkEnd;
 
+  // Trims are in source seconds, a sped up (or ramped) clip covers more or
+  // fewer of them per timeline second
+  const speed = clip.speed ?? 1;
+  const sourceDuration =
+    clip.originalDuration ??
+    getClipMediaTime(clip, clip.start + clip.duration) + (clip.trimEnd ?? 0);
+
   // Calculate max extendable duration based on original content
-  const originalDuration = clip.originalDuration ?? clip.duration;
+  const originalDuration = getTimelineSpan(clip, 0, sourceDuration);
   const effectiveMaxDuration = maxDuration ?? (extendBehavior === "trim" ? originalDuration : Infinity);
 
   useEffect(() => {
@@ -174,23 +216,48 @@ export default function Clip({
     setCurrentTrimEnd(clip.trimEnd ?? 0);
   }, [clip.start, clip.duration, clip.trimStart, clip.trimEnd, isDragging, resizeMode]);
 
-  const waveform = useMemo(() => clip.waveform?.slice(0, 80) ?? [], [clip.waveform]);
   const displayColor = clip.color ?? CLIP_COLORS[clip.type] ?? "#3b82f6";
-  const speed = clip.speed ?? 1;
-  const metadataText = clip.metadata ?? `${formatSeconds(clip.duration)} · ${speed.toFixed(1)}x`;
+  const { getAsset, missingPaths } = useMedia();
+  const asset = getAsset(clip.mediaId);
+  const isMissing = !asset || missingPaths.has(asset.path);
+  const isRamped = (clip.speedKeyframes?.length ?? 0) > 0;
+  const metadataText = clip.metadata ?? `${formatSeconds(clip.duration)} · ${isRamped ? "ramp" : `${Number(speed.toFixed(2))}x`}`;
+
+  // Filmstrip and waveform space the source evenly, a ramp at its average
+  const averageSpeed =
+    clip.duration > 0
+      ? (getClipMediaTime(clip, clip.start + clip.duration) - (clip.trimStart ?? 0)) / clip.duration
+      : speed;
+
+  // Snap points as they were when the drag or trim began, without the clip's
+  // own edges: those move along with a live trim and would hold it in place
+  const gestureSnapPointsRef = useRef<number[]>([]);
+  const beginSnapGesture = () => {
+    const end = currentStart + currentDuration;
+    gestureSnapPointsRef.current = snapPoints.filter(
+      (point) => Math.abs(point - currentStart) > 1e-6 && Math.abs(point - end) > 1e-6,
+    );
+  };
 
+  // Nearest point within a few pixels at the current zoom. Holding Ctrl/Cmd
+  // (`bypass`) drags freely.
   const findSnapPoint = useCallback(
-    (value: number): number => {
-      if (!snapEnabled) return value;
-
-      for (const point of snapPoints) {
-        if (Math.abs(value - point) < SNAP_THRESHOLD) {
-          return point;
+    (value: number, bypass = false): number => {
+      if (!snapEnabled || bypass) return value;
+
+      const threshold = SNAP_THRESHOLD / zoom;
+      let snapped = value;
+      let closest = threshold;
+      for (const point of gestureSnapPointsRef.current) {
+        const distance = Math.abs(value - point);
+        if (distance < closest) {
+          snapped = point;
+          closest = distance;
         }
       }
-      return value;
+      return snapped;
     },
-    [snapEnabled, snapPoints]
+    [snapEnabled, zoom]
   );
 
   // Handle mouse move for scissor mode preview
@@ -245,6 +312,8 @@ export default function Clip({
     // Check if clicking on start handle
     if (relativeX < HANDLE_WIDTH && showStartHandle) {
       setResizeMode("start");
+      setIsUnlinked(e.altKey);
+      beginSnapGesture();
       setDragStartX(e.clientX);
       setInitialStart(currentStart);
       setInitialDuration(currentDuration);
@@ -256,6 +325,8 @@ export default function Clip({
     // Check if clicking on end handle
     if (relativeX > rect.width - HANDLE_WIDTH && showEndHandle) {
       setResizeMode("end");
+      setIsUnlinked(e.altKey);
+      beginSnapGesture();
       setDragStartX(e.clientX);
       setInitialStart(currentStart);
       setInitialDuration(currentDuration);
@@ -268,6 +339,8 @@ export default function Clip({
     if (isMovable) {
       onSelect(clip.id, e.shiftKey);
       setIsDragging(true);
+      setIsUnlinked(e.altKey);
+      beginSnapGesture();
       setDragStartX(e.clientX);
       setInitialStart(currentStart);
     } else {
@@ -281,8 +354,10 @@ export default function Clip({
       if (isLocked) return;
 
       if (resizeMode === "start") {
-        const deltaX = e.clientX - dragStartX;
-        const deltaSeconds = deltaX / zoom;
+        // The edge snaps, whichever way it trims or resizes
+        const deltaSeconds =
+          findSnapPoint(initialStart + (e.clientX - dragStartX) / zoom, e.ctrlKey || e.metaKey) -
+          initialStart;
         
         // Determine if we're extending (negative delta) or shrinking (positive delta)
         const isExtending = deltaSeconds < 0;
@@ -301,22 +376,21 @@ export default function Clip({
           // Trim mode: Start moves right, Duration decreases, TrimStart increases
           newStart = initialStart + deltaSeconds;
           newDuration = initialDuration - deltaSeconds;
-          newTrimStart = initialTrimStart + deltaSeconds;
           
           // Limit trim to not exceed visible duration
           if (newDuration < minDuration) {
             const diff = minDuration - newDuration;
             newStart -= diff;
             newDuration = minDuration;
-            newTrimStart -= diff;
           }
+          newTrimStart = getSourceTimeAfter(clip, initialTrimStart, newStart - initialStart);
         } else if (isExtending && extendBehavior === "trim") {
           // Extend by revealing more content (reduce trimStart)
-          const maxExtend = initialTrimStart; // Can only extend by what was trimmed
+          const maxExtend = getTimelineSpan(clip, 0, initialTrimStart); // Can only extend by what was trimmed
           const actualExtend = Math.min(-deltaSeconds, maxExtend);
           newStart = initialStart - actualExtend;
           newDuration = initialDuration + actualExtend;
-          newTrimStart = initialTrimStart - actualExtend;
+          newTrimStart = Math.max(0, getSourceTimeAfter(clip, initialTrimStart, -actualExtend));
         } else {
           // Standard resize behavior
           // Prevent going below minimum duration
@@ -336,8 +410,6 @@ export default function Clip({
             newDuration = newDuration + newStart;
             newStart = 0;
           }
-          
-          newStart = findSnapPoint(newStart);
         }
 
         setCurrentStart(newStart);
@@ -345,12 +417,14 @@ export default function Clip({
         setCurrentTrimStart(newTrimStart);
         
         if (onResize) {
-          onResize(clip.id, newStart, newDuration, newTrimStart, currentTrimEnd);
+          onResize(clip.id, newStart, newDuration, newTrimStart, currentTrimEnd, isUnlinked);
         }
         
       } else if (resizeMode === "end") {
-        const deltaX = e.clientX - dragStartX;
-        const deltaSeconds = deltaX / zoom;
+        const initialEnd = initialStart + initialDuration;
+        const deltaSeconds =
+          findSnapPoint(initialEnd + (e.clientX - dragStartX) / zoom, e.ctrlKey || e.metaKey) -
+          initialEnd;
         
         // Determine if we're extending (positive delta) or shrinking (negative delta)
         const isExtending = deltaSeconds > 0;
@@ -362,6 +436,7 @@ export default function Clip({
 
         let newDuration = initialDuration + deltaSeconds;
         let newTrimEnd = initialTrimEnd;
+        const initialSourceEnd = sourceDuration - initialTrimEnd;
 
         // Apply behavior based on shrink/extend mode
         if (isShrinking && shrinkBehavior === "trim") {
@@ -369,19 +444,17 @@ export default function Clip({
           // deltaSeconds is negative here
           const shrinkAmount = -deltaSeconds;
           newDuration = initialDuration - shrinkAmount;
-          newTrimEnd = initialTrimEnd + shrinkAmount;
           
           if (newDuration < minDuration) {
-            const diff = minDuration - newDuration;
             newDuration = minDuration;
-            newTrimEnd -= diff;
           }
+          newTrimEnd = sourceDuration - getSourceTimeAfter(clip, initialSourceEnd, newDuration - initialDuration);
         } else if (isExtending && extendBehavior === "trim") {
           // Extend by revealing more content (reduce trimEnd)
-          const maxExtend = initialTrimEnd; // Can only extend by what was trimmed
+          const maxExtend = getTimelineSpan(clip, initialSourceEnd, sourceDuration); // Can only extend by what was trimmed
           const actualExtend = Math.min(deltaSeconds, maxExtend);
           newDuration = initialDuration + actualExtend;
-          newTrimEnd = initialTrimEnd - actualExtend;
+          newTrimEnd = Math.max(0, sourceDuration - getSourceTimeAfter(clip, initialSourceEnd, actualExtend));
         } else {
           // Standard resize behavior
           // Prevent going below minimum duration
@@ -399,14 +472,18 @@ export default function Clip({
         setCurrentTrimEnd(newTrimEnd);
         
         if (onResize) {
-          onResize(clip.id, currentStart, newDuration, currentTrimStart, newTrimEnd);
+          onResize(clip.id, currentStart, newDuration, currentTrimStart, newTrimEnd, isUnlinked);
         }
         
       } else if (isDragging && isMovable) {
         const deltaX = e.clientX - dragStartX;
         const deltaSeconds = deltaX / zoom;
-        const newStart = Math.max(0, findSnapPoint(initialStart + deltaSeconds));
+        const newStart = Math.max(
+          0,
+          findSnapPoint(initialStart + deltaSeconds, e.ctrlKey || e.metaKey),
+        );
         setCurrentStart(newStart);
+        onReorderDrag?.(clip.id, newStart);
       }
     },
     [
@@ -429,18 +506,27 @@ export default function Clip({
       extendBehavior,
       minDuration,
       effectiveMaxDuration,
+      clip,
+      sourceDuration,
+      onReorder,
+      onReorderDrag,
+      isUnlinked,
     ]
   );
 
   const handleMouseUp = useCallback(() => {
     if (isDragging) {
       setIsDragging(false);
-      onUpdate(clip.id, currentStart, currentDuration, currentTrimStart, currentTrimEnd);
+      if (onReorder) {
+        onReorder(clip.id, currentStart, isUnlinked);
+      } else {
+        onUpdate(clip.id, currentStart, currentDuration, currentTrimStart, currentTrimEnd, isUnlinked);
+      }
     } else if (resizeMode) {
       setResizeMode(null);
-      onUpdate(clip.id, currentStart, currentDuration, currentTrimStart, currentTrimEnd);
+      onUpdate(clip.id, currentStart, currentDuration, currentTrimStart, currentTrimEnd, isUnlinked);
     }
-  }, [isDragging, resizeMode, onUpdate, clip.id, currentStart, currentDuration, currentTrimStart, currentTrimEnd]);
+  }, [isDragging, resizeMode, onUpdate, onReorder, isUnlinked, clip.id, currentStart, currentDuration, currentTrimStart, currentTrimEnd]);
 
   useEffect(() => {
     if (isDragging || resizeMode) {
@@ -476,8 +562,10 @@ export default function Clip({
       className={cn(
         "group absolute flex h-[calc(100%-8px)] select-none items-center justify-center overflow-hidden rounded-md border border-white/10 px-2 sm:px-3 text-xs   transition bg-primary-active/20",
         (isDragging || resizeMode) && !isLocked && "ring-2 ring-primary",
+        isDragging && onReorder && "z-30 opacity-80 shadow-lg",
         isSelected && "ring-2 ring-white",
         isLocked && "opacity-70",
+        isMissing && "border-destructive bg-destructive/20",
         getCursorStyle()
       )}
       style={{
@@ -487,6 +575,7 @@ export default function Clip({
         top: 4,
         
       }}
+      title={isMissing ? `Media not found: ${asset?.path ?? clip.name}` : undefined}
       onMouseDown={handleMouseDown}
       onMouseMove={handleScissorMouseMove}
       onMouseEnter={() => setIsHovered(true)}
@@ -522,6 +611,16 @@ export default function Clip({
         </>
       )}
       
+      {clip.type === "video" && (
+        <Filmstrip
+          filePath={asset?.path ?? null}
+          trimStart={currentTrimStart}
+          duration={currentDuration}
+          speed={isFreezeFrame ? 1 : averageSpeed}
+          zoom={zoom}
+          freezeTime={clip.freezeTime}
+        />
+      )}
       <div
         className="absolute inset-0 opacity-30"
         style={{
@@ -530,19 +629,19 @@ export default function Clip({
           backgroundSize: `${Math.max(zoom, 12)}px 100%`,
         }}
       />
-      {waveform.length > 0 && (
-        <div className="pointer-events-none absolute inset-x-1 sm:inset-x-2 inset-y-2 sm:inset-y-3 flex items-end gap-[1px] opacity-60">
-          {waveform.map((value, index) => (
-            <span
-              // biome-ignore lint/suspicious/noArrayIndexKey: waveform samples no unique identifier
-              key={index}
-              className="block w-[1px] sm:w-[1.5px] rounded-full"
-              style={{ height: `${Math.max(6, value * 20)}px` }}
-            />
-          ))}
-        </div>
+      {(clip.type === "video" || clip.type === "audio") && !isFreezeFrame && (
+        <Waveform
+          filePath={asset?.path ?? null}
+          trimStart={currentTrimStart}
+          duration={currentDuration}
+          speed={averageSpeed}
+          zoom={zoom}
+        />
       )}
       <div className="relative z-10 flex items-center gap-1.5 sm:gap-2">
+        {isLinked && (
+          <HugeiconsIcon icon={Link01Icon} className="size-3 shrink-0" aria-label="Linked" />
+        )}
         <div className="flex flex-col text-center min-w-0">
           <span className=" leading-tight truncate">
             {clip.name}
@@ -609,6 +708,16 @@ export default function Clip({
           )}
         </>
       )}
+      {/* Speed ramp lane */}
+      {onSpeedKeyframesChange && clip.type !== "image" && !isFreezeFrame && (isSelected || isRamped) && (
+        <SpeedLane
+          clip={clip}
+          zoom={zoom}
+          width={displayWidth}
+          isLocked={isLocked}
+          onChange={(keyframes) => onSpeedKeyframesChange(clip.id, keyframes)}
+        />
+      )}
       {/* Start and End Time Display */}
       <div className="absolute top-1 left-4 text-[9px] text-primary pointer-events-none z-10">
         {formatTimeWithMs(currentStart)}
@@ -1,23 +1,59 @@
 import * as DropdownMenuPrimitive from "@radix-ui/react-dropdown-menu"
-import { Delete01Icon, Copy01Icon, Scissor01Icon } from "@hugeicons/core-free-icons"
+import {
+  Delete01Icon,
+  Copy01Icon,
+  DashboardSpeed01Icon,
+  Copy02Icon,
+  PaintBrush01Icon,
+  Link01Icon,
+  Scissor01Icon,
+  SnowIcon,
+  Unlink01Icon,
+  VolumeHighIcon,
+} from "@hugeicons/core-free-icons"
 import { HugeiconsIcon } from "@hugeicons/react"
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
 } from "@/components/ui/dropdown-menu"
 
+const SPEED_PRESETS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 4, 8, 16]
+const FREEZE_DURATIONS = [1, 2, 3, 5, 10]
+const VOLUME_PRESETS = [0, 0.25, 0.5, 0.75, 1]
+
 interface ContextMenuProps {
   x: number
   y: number
   onClose: () => void
   onDuplicate: () => void
+  onCopy: () => void
+  /** Speed, volume, mute and color of the copied clip onto this one */
+  onPasteAttributes: () => void
   onDelete: () => void
   onSplit: () => void
+  speed: number
+  onSpeedChange: (speed: number) => void
+  volume: number
+  onVolumeChange: (volume: number) => void
+  onFreezeFrame: (duration: number) => void
+  /** Link the clip with the other selected clips */
+  onLink: () => void
+  onUnlink: () => void
   canDuplicate?: boolean
   canDelete?: boolean
   canSplit?: boolean
+  canChangeSpeed?: boolean
+  canChangeVolume?: boolean
+  canFreezeFrame?: boolean
+  canLink?: boolean
+  isLinked?: boolean
 }
 
 export default function ClipContextMenu({
@@ -25,11 +61,25 @@ export default function ClipContextMenu({
   y,
   onClose,
   onDuplicate,
+  onCopy,
+  onPasteAttributes,
   onDelete,
   onSplit,
+  speed,
+  onSpeedChange,
+  volume,
+  onVolumeChange,
+  onFreezeFrame,
+  onLink,
+  onUnlink,
   canDuplicate = false,
   canDelete = false,
   canSplit = false,
+  canChangeSpeed = true,
+  canChangeVolume = true,
+  canFreezeFrame = false,
+  canLink = false,
+  isLinked = false,
 }: ContextMenuProps) {
   return (
     <DropdownMenu open onOpenChange={(open) => !open && onClose()}>
@@ -55,6 +105,26 @@ export default function ClipContextMenu({
           <HugeiconsIcon icon={Copy01Icon} className="size-4" />
           <span>Duplicate</span>
         </DropdownMenuItem>
+
+        <DropdownMenuItem
+          onClick={() => {
+            onCopy()
+            onClose()
+          }}
+        >
+          <HugeiconsIcon icon={Copy02Icon} className="size-4" />
+          <span>Copy</span>
+        </DropdownMenuItem>
+
+        <DropdownMenuItem
+          onClick={() => {
+            onPasteAttributes()
+            onClose()
+          }}
+        >
+          <HugeiconsIcon icon={PaintBrush01Icon} className="size-4" />
+          <span>Paste Attributes</span>
+        </DropdownMenuItem>
         
         <DropdownMenuItem
           disabled={!canSplit}
@@ -66,6 +136,93 @@ export default function ClipContextMenu({
           <HugeiconsIcon icon={Scissor01Icon} className="size-4" />
           <span>Split at Playhead</span>
         </DropdownMenuItem>
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={!canChangeSpeed}>
+            <HugeiconsIcon icon={DashboardSpeed01Icon} className="size-4" />
+            <span>Speed</span>
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuRadioGroup
+              value={String(speed)}
+              onValueChange={(value) => {
+                onSpeedChange(Number(value))
+                onClose()
+              }}
+            >
+              {SPEED_PRESETS.map((preset) => (
+                <DropdownMenuRadioItem key={preset} value={String(preset)}>
+                  {preset}x
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={!canChangeVolume}>
+            <HugeiconsIcon icon={VolumeHighIcon} className="size-4" />
+            <span>Volume</span>
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuRadioGroup
+              value={String(volume)}
+              onValueChange={(value) => {
+                onVolumeChange(Number(value))
+                onClose()
+              }}
+            >
+              {VOLUME_PRESETS.map((preset) => (
+                <DropdownMenuRadioItem key={preset} value={String(preset)}>
+                  {preset * 100}%
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={!canFreezeFrame}>
+            <HugeiconsIcon icon={SnowIcon} className="size-4" />
+            <span>Freeze Frame at Playhead</span>
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {FREEZE_DURATIONS.map((duration) => (
+              <DropdownMenuItem
+                key={duration}
+                onClick={() => {
+                  onFreezeFrame(duration)
+                  onClose()
+                }}
+              >
+                {duration}s
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        {isLinked ? (
+          <DropdownMenuItem
+            onClick={() => {
+              onUnlink()
+              onClose()
+            }}
+          >
+            <HugeiconsIcon icon={Unlink01Icon} className="size-4" />
+            <span>Unlink</span>
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem
+            disabled={!canLink}
+            onClick={() => {
+              onLink()
+              onClose()
+            }}
+          >
+            <HugeiconsIcon icon={Link01Icon} className="size-4" />
+            <span>Link Selected Clips</span>
+          </DropdownMenuItem>
+        )}
         
         <DropdownMenuSeparator />
         
@@ -0,0 +1,83 @@
+import { useFilmstrip } from "@/hooks/use-filmstrip";
+
+interface FilmstripProps {
+  /** Asset the clip is cut from */
+  filePath: string | null;
+  /** Source seconds cut off the start of the clip */
+  trimStart: number;
+  /** Timeline seconds the clip occupies */
+  duration: number;
+  speed: number;
+  zoom: number;
+  /** Source time of a freeze frame, repeated along the whole clip */
+  freezeTime?: number;
+}
+
+/**
+ * Source frames behind a video clip. Each thumbnail covers its slot of
+ * source time, so the strip slides with `trimStart` and ends at `trimEnd`.
+ */
+export default function Filmstrip({
+  filePath,
+  trimStart,
+  duration,
+  speed,
+  zoom,
+  freezeTime,
+}: FilmstripProps) {
+  const pixelsPerSourceSecond = zoom / speed;
+  const filmstrip = useFilmstrip(filePath, pixelsPerSourceSecond);
+
+  if (!filmstrip || filmstrip.frameUrls.length === 0) {
+    return null;
+  }
+
+  const { interval, frameUrls } = filmstrip;
+  const sourceEnd = trimStart + duration * speed;
+  const first = Math.max(0, Math.floor(trimStart / interval));
+  const last = Math.min(
+    frameUrls.length - 1,
+    Math.ceil(sourceEnd / interval) - 1,
+  );
+  const tileWidth = interval * pixelsPerSourceSecond;
+
+  if (freezeTime !== undefined) {
+    const frameUrl =
+      frameUrls[
+        Math.min(frameUrls.length - 1, Math.floor(freezeTime / interval))
+      ];
+    return (
+      <div
+        className="pointer-events-none absolute inset-0 opacity-40"
+        style={{
+          backgroundImage: `url("${frameUrl}")`,
+          backgroundSize: `${tileWidth}px 100%`,
+        }}
+      />
+    );
+  }
+
+  const tiles = [];
+  for (let index = first; index <= last; index++) {
+    tiles.push(
+      <img
+        key={index}
+        src={frameUrls[index]}
+        alt=""
+        loading="lazy"
+        draggable={false}
+        className="absolute inset-y-0 h-full object-cover"
+        style={{
+          left: (index * interval - trimStart) * pixelsPerSourceSecond,
+          width: tileWidth,
+        }}
+      />,
+    );
+  }
+
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden opacity-40">
+      {tiles}
+    </div>
+  );
+}
@@ -1,16 +1,59 @@
 import { useState, useRef, useMemo, useEffect, useCallback } from "react";
-import type { TimelineLayer, TimelineClip } from "./types";
+import type {
+  TimelineLayer,
+  TimelineClip,
+  TimelineMarker,
+  TimelineTrack,
+  TimelineTrackKind,
+  SpeedKeyframe,
+} from "./types";
 import Ruler from "./ruler";
+import Markers from "./markers";
 import Track from "./track";
+import TrackHeader, { AddTrackMenu } from "./track-header";
 import Playhead from "./playhead";
 import HoverPlayhead from "./hover-playhead";
 import ClipContextMenu from "./context-menu";
+import { SilenceMenu } from "./silence-menu";
 import {
   usePlayback,
   TIMELINE_ZOOM_MIN,
   TIMELINE_ZOOM_MAX,
 } from "@/context/playback-context";
+import { useMedia } from "@/context/media-context";
+import { useHistory } from "@/context/history-context";
 import {
+  DEFAULT_IMAGE_DURATION,
+  MAIN_MEDIA_ID,
+  MEDIA_ASSET_DRAG_TYPE,
+} from "@/lib/media";
+import { parseClipboard, serializeClipboard } from "@/lib/clipboard";
+import {
+  DEFAULT_SILENCE_SETTINGS,
+  findSilences,
+  type SilenceSettings,
+  type TimeRange,
+} from "@/lib/silence";
+import type { WaveformLevel } from "@/lib/waveform";
+import { requestWaveform } from "@/hooks/use-waveform";
+import {
+  DEFAULT_TRACK_ID,
+  canPlaceOnTrack,
+  copyClipSpeed,
+  createFreezeFrameClip,
+  createMarker,
+  createTrack,
+  isTrackAudible,
+  isVisualTrack,
+  getClipMediaTime,
+  getClipVolume,
+  pasteClipAttributes,
+  setClipSpeed,
+  setClipSpeedKeyframes,
+} from "@/lib/timeline";
+import { getSourceTimeAfter, getTimelineSpan } from "@/lib/speed-ramp";
+import {
+  HEADER_WIDTH,
   RULER_HEIGHT,
   TIMELINE_MIN_DURATION,
   TIMELINE_PADDING,
@@ -19,15 +62,17 @@ import {
 import { cn } from "@/lib/utils";
 
 // Generate initial clips from video element
-const createInitialClips = (videoElement: HTMLVideoElement | null, duration: number): TimelineClip[] => {
+const createInitialClips = (videoElement: HTMLVideoElement | null, duration: number, name: string, trackId: string): TimelineClip[] => {
   if (!videoElement || duration <= 0) return [];
   
   return [{
     id: "main-video-1",
     start: 0,
     duration: duration,
-    name: "output.mp4",
+    name,
     type: "video",
+    mediaId: MAIN_MEDIA_ID,
+    trackId,
     color: "#fbbf24",
     metadata: "Main Video",
     originalDuration: duration,
@@ -36,50 +81,429 @@ const createInitialClips = (videoElement: HTMLVideoElement | null, duration: num
   }];
 };
 
+// Validate split time is within clip bounds (with some margin)
+const canSplitAt = (clip: TimelineClip, splitTime: number) =>
+  splitTime > clip.start + 0.1 && splitTime < clip.start + clip.duration - 0.1;
+
+// The two halves of `clip` cut at `splitTime`, or the clip itself if the cut
+// is too close to either end
+const splitClip = (clip: TimelineClip, splitTime: number): TimelineClip[] => {
+  if (!canSplitAt(clip, splitTime)) return [clip];
+
+  const clipStart = clip.start;
+  const clipEnd = clip.start + clip.duration;
+
+  // Calculate the original video time offset for each new clip
+  const originalTrimStart = clip.trimStart ?? 0;
+  const relativeTimeInClip = splitTime - clipStart;
+  const sourceOffset = getClipMediaTime(clip, splitTime) - originalTrimStart;
+  const sourceDuration =
+    clip.originalDuration ?? getClipMediaTime(clip, clipEnd) + (clip.trimEnd ?? 0);
+
+  // First clip: from original start to split point
+  const clip1: TimelineClip = {
+    ...clip,
+    id: `clip-${crypto.randomUUID()}`,
+    start: clipStart,
+    duration: relativeTimeInClip,
+    trimStart: originalTrimStart,
+    trimEnd: sourceDuration - originalTrimStart - sourceOffset,
+  };
+
+  // Second clip: from split point to original end
+  const clip2: TimelineClip = {
+    ...clip,
+    id: `clip-${crypto.randomUUID()}`,
+    start: splitTime,
+    duration: clipEnd - splitTime,
+    trimStart: originalTrimStart + sourceOffset,
+    trimEnd: clip.trimEnd ?? 0,
+  };
+
+  return [clip1, clip2];
+};
+
+// Shortest piece of a clip worth keeping when another one is laid over it
+const MIN_CLIP_REMAINDER = 0.01;
+
+// The part of `clip` between `from` and `to`, or null if next to nothing is
+// left of it
+const cropClip = (clip: TimelineClip, from: number, to: number): TimelineClip | null => {
+  const clipEnd = clip.start + clip.duration;
+  const start = Math.max(clip.start, from);
+  const end = Math.min(clipEnd, to);
+  if (end - start < MIN_CLIP_REMAINDER) return null;
+  // A still shows the same frame wherever it is cut
+  if (clip.freezeTime !== undefined) return { ...clip, start, duration: end - start };
+
+  const trimStart = clip.trimStart ?? 0;
+  const sourceEnd = getClipMediaTime(clip, clipEnd);
+  return {
+    ...clip,
+    start,
+    duration: end - start,
+    trimStart: getSourceTimeAfter(clip, trimStart, start - clip.start),
+    trimEnd: (clip.trimEnd ?? 0) + sourceEnd - getSourceTimeAfter(clip, trimStart, end - clip.start),
+  };
+};
+
+// Overwrite editing: clips stay where they are and each of `editedIds`
+// replaces what it covers of the others, which keep only what sticks out
+const overwriteClips = (trackClips: TimelineClip[], editedIds: Set<string>): TimelineClip[] => {
+  const edited = trackClips.filter((clip) => editedIds.has(clip.id));
+
+  const others = edited.reduce(
+    (remaining, cover) =>
+      remaining.flatMap((clip) => {
+        const coverEnd = cover.start + cover.duration;
+        if (clip.start >= coverEnd || clip.start + clip.duration <= cover.start) {
+          return [clip];
+        }
+
+        const before = cropClip(clip, clip.start, cover.start);
+        const after = cropClip(clip, coverEnd, clip.start + clip.duration);
+        return [
+          ...(before ? [before] : []),
+          // The piece after keeps the id if it is all that is left
+          ...(after ? [before ? { ...after, id: `clip-${crypto.randomUUID()}` } : after] : []),
+        ];
+      }),
+    trackClips.filter((clip) => !editedIds.has(clip.id)),
+  );
+
+  return [...others, ...edited].sort((a, b) => a.start - b.start);
+};
+
+// Where a clip dragged to `start` would go among the other clips of its
+// track: their order by the clip's middle, and the cut it lands on
+const getReorderSlot = (trackClips: TimelineClip[], clipId: string, start: number) => {
+  const clip = trackClips.find((c) => c.id === clipId);
+  const others = trackClips
+    .filter((c) => c.id !== clipId)
+    .sort((a, b) => a.start - b.start);
+  const center = start + (clip?.duration ?? 0) / 2;
+  const index = others.filter((c) => c.start + c.duration / 2 < center).length;
+  const before = others[index - 1];
+
+  return { index, others, time: before ? before.start + before.duration : 0 };
+};
+
+// Apply `edit` to the clips on one track, the other tracks stay as they are
+const editTrack = (
+  allClips: TimelineClip[],
+  trackId: string,
+  edit: (trackClips: TimelineClip[]) => TimelineClip[],
+): TimelineClip[] => [
+  ...allClips.filter((clip) => clip.trackId !== trackId),
+  ...edit(allClips.filter((clip) => clip.trackId === trackId)),
+];
+
+// `clip` with its edges moved to `start` and `end`, trimming into its media
+// or revealing trimmed media, as far as the source goes
+const retrimClip = (clip: TimelineClip, start: number, end: number): TimelineClip => {
+  if (clip.freezeTime !== undefined) {
+    return end - start < MIN_CLIP_REMAINDER ? clip : { ...clip, start, duration: end - start };
+  }
+
+  const trimStart = clip.trimStart ?? 0;
+  const sourceEnd = getClipMediaTime(clip, clip.start + clip.duration);
+  const sourceDuration = clip.originalDuration ?? sourceEnd + (clip.trimEnd ?? 0);
+  const nextTrimStart = Math.max(0, getSourceTimeAfter(clip, trimStart, start - clip.start));
+  const nextSourceEnd = Math.min(sourceDuration, getSourceTimeAfter(clip, trimStart, end - clip.start));
+  const duration = getTimelineSpan(clip, nextTrimStart, nextSourceEnd);
+  if (duration < MIN_CLIP_REMAINDER) return clip;
+
+  return {
+    ...clip,
+    start: clip.start + getTimelineSpan(clip, trimStart, nextTrimStart),
+    duration,
+    trimStart: nextTrimStart,
+    trimEnd: sourceDuration - nextSourceEnd,
+  };
+};
+
+// `clip`, cut from a source measured at `estimated` seconds that turned out
+// to last `exact`: none plays past the real end, and one that played to the
+// end still does, as far as `limit` (where the next clip starts) allows
+const fitToSourceDuration = (clip: TimelineClip, estimated: number, exact: number, limit: number): TimelineClip => {
+  const fitted = { ...clip, originalDuration: exact };
+  if (clip.freezeTime !== undefined) return fitted;
+
+  const clipEnd = clip.start + clip.duration;
+  const reachesEnd = estimated - getClipMediaTime(clip, clipEnd) < 0.0001;
+  const end = reachesEnd
+    ? Math.min(limit, clip.start + getTimelineSpan(clip, clip.trimStart ?? 0, exact))
+    : clipEnd;
+  return retrimClip(fitted, clip.start, end);
+};
+
+// `clip` edited the way the clip linked to it went from `before` to `after`:
+// shifted along with a move, the same edge moved along with a trim, and
+// played at the new speed along with a retime
+const followLinkedClip = (clip: TimelineClip, before: TimelineClip, after: TimelineClip): TimelineClip => {
+  const startDelta = after.start - before.start;
+  const endDelta = after.start + after.duration - (before.start + before.duration);
+
+  if (before.speed !== after.speed || before.speedKeyframes !== after.speedKeyframes) {
+    const retimed = copyClipSpeed(clip, after);
+    return { ...retimed, start: Math.max(0, retimed.start + startDelta) };
+  }
+
+  if (Math.abs(startDelta - endDelta) < 0.0001) {
+    return startDelta === 0 ? clip : { ...clip, start: Math.max(0, clip.start + startDelta) };
+  }
+  return retrimClip(clip, clip.start + startDelta, clip.start + clip.duration + endDelta);
+};
+
+// Ids of the clips linked to any of `clipIds`, leaving out those themselves
+const getLinkedClipIds = (allClips: TimelineClip[], clipIds: Set<string>): Set<string> => {
+  const linkIds = new Set(
+    allClips.filter((clip) => clipIds.has(clip.id)).map((clip) => clip.linkId),
+  );
+  return new Set(
+    allClips
+      .filter((clip) => clip.linkId && linkIds.has(clip.linkId) && !clipIds.has(clip.id))
+      .map((clip) => clip.id),
+  );
+};
+
+const withoutLink = (clip: TimelineClip): TimelineClip => {
+  const { linkId: _linkId, ...rest } = clip;
+  return rest;
+};
+
+// Drop the links left with a single clip
+const pruneLinks = (allClips: TimelineClip[]): TimelineClip[] => {
+  const counts = new Map<string, number>();
+  for (const clip of allClips) {
+    if (clip.linkId) counts.set(clip.linkId, (counts.get(clip.linkId) ?? 0) + 1);
+  }
+
+  return allClips.map((clip) =>
+    clip.linkId && (counts.get(clip.linkId) ?? 0) < 2 ? withoutLink(clip) : clip,
+  );
+};
+
+// Cut the clips `toSplit` picks out at `splitTime`. The pieces on each side
+// of the cut stay linked with the pieces of their linked clips on that side.
+const splitClipsAt = (
+  allClips: TimelineClip[],
+  splitTime: number,
+  toSplit: (clip: TimelineClip) => boolean,
+): TimelineClip[] => {
+  const sideLinks = new Map<string, [string, string]>();
+
+  return pruneLinks(
+    allClips.flatMap((clip) => {
+      if (!toSplit(clip)) return [clip];
+
+      const pieces = splitClip(clip, splitTime);
+      if (pieces.length < 2 || !clip.linkId) return pieces;
+
+      const links = sideLinks.get(clip.linkId) ?? [
+        `link-${crypto.randomUUID()}`,
+        `link-${crypto.randomUUID()}`,
+      ];
+      sideLinks.set(clip.linkId, links);
+      return [
+        { ...pieces[0], linkId: links[0] },
+        { ...pieces[1], linkId: links[1] },
+      ];
+    }),
+  );
+};
+
+// Carry the edits from `prevClips` to `nextClips` over to the clips linked to
+// the edited ones (and to `editedIds`, even if they ended up where they were),
+// laying out the tracks they are on with `arrange`. Clips that were edited
+// themselves, or sit on a locked track, stay as they are.
+const syncLinkedClips = (
+  prevClips: TimelineClip[],
+  nextClips: TimelineClip[],
+  lockedTrackIds: Set<string>,
+  arrange: (trackClips: TimelineClip[], editedIds: Set<string>) => TimelineClip[],
+  editedIds: Set<string> = new Set(),
+): TimelineClip[] => {
+  const prevById = new Map(prevClips.map((clip) => [clip.id, clip]));
+  const isEdited = (clip: TimelineClip) => {
+    const before = prevById.get(clip.id);
+    return !before || before.start !== clip.start || before.duration !== clip.duration;
+  };
+
+  // The first edited clip of a link leads the others
+  const leads = new Map<string, [TimelineClip, TimelineClip]>();
+  for (const clip of nextClips) {
+    const before = prevById.get(clip.id);
+    if (!clip.linkId || !before || leads.has(clip.linkId)) continue;
+    if (isEdited(clip) || editedIds.has(clip.id)) leads.set(clip.linkId, [before, clip]);
+  }
+
+  const followerIds = new Set<string>();
+  const followed = nextClips.map((clip) => {
+    const lead = clip.linkId ? leads.get(clip.linkId) : undefined;
+    if (!lead || lead[1].id === clip.id || isEdited(clip) || lockedTrackIds.has(clip.trackId)) {
+      return clip;
+    }
+    followerIds.add(clip.id);
+    return followLinkedClip(clip, ...lead);
+  });
+
+  const trackIds = new Set(
+    followed.filter((clip) => followerIds.has(clip.id)).map((clip) => clip.trackId),
+  );
+  return [...trackIds].reduce(
+    (result, trackId) => editTrack(result, trackId, (trackClips) => arrange(trackClips, followerIds)),
+    followed,
+  );
+};
+
+// Take `range` out of the unlocked tracks: their clips are cut at its edges,
+// what lies between goes and everything after moves back to close the gap
+const rippleDeleteRange = (
+  allClips: TimelineClip[],
+  range: TimeRange,
+  lockedTrackIds: Set<string>,
+): TimelineClip[] => {
+  const length = range.end - range.start;
+  const isUnlocked = (clip: TimelineClip) => !lockedTrackIds.has(clip.trackId);
+  const cut = splitClipsAt(splitClipsAt(allClips, range.end, isUnlocked), range.start, isUnlocked);
+
+  return pruneLinks(
+    cut.flatMap((clip) => {
+      const clipEnd = clip.start + clip.duration;
+      if (!isUnlocked(clip) || clipEnd <= range.start) return [clip];
+      if (clip.start >= range.end) return [{ ...clip, start: clip.start - length }];
+
+      // A cut too close to the clip's edge was not made, crop it instead
+      const before = cropClip(clip, clip.start, range.start);
+      const after = cropClip(clip, range.end, clipEnd);
+      return [
+        ...(before ? [before] : []),
+        ...(after
+          ? [{ ...after, id: before ? `clip-${crypto.randomUUID()}` : after.id, start: after.start - length }]
+          : []),
+      ];
+    }),
+  );
+};
+
+// Clips on the system clipboard, null if it holds none
+const readClipboard = async () => {
+  try {
+    return parseClipboard(await navigator.clipboard.readText());
+  } catch (error) {
+    console.error("Failed to read the clipboard", error);
+    return null;
+  }
+};
+
+// Picture tracks go on top of the stack, audio tracks below everything
+const insertTrack = (tracks: TimelineTrack[], track: TimelineTrack) =>
+  isVisualTrack(track) ? [track, ...tracks] : [...tracks, track];
+
 export default function Timeline() {
-  const { timelineZoom, setTimelineZoom, duration, seek, togglePlay, step, videoElement, scissorMode, setScissorMode, clips, setClips, setPreviewTime } = usePlayback();
+  const { timelineZoom, setTimelineZoom, duration, getCurrentTime, seek, currentTime, togglePlay, stepFrames, jumpToEdit, frameRate, shuttle, videoElement, scissorMode, setScissorMode, editMode, snapSettings, clips, setClips, tracks, setTracks, markers, setMarkers, inPoint, outPoint, setInPoint, setOutPoint, isLooping, setIsLooping, setPreviewTime } = usePlayback();
+  const { source, probe, isProbing, assets, getAsset, importMedia, probes } = useMedia();
+  const { hydrate } = useHistory();
   
   // Store clips in state for split/delete operations
   // const [clips, setClips] = useState<TimelineClip[]>([]); // Moved to context
-  const clipIdCounterRef = useRef(1);
   
+  // Source length the timeline was built from while the probe still ran
+  const estimatedDurationRef = useRef<number | null>(null);
+
   // Initialize clips when video loads
+  // The probe of a long recording takes a while, the element's estimate
+  // does until its packet-exact duration comes in
   useEffect(() => {
     if (videoElement && duration > 0 && clips.length === 0) {
-      setClips(createInitialClips(videoElement, duration));
+      const trackId = tracks.find((track) => track.kind === "video")?.id ?? DEFAULT_TRACK_ID;
+      const sourceDuration = probe?.duration || duration;
+      estimatedDurationRef.current = isProbing ? sourceDuration : null;
+      // Populating the timeline of a new video is not an edit
+      hydrate(() =>
+        setClips(createInitialClips(videoElement, sourceDuration, source.name, trackId)),
+      );
     }
-  }, [videoElement, duration, clips.length, setClips]);
+  }, [videoElement, duration, clips.length, setClips, source.name, probe, isProbing, tracks, hydrate]);
+
+  // Correct the clips of the estimated source once the probe has measured it
+  useEffect(() => {
+    const estimated = estimatedDurationRef.current;
+    if (estimated === null || isProbing) return;
+    estimatedDurationRef.current = null;
+
+    const exact = probe?.duration;
+    if (!exact || Math.abs(exact - estimated) < 0.0001) return;
+
+    hydrate(() =>
+      setClips((prevClips) =>
+        prevClips.map((clip) => {
+          if (clip.mediaId !== MAIN_MEDIA_ID || clip.originalDuration !== estimated) return clip;
+          const clipEnd = clip.start + clip.duration;
+          const limit = Math.min(
+            Infinity,
+            ...prevClips
+              .filter((other) => other.trackId === clip.trackId && other.id !== clip.id && other.start >= clipEnd - 0.0001)
+              .map((other) => other.start),
+          );
+          return fitToSourceDuration(clip, estimated, exact, limit);
+        }),
+      ),
+    );
+  }, [isProbing, probe, hydrate, setClips]);
   
-  // Reset clips when video changes
+  // Reset clips when the video goes away. On mount there is no element yet,
+  // and the clips then are the ones a project load just put in place.
+  const previousVideoElementRef = useRef(videoElement);
   useEffect(() => {
-    if (!videoElement) {
-      setClips([]);
-      clipIdCounterRef.current = 1;
+    const hadVideo = previousVideoElementRef.current !== null;
+    previousVideoElementRef.current = videoElement;
+    if (hadVideo && !videoElement) {
+      hydrate(() => setClips([]));
+      estimatedDurationRef.current = null;
       hasAutoFittedRef.current = false;
     }
-  }, [videoElement, setClips]);
+  }, [videoElement, setClips, hydrate]);
 
   // Generate layers from clips state
-  const layers = useMemo<TimelineLayer[]>(() => [{
-    id: "video-layer-1",
-    name: "Video Track",
-    isVisible: true,
-    isLocked: false,
-    kind: "video",
-    accentColor: "#eab308",
-    clips: clips,
-  }], [clips]);
+  const layers = useMemo<TimelineLayer[]>(
+    () =>
+      tracks.map((track) => ({
+        ...track,
+        clips: clips.filter((clip) => clip.trackId === track.id),
+      })),
+    [tracks, clips],
+  );
 
   const [selectedClipIds, setSelectedClipIds] = useState<Set<string>>(new Set());
-  const snapEnabled = true; // Snap is always enabled
+  const lockedTrackIds = useMemo(
+    () => new Set(tracks.filter((track) => track.isLocked).map((track) => track.id)),
+    [tracks],
+  );
+  const linkedClipIds = useMemo(
+    () => new Set(pruneLinks(clips).filter((clip) => clip.linkId).map((clip) => clip.id)),
+    [clips],
+  );
+  const snapEnabled = snapSettings.enabled;
   const [contextMenu, setContextMenu] = useState<{
     x: number;
     y: number;
     clipId: string;
   } | null>(null);
   
+  const contextMenuClip = contextMenu
+    ? clips.find((clip) => clip.id === contextMenu.clipId)
+    : undefined;
+  // The selection if the clip is part of it, else the clip alone
+  const contextMenuTargetIds =
+    contextMenu && selectedClipIds.has(contextMenu.clipId)
+      ? selectedClipIds
+      : new Set(contextMenu ? [contextMenu.clipId] : []);
+  
   // Refs for syncing scroll
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const headersRef = useRef<HTMLDivElement>(null);
   const hasAutoFittedRef = useRef(false);
 
   // Helper to ensure gapless timeline
@@ -105,149 +529,180 @@ export default function Timeline() {
     return sorted;
   };
 
-  // Handle clip updates (move, resize, trim)
+  // Lay out a track after `editedIds` changed: back to back in ripple mode,
+  // where they are in overwrite mode
+  const arrangeClips = useCallback(
+    (trackClips: TimelineClip[], editedIds: Set<string>) =>
+      editMode === "ripple" ? normalizeClips(trackClips) : overwriteClips(trackClips, editedIds),
+    [editMode],
+  );
+
+  // Handle clip updates (move, resize, trim). Linked clips follow, unless
+  // the clip was edited `unlinked` (Alt held) to offset picture and sound.
   const handleClipUpdate = useCallback((
-    _layerId: string,
+    layerId: string,
     clipId: string,
     newStart: number,
     newDuration?: number,
     trimStart?: number,
-    trimEnd?: number
+    trimEnd?: number,
+    unlinked = false
   ) => {
-    setClips((prevClips) => {
-      const clipIndex = prevClips.findIndex(c => c.id === clipId);
-      if (clipIndex === -1) return prevClips;
+    setClips((allClips) => {
+      const edited = editTrack(allClips, layerId, (prevClips) => {
+        const clipIndex = prevClips.findIndex(c => c.id === clipId);
+        if (clipIndex === -1) return prevClips;
 
-      const updatedClips = [...prevClips];
-      const clip = updatedClips[clipIndex];
+        const updatedClips = [...prevClips];
+        const clip = updatedClips[clipIndex];
       
-      // Update the target clip
-      updatedClips[clipIndex] = {
-        ...clip,
-        start: newStart,
-        duration: newDuration ?? clip.duration,
-        trimStart: trimStart ?? clip.trimStart,
-        trimEnd: trimEnd ?? clip.trimEnd,
-      };
-
-      // Normalize to ensure no gaps
-      return normalizeClips(updatedClips);
+        // Update the target clip
+        updatedClips[clipIndex] = {
+          ...clip,
+          start: newStart,
+          duration: newDuration ?? clip.duration,
+          trimStart: trimStart ?? clip.trimStart,
+          trimEnd: trimEnd ?? clip.trimEnd,
+        };
+
+        return arrangeClips(updatedClips, new Set([clipId]));
+      });
+
+      return unlinked
+        ? edited
+        : syncLinkedClips(allClips, edited, lockedTrackIds, arrangeClips, new Set([clipId]));
     });
-  }, []);
+  }, [arrangeClips, lockedTrackIds]);
 
   // Handle real-time clip resizing (including rolling edits)
   const handleClipResize = useCallback((
-    _layerId: string,
+    layerId: string,
     clipId: string,
     newStart: number,
     newDuration: number,
     trimStart: number,
-    trimEnd: number
+    trimEnd: number,
+    unlinked = false
   ) => {
-    setClips((prevClips) => {
-      const clipIndex = prevClips.findIndex(c => c.id === clipId);
-      if (clipIndex === -1) return prevClips;
+    setClips((allClips) => {
+      const edited = editTrack(allClips, layerId, (prevClips) => {
+        const clipIndex = prevClips.findIndex(c => c.id === clipId);
+        if (clipIndex === -1) return prevClips;
 
-      const oldClip = prevClips[clipIndex];
-      const updatedClips = [...prevClips];
+        const oldClip = prevClips[clipIndex];
+        const updatedClips = [...prevClips];
       
-      // Update the target clip
-      updatedClips[clipIndex] = {
-        ...oldClip,
-        start: newStart,
-        duration: newDuration,
-        trimStart: trimStart,
-        trimEnd: trimEnd,
-      };
-
-      // Rolling Edit Logic
-      // Check if we are modifying the END of the clip (start didn't change)
-      const isModifyingEnd = Math.abs(newStart - oldClip.start) < 0.001;
+        // Update the target clip
+        updatedClips[clipIndex] = {
+          ...oldClip,
+          start: newStart,
+          duration: newDuration,
+          trimStart: trimStart,
+          trimEnd: trimEnd,
+        };
+
+        // Neighbours are only cut into once the resize is released
+        if (editMode === "overwrite") return updatedClips;
+
+        // Rolling Edit Logic
+        // Check if we are modifying the END of the clip (start didn't change)
+        const isModifyingEnd = Math.abs(newStart - oldClip.start) < 0.001;
       
-      if (isModifyingEnd) {
-        const oldEnd = oldClip.start + oldClip.duration;
-        const newEnd = newStart + newDuration;
-        const delta = newEnd - oldEnd;
+        if (isModifyingEnd) {
+          const oldEnd = oldClip.start + oldClip.duration;
+          const newEnd = newStart + newDuration;
+          const delta = newEnd - oldEnd;
         
-        // Find a clip that started exactly where this one ended (within tolerance)
-        const nextClipIndex = prevClips.findIndex(c => Math.abs(c.start - oldEnd) < 0.01 && c.id !== clipId);
+          // Find a clip that started exactly where this one ended (within tolerance)
+          const nextClipIndex = prevClips.findIndex(c => Math.abs(c.start - oldEnd) < 0.01 && c.id !== clipId);
         
-        if (nextClipIndex !== -1) {
-          const nextClip = prevClips[nextClipIndex];
-          // Adjust next clip: start moves by delta, duration shrinks by delta, trimStart increases by delta
-          // This creates the "rolling" effect where the cut point moves but total duration is constant
+          if (nextClipIndex !== -1) {
+            const nextClip = prevClips[nextClipIndex];
+            // Adjust next clip: start moves by delta, duration shrinks by delta, trimStart increases by delta
+            // This creates the "rolling" effect where the cut point moves but total duration is constant
           
-          const nextClipNewStart = nextClip.start + delta;
-          const nextClipNewDuration = nextClip.duration - delta;
-          const nextClipNewTrimStart = (nextClip.trimStart ?? 0) + delta;
+            const nextClipNewStart = nextClip.start + delta;
+            const nextClipNewDuration = nextClip.duration - delta;
+            const nextClipNewTrimStart = getSourceTimeAfter(nextClip, nextClip.trimStart ?? 0, delta);
           
-          // Only apply if valid
-          if (nextClipNewDuration >= TIMELINE_MIN_DURATION && nextClipNewTrimStart >= 0) {
-             updatedClips[nextClipIndex] = {
-               ...nextClip,
-               start: nextClipNewStart,
-               duration: nextClipNewDuration,
-               trimStart: nextClipNewTrimStart,
-             };
+            // Only apply if valid
+            if (nextClipNewDuration >= TIMELINE_MIN_DURATION && nextClipNewTrimStart >= 0) {
+               updatedClips[nextClipIndex] = {
+                 ...nextClip,
+                 start: nextClipNewStart,
+                 duration: nextClipNewDuration,
+                 trimStart: nextClipNewTrimStart,
+               };
+            }
           }
         }
-      }
       
-      // Check if we are modifying the START of the clip (end didn't change roughly)
-      // Note: When resizing start, duration also changes, so end stays roughly same
-      const oldEnd = oldClip.start + oldClip.duration;
-      const newEnd = newStart + newDuration;
-      const isModifyingStart = Math.abs(newEnd - oldEnd) < 0.001;
+        // Check if we are modifying the START of the clip (end didn't change roughly)
+        // Note: When resizing start, duration also changes, so end stays roughly same
+        const oldEnd = oldClip.start + oldClip.duration;
+        const newEnd = newStart + newDuration;
+        const isModifyingStart = Math.abs(newEnd - oldEnd) < 0.001;
       
-      if (isModifyingStart) {
-        const oldStart = oldClip.start;
-        const delta = newStart - oldStart; // Positive if moving right (shrinking), Negative if moving left (extending)
+        if (isModifyingStart) {
+          const oldStart = oldClip.start;
+          const delta = newStart - oldStart; // Positive if moving right (shrinking), Negative if moving left (extending)
         
-        // Find a clip that ended exactly where this one started
-        const prevClipIndex = prevClips.findIndex(c => Math.abs((c.start + c.duration) - oldStart) < 0.01 && c.id !== clipId);
+          // Find a clip that ended exactly where this one started
+          const prevClipIndex = prevClips.findIndex(c => Math.abs((c.start + c.duration) - oldStart) < 0.01 && c.id !== clipId);
         
-        if (prevClipIndex !== -1) {
-          const prevClip = prevClips[prevClipIndex];
-          // Adjust prev clip: duration changes by delta
-          // If current clip moves right (delta > 0), prev clip extends (duration + delta)
-          // If current clip moves left (delta < 0), prev clip shrinks (duration + delta)
+          if (prevClipIndex !== -1) {
+            const prevClip = prevClips[prevClipIndex];
+            // Adjust prev clip: duration changes by delta
+            // If current clip moves right (delta > 0), prev clip extends (duration + delta)
+            // If current clip moves left (delta < 0), prev clip shrinks (duration + delta)
           
-          const prevClipNewDuration = prevClip.duration + delta;
-          const prevClipNewTrimEnd = (prevClip.trimEnd ?? 0) - delta;
+            const prevClipNewDuration = prevClip.duration + delta;
+            const prevSourceEnd = getClipMediaTime(prevClip, prevClip.start + prevClip.duration);
+            const prevClipNewTrimEnd =
+              (prevClip.trimEnd ?? 0) - (getSourceTimeAfter(prevClip, prevSourceEnd, delta) - prevSourceEnd);
           
-          // Only apply if valid (duration > min and we have enough trim handle to extend if needed)
-          if (prevClipNewDuration >= TIMELINE_MIN_DURATION && prevClipNewTrimEnd >= 0) {
-            updatedClips[prevClipIndex] = {
-              ...prevClip,
-              duration: prevClipNewDuration,
-              trimEnd: prevClipNewTrimEnd,
-            };
+            // Only apply if valid (duration > min and we have enough trim handle to extend if needed)
+            if (prevClipNewDuration >= TIMELINE_MIN_DURATION && prevClipNewTrimEnd >= 0) {
+              updatedClips[prevClipIndex] = {
+                ...prevClip,
+                duration: prevClipNewDuration,
+                trimEnd: prevClipNewTrimEnd,
+              };
+            }
           }
         }
-      }
 
-      // Custom Ripple Logic during resize (instead of full normalize)
-      // This allows gaps to form temporarily during drag (e.g. dragging start handle right)
-      // preventing visual fighting between Clip.tsx and index.tsx
+        // Custom Ripple Logic during resize (instead of full normalize)
+        // This allows gaps to form temporarily during drag (e.g. dragging start handle right)
+        // preventing visual fighting between Clip.tsx and index.tsx
       
-      // 1. Sort clips by start time
-      const sorted = [...updatedClips].sort((a, b) => a.start - b.start);
+        // 1. Sort clips by start time
+        const sorted = [...updatedClips].sort((a, b) => a.start - b.start);
       
-      // 2. Find the clip that was modified
-      const modifiedIndex = sorted.findIndex(c => c.id === clipId);
+        // 2. Find the clip that was modified
+        const modifiedIndex = sorted.findIndex(c => c.id === clipId);
       
-      // 3. Ripple subsequent clips to maintain gapless sequence AFTER the modified clip
-      if (modifiedIndex !== -1) {
-        for (let i = modifiedIndex + 1; i < sorted.length; i++) {
-           const prevEnd = sorted[i-1].start + sorted[i-1].duration;
-           // Shift to close gap or fix overlap
-           sorted[i] = { ...sorted[i], start: prevEnd };
+        // 3. Ripple subsequent clips to maintain gapless sequence AFTER the modified clip
+        if (modifiedIndex !== -1) {
+          for (let i = modifiedIndex + 1; i < sorted.length; i++) {
+             const prevEnd = sorted[i-1].start + sorted[i-1].duration;
+             // Shift to close gap or fix overlap
+             sorted[i] = { ...sorted[i], start: prevEnd };
+          }
         }
-      }
       
-      return sorted;
+        return sorted;
+      });
+
+      // Linked clips follow along, in overwrite mode their neighbours are
+      // only cut into once the resize is released
+      return unlinked
+        ? edited
+        : syncLinkedClips(allClips, edited, lockedTrackIds, (trackClips) =>
+            editMode === "ripple" ? normalizeClips(trackClips) : trackClips,
+          );
     });
-  }, []);
+  }, [editMode, lockedTrackIds]);
 
   const handleSelectClip = (clipId: string, multiSelect = false) => {
     setSelectedClipIds((prev) => {
@@ -263,35 +718,46 @@ export default function Timeline() {
 
   const handleDeselect = () => setSelectedClipIds(new Set());
 
-  // Delete clip and shift subsequent clips left to fill gap
+  // Delete clip (and the clips linked to it) and shift subsequent clips left
+  // to fill gap
   const handleDeleteClip = useCallback((clipId: string) => {
-    setClips((prevClips) => {
-      const clipToDelete = prevClips.find(c => c.id === clipId);
-      if (!clipToDelete) return prevClips;
-      
-      const deletedEnd = clipToDelete.start + clipToDelete.duration;
-      const gapToFill = clipToDelete.duration;
+    const deletedIds = new Set([clipId, ...getLinkedClipIds(clips, new Set([clipId]))]);
+
+    const removeClip = (allClips: TimelineClip[], deletedId: string) => {
+      const clipToDelete = allClips.find(c => c.id === deletedId);
+      if (!clipToDelete) return allClips;
+      if (lockedTrackIds.has(clipToDelete.trackId)) {
+        return allClips;
+      }
+
+      return editTrack(allClips, clipToDelete.trackId, (prevClips) => {
+        // Overwrite mode leaves a gap where the clip was
+        if (editMode === "overwrite") {
+          return prevClips.filter((c) => c.id !== deletedId);
+        }
+
+        const deletedEnd = clipToDelete.start + clipToDelete.duration;
+        const gapToFill = clipToDelete.duration;
       
-      // Remove the clip and shift all clips that start after it
-      const remainingClips = prevClips
-        .filter(c => c.id !== clipId)
-        .map(c => {
-          if (c.start >= deletedEnd) {
-            // Shift this clip left by the gap amount
-            return { ...c, start: c.start - gapToFill };
-          }
-          return c;
-        });
+        // Remove the clip and shift all clips that start after it
+        const remainingClips = prevClips
+          .filter(c => c.id !== deletedId)
+          .map(c => {
+            if (c.start >= deletedEnd) {
+              // Shift this clip left by the gap amount
+              return { ...c, start: c.start - gapToFill };
+            }
+            return c;
+          });
         
-      return normalizeClips(remainingClips);
-    });
-    setSelectedClipIds((prev) => {
-      const next = new Set(prev);
-      next.delete(clipId);
-      return next;
-    });
+        return normalizeClips(remainingClips);
+      });
+    };
+
+    setClips((allClips) => pruneLinks([...deletedIds].reduce(removeClip, allClips)));
+    setSelectedClipIds((prev) => new Set([...prev].filter((id) => !deletedIds.has(id))));
     setContextMenu(null);
-  }, []);
+  }, [clips, lockedTrackIds, editMode]);
 
   const handleDeleteSelected = useCallback(() => {
     if (selectedClipIds.size === 0) return;
@@ -309,77 +775,235 @@ export default function Timeline() {
     setSelectedClipIds(new Set());
   }, [selectedClipIds, clips, handleDeleteClip]);
 
-  // Duplication feature removed as requested
-  const handleDuplicateSelected = () => {
-    console.log("Duplicate feature not available");
-  };
+  // Insert a copy right after each of `clipIds`, rippling the rest of its track
+  const duplicateClips = useCallback((clipIds: Set<string>) => {
+    const lockedTrackIds = new Set(
+      tracks.filter((track) => track.isLocked).map((track) => track.id),
+    );
+    const trackIds = new Set(
+      clips
+        .filter((clip) => clipIds.has(clip.id) && !lockedTrackIds.has(clip.trackId))
+        .map((clip) => clip.trackId),
+    );
+    if (trackIds.size === 0) return;
+
+    // Copies linked together get a link of their own
+    const copyLinks = new Map<string, string>();
+    const copyLinkId = (linkId: string | undefined) => {
+      if (!linkId) return undefined;
+      if (!copyLinks.has(linkId)) copyLinks.set(linkId, `link-${crypto.randomUUID()}`);
+      return copyLinks.get(linkId);
+    };
+
+    const copyIds = new Set<string>();
+    const duplicated = [...trackIds].reduce(
+      (result, trackId) =>
+        editTrack(result, trackId, (trackClips) =>
+          arrangeClips(
+            [...trackClips]
+              .sort((a, b) => a.start - b.start)
+              .flatMap((clip) => {
+                if (!clipIds.has(clip.id)) return [clip];
+
+                const copy: TimelineClip = {
+                  ...clip,
+                  id: `clip-${crypto.randomUUID()}`,
+                  start: clip.start + clip.duration,
+                  linkId: copyLinkId(clip.linkId),
+                };
+                copyIds.add(copy.id);
+                return [clip, copy];
+              }),
+            copyIds,
+          ),
+        ),
+      clips,
+    );
+
+    setClips(pruneLinks(duplicated));
+    setSelectedClipIds(copyIds);
+  }, [clips, tracks, setClips, arrangeClips]);
+
+  const handleDuplicateSelected = useCallback(() => {
+    if (selectedClipIds.size === 0) return;
+    duplicateClips(selectedClipIds);
+  }, [selectedClipIds, duplicateClips]);
+
+  // Copy clips to the system clipboard, with the media they use so they paste
+  // into other projects too
+  const copyClips = useCallback(async (clipIds: Set<string>) => {
+    const copied = clips.filter((clip) => clipIds.has(clip.id));
+    if (copied.length === 0) return false;
+
+    try {
+      await navigator.clipboard.writeText(serializeClipboard(copied, assets));
+      return true;
+    } catch (error) {
+      console.error("Failed to copy clips", error);
+      return false;
+    }
+  }, [clips, assets]);
+
+  const handleCutSelected = useCallback(async () => {
+    if (await copyClips(selectedClipIds)) handleDeleteSelected();
+  }, [copyClips, selectedClipIds, handleDeleteSelected]);
+
+  // Paste at the playhead, keeping the clips' spacing and tracks: the tracks
+  // they came from if they are here, else the first free ones that fit, else
+  // new ones. In ripple mode the clips under the playhead are cut and the
+  // rest of their track moves along to make room; in overwrite mode the
+  // pasted clips cover what is there.
+  const handlePaste = useCallback(async () => {
+    const content = await readClipboard();
+    if (!content || content.clips.length === 0) return;
+
+    // Media from another project joins the library
+    const imported = importMedia(content.media.map((asset) => asset.path));
+    const getPastedAsset = (mediaId: string) => {
+      const path = content.media.find((asset) => asset.id === mediaId)?.path;
+      return imported.find((asset) => asset.path === path) ?? getAsset(mediaId);
+    };
+
+    const time = getCurrentTime();
+    const first = Math.min(...content.clips.map((clip) => clip.start));
+    const targetTracks = new Map<string, TimelineTrack>();
+    const pastedLinks = new Map<string, string>();
+    let nextTracks = tracks;
+
+    const pasted = content.clips.flatMap((clip): TimelineClip[] => {
+      const asset = getPastedAsset(clip.mediaId);
+      if (!asset) return [];
+
+      let track = targetTracks.get(clip.trackId);
+      if (!track) {
+        const usedIds = new Set([...targetTracks.values()].map((target) => target.id));
+        track = [nextTracks.find((candidate) => candidate.id === clip.trackId), ...nextTracks].find(
+          (candidate) =>
+            candidate &&
+            !candidate.isLocked &&
+            !usedIds.has(candidate.id) &&
+            canPlaceOnTrack(candidate, asset.kind),
+        );
+        if (!track) {
+          track = createTrack(asset.kind === "audio" ? "audio" : "overlay", nextTracks);
+          nextTracks = insertTrack(nextTracks, track);
+        }
+        targetTracks.set(clip.trackId, track);
+      }
+
+      if (clip.linkId && !pastedLinks.has(clip.linkId)) {
+        pastedLinks.set(clip.linkId, `link-${crypto.randomUUID()}`);
+      }
+      return [{
+        ...clip,
+        id: `clip-${crypto.randomUUID()}`,
+        mediaId: asset.id,
+        trackId: track.id,
+        start: time + clip.start - first,
+        linkId: clip.linkId && pastedLinks.get(clip.linkId),
+      }];
+    });
+    if (pasted.length === 0) return;
+
+    const pastedIds = new Set(pasted.map((clip) => clip.id));
+    const trackIds = new Set(pasted.map((clip) => clip.trackId));
+    const cut =
+      editMode === "ripple"
+        ? splitClipsAt(clips, time, (clip) => trackIds.has(clip.trackId))
+        : clips;
+    const nextClips = [...trackIds].reduce(
+      (result, trackId) =>
+        editTrack(result, trackId, (trackClips) => {
+          const onTrack = pasted.filter((clip) => clip.trackId === trackId);
+          const span = Math.max(...onTrack.map((clip) => clip.start + clip.duration)) - time;
+          return arrangeClips(
+            [
+              ...trackClips.map((clip) =>
+                editMode === "ripple" && clip.start >= time - 0.0001
+                  ? { ...clip, start: clip.start + span }
+                  : clip,
+              ),
+              ...onTrack,
+            ],
+            pastedIds,
+          );
+        }),
+      cut,
+    );
+
+    setTracks(nextTracks);
+    setClips(pruneLinks(nextClips));
+    setSelectedClipIds(pastedIds);
+    // The playhead moves past the paste, so pasting again adds on after it
+    seek(Math.max(...nextClips.filter((clip) => pastedIds.has(clip.id)).map((clip) => clip.start + clip.duration)));
+  }, [clips, tracks, editMode, importMedia, getAsset, getCurrentTime, seek, setClips, setTracks, arrangeClips]);
+
+  // Speed, volume, mute and color of the first copied clip onto `clipIds`
+  const handlePasteAttributes = useCallback(async (clipIds: Set<string>) => {
+    const attributes = (await readClipboard())?.clips[0];
+    if (!attributes || clipIds.size === 0) return;
+
+    setClips((allClips) => {
+      const trackIds = new Set(
+        allClips
+          .filter((clip) => clipIds.has(clip.id) && !lockedTrackIds.has(clip.trackId))
+          .map((clip) => clip.trackId),
+      );
+      const edited = [...trackIds].reduce(
+        (result, trackId) =>
+          editTrack(result, trackId, (trackClips) =>
+            arrangeClips(
+              trackClips.map((clip) =>
+                clipIds.has(clip.id) ? pasteClipAttributes(clip, attributes) : clip,
+              ),
+              clipIds,
+            ),
+          ),
+        allClips,
+      );
+      // Linked clips take on the new speed, the rest stays theirs
+      return syncLinkedClips(allClips, edited, lockedTrackIds, arrangeClips, clipIds);
+    });
+  }, [lockedTrackIds, setClips, arrangeClips]);
 
   // Context menu handlers
   const handleContextMenu = (clipId: string, x: number, y: number) => {
     setContextMenu({ clipId, x, y });
   };
 
-  // Duplication feature removed
-  const handleDuplicateClip = (_clipId: string) => {
-    console.log("Duplicate feature not available");
+  const handleDuplicateClip = (clipId: string) => {
+    duplicateClips(new Set([clipId]));
     setContextMenu(null);
   };
 
-  // Split clip at a specific time position
-  const handleSplitClipAtTime = useCallback((clipId: string, splitTime: number) => {
+  // Split the clips `shouldSplit` picks out at `splitTime`, and the clips
+  // linked to them. The pieces on each side of the cut stay linked. Clips on
+  // locked tracks are left whole.
+  const splitClipsAtTime = useCallback((splitTime: number, shouldSplit: (clip: TimelineClip) => boolean) => {
     setClips((prevClips) => {
-      const clipIndex = prevClips.findIndex(c => c.id === clipId);
-      if (clipIndex === -1) return prevClips;
-      
-      const clip = prevClips[clipIndex];
-      const clipStart = clip.start;
-      const clipEnd = clip.start + clip.duration;
-      
-      // Validate split time is within clip bounds (with some margin)
-      if (splitTime <= clipStart + 0.1 || splitTime >= clipEnd - 0.1) {
-        console.log("Split time must be within clip bounds");
-        return prevClips;
-      }
-      
-      clipIdCounterRef.current += 1;
-      const newId1 = `main-video-${clipIdCounterRef.current}`;
-      clipIdCounterRef.current += 1;
-      const newId2 = `main-video-${clipIdCounterRef.current}`;
-      
-      // Calculate the original video time offset for each new clip
-      const originalTrimStart = clip.trimStart ?? 0;
-      const relativeTimeInClip = splitTime - clipStart;
-      
-      // First clip: from original start to split point
-      const clip1: TimelineClip = {
-        ...clip,
-        id: newId1,
-        start: clipStart,
-        duration: relativeTimeInClip,
-        trimStart: originalTrimStart,
-        trimEnd: (clip.originalDuration ?? clip.duration) - originalTrimStart - relativeTimeInClip,
-      };
-      
-      // Second clip: from split point to original end
-      const clip2: TimelineClip = {
-        ...clip,
-        id: newId2,
-        start: splitTime,
-        duration: clipEnd - splitTime,
-        trimStart: originalTrimStart + relativeTimeInClip,
-        trimEnd: clip.trimEnd ?? 0,
-      };
-      
-      // Replace original clip with the two new clips
-      const newClips = [...prevClips];
-      newClips.splice(clipIndex, 1, clip1, clip2);
-      
-      return newClips.sort((a, b) => a.start - b.start);
+      const targetIds = new Set(
+        prevClips
+          .filter((clip) => !lockedTrackIds.has(clip.trackId) && shouldSplit(clip))
+          .map((clip) => clip.id),
+      );
+      if (targetIds.size === 0) return prevClips;
+      const linkedIds = getLinkedClipIds(prevClips, targetIds);
+
+      return splitClipsAt(
+        prevClips,
+        splitTime,
+        (clip) => targetIds.has(clip.id) || (linkedIds.has(clip.id) && !lockedTrackIds.has(clip.trackId)),
+      ).sort((a, b) => a.start - b.start);
     });
-    
+  }, [setClips, lockedTrackIds]);
+
+  // Split clip at a specific time position
+  const handleSplitClipAtTime = useCallback((clipId: string, splitTime: number) => {
+    splitClipsAtTime(splitTime, (clip) => clip.id === clipId);
+
     // Exit scissor mode after split
     setScissorMode(false);
-  }, [setScissorMode]);
+  }, [splitClipsAtTime, setScissorMode]);
 
   // Handler for when clip is clicked in scissor mode - receives exact split time
   const handleScissorClick = useCallback((clipId: string, splitTime: number) => {
@@ -388,11 +1012,439 @@ export default function Timeline() {
   }, [scissorMode, handleSplitClipAtTime]);
 
   // Split at playhead position (for context menu)
-  const handleSplitClip = useCallback((_clipId: string) => {
-    console.log("Use the scissor tool to split clips");
+  const handleSplitClip = useCallback((clipId: string) => {
+    splitClipsAtTime(getCurrentTime(), (clip) => clip.id === clipId);
     setContextMenu(null);
+  }, [splitClipsAtTime, getCurrentTime]);
+
+  // S splits the selected clips under the playhead, or the top one there if
+  // none is selected. With `allTracks` (Shift+S) every unlocked track is cut.
+  const handleSplitAtPlayhead = useCallback((allTracks: boolean) => {
+    const time = getCurrentTime();
+    const unlockedTrackIds = new Set(
+      tracks.filter((track) => !track.isLocked).map((track) => track.id),
+    );
+    const isUnderPlayhead = (clip: TimelineClip) =>
+      unlockedTrackIds.has(clip.trackId) &&
+      time > clip.start &&
+      time < clip.start + clip.duration;
+
+    if (allTracks) {
+      splitClipsAtTime(time, isUnderPlayhead);
+      return;
+    }
+
+    const underPlayhead = clips.filter(isUnderPlayhead);
+    const selected = underPlayhead.filter((clip) => selectedClipIds.has(clip.id));
+    const topClip = tracks
+      .map((track) => underPlayhead.find((clip) => clip.trackId === track.id))
+      .find(Boolean);
+    const targetIds = new Set(
+      (selected.length > 0 ? selected : topClip ? [topClip] : []).map((clip) => clip.id),
+    );
+
+    splitClipsAtTime(time, (clip) => targetIds.has(clip.id));
+  }, [clips, tracks, selectedClipIds, getCurrentTime, splitClipsAtTime]);
+
+  // Hold the frame `clipId` shows under the playhead for `freezeDuration`,
+  // splitting the clip there and rippling the rest of its track (or laying
+  // the still over it in overwrite mode). The clip leaves its link, its
+  // sound would no longer line up.
+  const handleFreezeFrame = useCallback((clipId: string, freezeDuration: number) => {
+    const clip = clips.find((c) => c.id === clipId);
+    if (!clip || tracks.find((track) => track.id === clip.trackId)?.isLocked) return;
+
+    const clipEnd = clip.start + clip.duration;
+    const time = Math.min(Math.max(getCurrentTime(), clip.start), clipEnd);
+    // Right at either end there is nothing to split, the still goes before
+    // or after the clip
+    const insertAt = canSplitAt(clip, time)
+      ? time
+      : time < clip.start + clip.duration / 2
+        ? clip.start
+        : clipEnd;
+    const freezeFrame = {
+      ...withoutLink(createFreezeFrameClip(clip, Math.min(time, clipEnd - 0.001), freezeDuration)),
+      start: insertAt,
+    };
+
+    setClips(pruneLinks(
+      editTrack(clips, clip.trackId, (trackClips) =>
+        arrangeClips(
+          [
+            ...trackClips
+              .flatMap((c) => (c.id === clipId ? splitClip(withoutLink(c), time) : [c]))
+              .map((c) =>
+                editMode === "ripple" && c.start >= insertAt - 0.0001
+                  ? { ...c, start: c.start + freezeDuration }
+                  : c,
+              ),
+            freezeFrame,
+          ],
+          new Set([freezeFrame.id]),
+        ),
+      ),
+    ));
+    setSelectedClipIds(new Set([freezeFrame.id]));
+    setContextMenu(null);
+  }, [clips, tracks, editMode, getCurrentTime, setClips, arrangeClips]);
+
+  // While the silence menu is open, the sound of the clips that can be heard
+  // is analyzed and the cuts it would make are shown on the tracks
+  const [isSilenceMenuOpen, setIsSilenceMenuOpen] = useState(false);
+  const [silenceSettings, setSilenceSettings] = useState<SilenceSettings>(DEFAULT_SILENCE_SETTINGS);
+  const [waveforms, setWaveforms] = useState<Map<string, WaveformLevel> | null>(null);
+
+  const audibleClips = useMemo(
+    () =>
+      clips.filter((clip) => {
+        const track = tracks.find((t) => t.id === clip.trackId);
+        return (
+          track !== undefined &&
+          isTrackAudible(track, tracks) &&
+          !clip.muted &&
+          (clip.type === "video" || clip.type === "audio")
+        );
+      }),
+    [clips, tracks],
+  );
+
+  useEffect(() => {
+    if (!isSilenceMenuOpen) return;
+
+    let cancelled = false;
+    const paths = [...new Set(audibleClips.flatMap((clip) => getAsset(clip.mediaId)?.path ?? []))];
+
+    Promise.all(
+      paths.map((path) =>
+        requestWaveform(path)
+          .then((levels) => [[path, levels[0]] as const])
+          .catch((error) => {
+            // Analyzed as if it had no sound
+            console.error(`Failed to analyze the audio of ${path}`, error);
+            return [];
+          }),
+      ),
+    ).then((loaded) => {
+      if (!cancelled) setWaveforms(new Map(loaded.flat()));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSilenceMenuOpen, audibleClips, getAsset]);
+
+  const silences = useMemo(
+    () =>
+      isSilenceMenuOpen && waveforms
+        ? findSilences(
+            audibleClips,
+            (clip) => waveforms.get(getAsset(clip.mediaId)?.path ?? "") ?? null,
+            silenceSettings,
+          )
+        : null,
+    [isSilenceMenuOpen, waveforms, audibleClips, getAsset, silenceSettings],
+  );
+
+  const handleSilenceMenuOpenChange = useCallback((open: boolean) => {
+    setIsSilenceMenuOpen(open);
+    if (!open) setWaveforms(null);
   }, []);
 
+  // Split and ripple delete every silence on the unlocked tracks, as a
+  // single edit
+  const handleRemoveSilences = useCallback(() => {
+    if (!silences || silences.length === 0) return;
+
+    // Latest first, so the ranges still to go stay where they are
+    setClips((allClips) =>
+      [...silences]
+        .reverse()
+        .reduce((result, range) => rippleDeleteRange(result, range, lockedTrackIds), allClips)
+        .sort((a, b) => a.start - b.start),
+    );
+    setSelectedClipIds(new Set());
+    handleSilenceMenuOpenChange(false);
+  }, [silences, lockedTrackIds, setClips, handleSilenceMenuOpenChange]);
+
+  // Drop a marker at the playhead, unless one is already there
+  const handleAddMarker = useCallback(() => {
+    const time = getCurrentTime();
+    if (markers.some((marker) => Math.abs(marker.time - time) < 0.001)) return;
+    setMarkers([...markers, createMarker(time, markers)].sort((a, b) => a.time - b.time));
+  }, [markers, getCurrentTime, setMarkers]);
+
+  const handleMarkerChange = useCallback((markerId: string, patch: Partial<TimelineMarker>) => {
+    setMarkers((allMarkers) =>
+      allMarkers
+        .map((marker) => (marker.id === markerId ? { ...marker, ...patch } : marker))
+        .sort((a, b) => a.time - b.time),
+    );
+  }, [setMarkers]);
+
+  const handleMarkerDelete = useCallback((markerId: string) => {
+    setMarkers((allMarkers) => allMarkers.filter((marker) => marker.id !== markerId));
+  }, [setMarkers]);
+
+  // Seek to the closest marker after (or before) the playhead
+  const handleJumpToMarker = useCallback((direction: 1 | -1) => {
+    const time = getCurrentTime();
+    const target =
+      direction > 0
+        ? markers.find((marker) => marker.time > time + 0.001)
+        : [...markers].reverse().find((marker) => marker.time < time - 0.001);
+    if (target) seek(target.time);
+  }, [markers, getCurrentTime, seek]);
+
+  // Retime a clip, rippling (or overwriting) the rest of its track
+  const handleClipSpeedChange = useCallback((clipId: string, speed: number) => {
+    setClips((allClips) => {
+      const clip = allClips.find((c) => c.id === clipId);
+      if (!clip || tracks.find((track) => track.id === clip.trackId)?.isLocked) {
+        return allClips;
+      }
+
+      const edited = editTrack(allClips, clip.trackId, (trackClips) =>
+        arrangeClips(
+          trackClips.map((c) => (c.id === clipId ? setClipSpeed(c, speed) : c)),
+          new Set([clipId]),
+        ),
+      );
+      return syncLinkedClips(allClips, edited, lockedTrackIds, arrangeClips, new Set([clipId]));
+    });
+  }, [tracks, lockedTrackIds, setClips, arrangeClips]);
+
+  const handleClipVolumeChange = useCallback((clipId: string, volume: number) => {
+    setClips((allClips) =>
+      allClips.map((clip) =>
+        clip.id === clipId && !lockedTrackIds.has(clip.trackId) ? { ...clip, volume } : clip,
+      ),
+    );
+  }, [lockedTrackIds, setClips]);
+
+  const handleSpeedKeyframesChange = useCallback((clipId: string, keyframes: SpeedKeyframe[]) => {
+    setClips((allClips) => {
+      const clip = allClips.find((c) => c.id === clipId);
+      if (!clip || tracks.find((track) => track.id === clip.trackId)?.isLocked) {
+        return allClips;
+      }
+
+      const edited = editTrack(allClips, clip.trackId, (trackClips) =>
+        arrangeClips(
+          trackClips.map((c) => (c.id === clipId ? setClipSpeedKeyframes(c, keyframes) : c)),
+          new Set([clipId]),
+        ),
+      );
+      return syncLinkedClips(allClips, edited, lockedTrackIds, arrangeClips, new Set([clipId]));
+    });
+  }, [tracks, lockedTrackIds, setClips, arrangeClips]);
+
+  // Media library drops. In ripple mode clips sit back to back, so an asset
+  // can only go in at a cut of its track: the one nearest to the pointer.
+  // In overwrite mode it goes wherever it is dropped.
+  const [dropTime, setDropTime] = useState<number | null>(null);
+
+  const getHoveredTrack = (target: EventTarget) => {
+    const trackId = (target as Element)
+      .closest?.("[data-track-id]")
+      ?.getAttribute("data-track-id");
+    return tracks.find((track) => track.id === trackId) ?? null;
+  };
+
+  const getDropTime = (clientX: number, trackId: string | null) => {
+    const container = scrollContainerRef.current;
+    if (!container) return 0;
+
+    const rect = container.getBoundingClientRect();
+    const x = clientX - rect.left + container.scrollLeft - TIMELINE_START_LEFT;
+    const time = Math.max(0, x / timelineZoom);
+    if (editMode === "overwrite") return time;
+
+    const cuts = [
+      0,
+      ...clips
+        .filter((clip) => clip.trackId === trackId)
+        .map((clip) => clip.start + clip.duration),
+    ];
+
+    return cuts.reduce((best, cut) =>
+      Math.abs(cut - time) < Math.abs(best - time) ? cut : best,
+    );
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(MEDIA_ASSET_DRAG_TYPE)) return;
+
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setDropTime(getDropTime(e.clientX, getHoveredTrack(e.target)?.id ?? null));
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setDropTime(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const assetId = e.dataTransfer.getData(MEDIA_ASSET_DRAG_TYPE);
+    setDropTime(null);
+    if (!assetId) return;
+
+    e.preventDefault();
+    const asset = getAsset(assetId);
+    if (!asset) return;
+
+    const sourceDuration =
+      asset.kind === "image"
+        ? DEFAULT_IMAGE_DURATION
+        : (probes[asset.path]?.duration ?? 0);
+    if (sourceDuration <= 0) {
+      console.warn(`Cannot add ${asset.name}: its duration is unknown`);
+      return;
+    }
+
+    // The hovered track if the asset fits there, else the first one it fits
+    // on, else a new track of its own
+    const hovered = getHoveredTrack(e.target);
+    let track = [hovered, ...tracks].find(
+      (candidate) =>
+        candidate && !candidate.isLocked && canPlaceOnTrack(candidate, asset.kind),
+    );
+    if (!track) {
+      const newTrack = createTrack(asset.kind === "audio" ? "audio" : "overlay", tracks);
+      setTracks((prevTracks) => insertTrack(prevTracks, newTrack));
+      track = newTrack;
+    }
+
+    const trackId = track.id;
+    const insertAt = getDropTime(e.clientX, trackId);
+    const newClip: TimelineClip = {
+      id: `clip-${crypto.randomUUID()}`,
+      start: insertAt,
+      duration: sourceDuration,
+      name: asset.name,
+      type: asset.kind,
+      mediaId: asset.id,
+      trackId,
+      originalDuration: sourceDuration,
+      trimStart: 0,
+      trimEnd: 0,
+    };
+
+    setClips((allClips) =>
+      editTrack(allClips, trackId, (prevClips) =>
+        arrangeClips(
+          [
+            ...prevClips.map((clip) =>
+              editMode === "ripple" && clip.start >= insertAt - 0.0001
+                ? { ...clip, start: clip.start + sourceDuration }
+                : clip,
+            ),
+            newClip,
+          ],
+          new Set([newClip.id]),
+        ),
+      ),
+    );
+    setSelectedClipIds(new Set([newClip.id]));
+  };
+
+  // Ripple mode: a dragged clip shows the cut it would be dropped at and goes
+  // in there, the clips after it move along to make room
+  const handleClipReorderDrag = (layerId: string, clipId: string, start: number) => {
+    const trackClips = clips.filter((clip) => clip.trackId === layerId);
+    setDropTime(getReorderSlot(trackClips, clipId, start).time);
+  };
+
+  const handleClipReorder = (layerId: string, clipId: string, start: number, unlinked = false) => {
+    setDropTime(null);
+    setClips((allClips) => {
+      const reordered = editTrack(allClips, layerId, (prevClips) => {
+        const clip = prevClips.find((c) => c.id === clipId);
+        if (!clip) return prevClips;
+
+        const { index, others } = getReorderSlot(prevClips, clipId, start);
+        const ordered = [...others.slice(0, index), clip, ...others.slice(index)];
+        const current = [...prevClips].sort((a, b) => a.start - b.start);
+        if (ordered.every((c, i) => c.id === current[i].id)) return prevClips;
+
+        let time = 0;
+        return ordered.map((c) => {
+          const placed = { ...c, start: time };
+          time += c.duration;
+          return placed;
+        });
+      });
+
+      // Linked clips move along and reorder their own tracks the same way
+      return unlinked
+        ? reordered
+        : syncLinkedClips(allClips, reordered, lockedTrackIds, arrangeClips);
+    });
+  };
+
+  // Link the clips, one per track, so that they are edited together
+  const canLinkClips = (clipIds: Set<string>) => {
+    const linking = clips.filter((clip) => clipIds.has(clip.id));
+    return linking.length > 1 && new Set(linking.map((clip) => clip.trackId)).size === linking.length;
+  };
+
+  const handleLinkClips = (clipIds: Set<string>) => {
+    if (!canLinkClips(clipIds)) return;
+    const linkId = `link-${crypto.randomUUID()}`;
+    setClips((allClips) =>
+      pruneLinks(allClips.map((clip) => (clipIds.has(clip.id) ? { ...clip, linkId } : clip))),
+    );
+  };
+
+  // Unlink every clip linked with `clipId`
+  const handleUnlinkClip = (clipId: string) => {
+    const linkId = clips.find((clip) => clip.id === clipId)?.linkId;
+    if (!linkId) return;
+    setClips((allClips) =>
+      allClips.map((clip) => (clip.linkId === linkId ? withoutLink(clip) : clip)),
+    );
+  };
+
+  const handleAddTrack = (kind: TimelineTrackKind) => {
+    setTracks((prevTracks) => insertTrack(prevTracks, createTrack(kind, prevTracks)));
+  };
+
+  const handleTrackChange = (trackId: string, patch: Partial<TimelineTrack>) => {
+    setTracks((prevTracks) =>
+      prevTracks.map((track) => (track.id === trackId ? { ...track, ...patch } : track)),
+    );
+  };
+
+  // Deleting a track deletes the clips on it
+  const handleDeleteTrack = (trackId: string) => {
+    setTracks((prevTracks) => prevTracks.filter((track) => track.id !== trackId));
+    setClips((prevClips) => prevClips.filter((clip) => clip.trackId !== trackId));
+    setSelectedClipIds((prev) => {
+      const deletedIds = new Set(
+        clips.filter((clip) => clip.trackId === trackId).map((clip) => clip.id),
+      );
+      return new Set([...prev].filter((clipId) => !deletedIds.has(clipId)));
+    });
+  };
+
+  // Move `trackId` to where `targetId` is, pushing the tracks in between along
+  const handleReorderTrack = (trackId: string, targetId: string) => {
+    setTracks((prevTracks) => {
+      const moving = prevTracks.find((track) => track.id === trackId);
+      const targetIndex = prevTracks.findIndex((track) => track.id === targetId);
+      if (!moving || targetIndex === -1) return prevTracks;
+
+      const reordered = prevTracks.filter((track) => track.id !== trackId);
+      reordered.splice(targetIndex, 0, moving);
+      return reordered;
+    });
+  };
+
+  // The main video has to stay on some picture track
+  const videoTrackCount = tracks.filter((track) => track.kind === "video").length;
+
   // Calculate the actual timeline duration based on all clips
   const maxClipEnd = useMemo(() => {
     let max = 0;
@@ -408,18 +1460,26 @@ export default function Timeline() {
   const effectiveDuration = Math.max(duration, maxClipEnd, TIMELINE_MIN_DURATION);
   const totalWidth = (effectiveDuration + TIMELINE_PADDING) * timelineZoom + TIMELINE_START_LEFT;
 
-  // Calculate snap points from all clip edges and playhead
+  // Calculate snap points from the targets snapping is set to
   const snapPoints = useMemo(() => {
     const points = new Set<number>();
     points.add(0); // Timeline start
-    layers.forEach((layer) => {
-      layer.clips.forEach((clip) => {
-        points.add(clip.start);
-        points.add(clip.start + clip.duration);
+    if (snapSettings.clipEdges) {
+      layers.forEach((layer) => {
+        layer.clips.forEach((clip) => {
+          points.add(clip.start);
+          points.add(clip.start + clip.duration);
+        });
       });
-    });
+    }
+    if (snapSettings.playhead) points.add(currentTime);
+    if (snapSettings.markers) markers.forEach((marker) => points.add(marker.time));
+    if (snapSettings.range) {
+      if (inPoint !== null) points.add(inPoint);
+      if (outPoint !== null) points.add(outPoint);
+    }
     return Array.from(points).sort((a, b) => a - b);
-  }, [layers]);
+  }, [layers, markers, currentTime, inPoint, outPoint, snapSettings]);
 
   const handleRulerClick = (e: React.MouseEvent) => {
       // Calculate time from click position
@@ -536,13 +1596,106 @@ export default function Timeline() {
             handleDuplicateSelected();
           }
           break;
-        case "ArrowLeft":
+        case "s":
+        case "S":
+          if (!e.ctrlKey && !e.metaKey && !e.altKey) {
+            e.preventDefault();
+            handleSplitAtPlayhead(e.shiftKey);
+          }
+          break;
+        case "m":
+        case "M":
+          if (e.altKey) break;
+          e.preventDefault();
+          if (e.shiftKey) {
+            // Shift+M jumps to the next marker, Ctrl/Cmd+Shift+M back
+            handleJumpToMarker(e.ctrlKey || e.metaKey ? -1 : 1);
+          } else if (!e.ctrlKey && !e.metaKey) {
+            handleAddMarker();
+          }
+          break;
+        case "i":
+        case "I":
+        case "o":
+        case "O":
+          if (e.ctrlKey || e.metaKey || e.altKey) break;
+          e.preventDefault();
+          {
+            // I/O set the in/out point at the playhead, Shift clears it
+            const setPoint = e.key.toLowerCase() === "i" ? setInPoint : setOutPoint;
+            setPoint(e.shiftKey ? null : getCurrentTime());
+          }
+          break;
+        case "x":
+        case "X":
+          if (e.ctrlKey || e.metaKey) {
+            if (selectedClipIds.size > 0) {
+              e.preventDefault();
+              void handleCutSelected();
+            }
+          } else if (e.shiftKey && !e.altKey) {
+            // Shift+X clears the whole range
+            e.preventDefault();
+            setInPoint(null);
+            setOutPoint(null);
+          }
+          break;
+        case "c":
+        case "C":
+          if ((e.ctrlKey || e.metaKey) && selectedClipIds.size > 0) {
+            e.preventDefault();
+            void copyClips(selectedClipIds);
+          }
+          break;
+        case "v":
+        case "V":
+          // Ctrl/Cmd+Shift+V pastes only the attributes onto the selection
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            void (e.shiftKey ? handlePasteAttributes(selectedClipIds) : handlePaste());
+          }
+          break;
+        case "l":
+        case "L":
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            setIsLooping(!isLooping);
+          } else if (!e.altKey) {
+            e.preventDefault();
+            shuttle(1);
+          }
+          break;
+        case "j":
+        case "J":
+        case "k":
+        case "K":
+          // J/K/L shuttle: reverse, pause, forward
+          if (e.ctrlKey || e.metaKey || e.altKey) break;
           e.preventDefault();
-          step(e.shiftKey ? -1 : -0.1);
+          shuttle(e.key.toLowerCase() === "j" ? -1 : 0);
           break;
+        case "ArrowLeft":
         case "ArrowRight":
+          // One frame, Shift for a second's worth
           e.preventDefault();
-          step(e.shiftKey ? 1 : 0.1);
+          stepFrames(
+            (e.key === "ArrowLeft" ? -1 : 1) *
+              (e.shiftKey ? Math.round(frameRate) : 1),
+          );
+          break;
+        case "ArrowUp":
+        case "ArrowDown":
+          // Previous/next edit
+          e.preventDefault();
+          jumpToEdit(e.key === "ArrowUp" ? -1 : 1);
+          break;
+        case "Home":
+          e.preventDefault();
+          seek(0);
+          break;
+        case "End":
+          e.preventDefault();
+          seek(duration);
           break;
         case "=":
         case "+":
@@ -576,15 +1729,32 @@ export default function Timeline() {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [
     togglePlay,
-    step,
+    stepFrames,
+    jumpToEdit,
+    frameRate,
+    shuttle,
+    seek,
+    duration,
     selectedClipIds,
     handleDeleteSelected,
     handleDuplicateSelected,
+    copyClips,
+    handleCutSelected,
+    handlePaste,
+    handlePasteAttributes,
     timelineZoom,
     handleZoomChange,
     layers,
     scissorMode,
     setScissorMode,
+    handleSplitAtPlayhead,
+    handleAddMarker,
+    handleJumpToMarker,
+    getCurrentTime,
+    setInPoint,
+    setOutPoint,
+    isLooping,
+    setIsLooping,
   ]);
 
   return (
@@ -592,92 +1762,198 @@ export default function Timeline() {
       "flex flex-col h-full w-full bg-background text-foreground select-none",
       scissorMode && "cursor-crosshair"
     )}>
-      {/* Single scroll container for both ruler and tracks */}
-      <div
-        ref={scrollContainerRef}
-        className="flex-1 overflow-auto"
-        style={{ 
-          scrollBehavior: 'auto',
-          willChange: 'scroll-position',
-          contain: 'layout style paint',
-        }}
-        onClick={handleTimelineAreaClick}
-      >
-        <div 
-          className="relative min-h-full flex flex-col space-y-2"
-          style={{ width: totalWidth, minWidth: "100%" }}
+      <div className="flex min-h-0 flex-1">
+        {/* Track headers, scrolled vertically along with the tracks */}
+        <div
+          ref={headersRef}
+          className="shrink-0 overflow-hidden border-r border-white/5"
+          style={{ width: HEADER_WIDTH }}
+          onWheel={(e) => {
+            if (scrollContainerRef.current) {
+              scrollContainerRef.current.scrollTop += e.deltaY;
+            }
+          }}
         >
-          {/* Sticky Ruler */}
-          <div 
-            className={cn(
-              "sticky top-0 z-10",
-              !scissorMode && "cursor-pointer"
-            )}
-            style={{ height: RULER_HEIGHT }}
-            onClick={(e) => {
-              if (scissorMode) return;
-              e.stopPropagation();
-              handleRulerClick(e);
-            }}
-            onMouseMove={(e) => {
-               if (scissorMode) return;
-               handleRulerHover(e);
-            }}
-            onMouseLeave={() => {
-               setPreviewTime(null);
-            }}
-          >
-            <Ruler zoom={timelineZoom} maxDuration={maxClipEnd} />
+          <div className="flex flex-col space-y-2 pb-4">
+            <div
+              className="sticky top-0 z-10 flex items-center gap-1 bg-background px-2"
+              style={{ height: RULER_HEIGHT }}
+            >
+              <AddTrackMenu onAdd={handleAddTrack} />
+              <SilenceMenu
+                open={isSilenceMenuOpen}
+                onOpenChange={handleSilenceMenuOpenChange}
+                settings={silenceSettings}
+                onSettingsChange={setSilenceSettings}
+                silences={silences}
+                onApply={handleRemoveSilences}
+              />
+            </div>
+            <div>
+              {layers.map((layer) => (
+                <TrackHeader
+                  key={layer.id}
+                  track={layer}
+                  canDelete={layer.kind !== "video" || videoTrackCount > 1}
+                  onChange={(patch) => handleTrackChange(layer.id, patch)}
+                  onDelete={() => handleDeleteTrack(layer.id)}
+                  onReorder={(trackId) => handleReorderTrack(trackId, layer.id)}
+                />
+              ))}
+            </div>
           </div>
+        </div>
 
-          {/* Tracks Area - fills remaining height */}
+        {/* Single scroll container for both ruler and tracks */}
+        <div
+          ref={scrollContainerRef}
+          className="flex-1 overflow-auto"
+          style={{ 
+            scrollBehavior: 'auto',
+            willChange: 'scroll-position',
+            contain: 'layout style paint',
+          }}
+          onClick={handleTimelineAreaClick}
+          onScroll={(e) => {
+            if (headersRef.current) {
+              headersRef.current.scrollTop = e.currentTarget.scrollTop;
+            }
+          }}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
           <div 
-            className="relative flex-1"
+            className="relative min-h-full flex flex-col space-y-2"
+            style={{ width: totalWidth, minWidth: "100%" }}
           >
-            {layers.map((layer) => (
-              <Track
-                key={layer.id}
-                layer={layer}
+            {/* Sticky Ruler */}
+            <div 
+              className={cn(
+                "sticky top-0 z-10",
+                !scissorMode && "cursor-pointer"
+              )}
+              style={{ height: RULER_HEIGHT }}
+              onClick={(e) => {
+                if (scissorMode) return;
+                e.stopPropagation();
+                handleRulerClick(e);
+              }}
+              onMouseMove={(e) => {
+                 if (scissorMode) return;
+                 handleRulerHover(e);
+              }}
+              onMouseLeave={() => {
+                 setPreviewTime(null);
+              }}
+            >
+              <Ruler zoom={timelineZoom} maxDuration={maxClipEnd} />
+              <Markers
+                markers={markers}
                 zoom={timelineZoom}
-                onClipUpdate={handleClipUpdate}
-                selectedClipIds={selectedClipIds}
-                onSelectClip={handleSelectClip}
-                snapEnabled={snapEnabled}
-                snapPoints={snapPoints}
-                onContextMenu={handleContextMenu}
-                onDuplicateClip={handleDuplicateClip}
-                onDeleteClip={handleDeleteClip}
-                onSplitClip={handleSplitClip}
-                onClipResize={handleClipResize}
-                // Main video clip options
-                isMovable={false}
-                canExtend={true}
-                canShrink={true}
-                shrinkBehavior="trim"
-                extendBehavior="trim"
-                minDuration={0.1}
-                // Scissor mode
-                scissorMode={scissorMode}
-                onScissorClick={handleScissorClick}
+                onChange={handleMarkerChange}
+                onDelete={handleMarkerDelete}
+                onSeek={seek}
               />
-            ))}
+            </div>
+
+            {/* Tracks Area - fills remaining height */}
+            <div 
+              className="relative flex-1"
+            >
+              {layers.map((layer) => (
+                <Track
+                  key={layer.id}
+                  layer={layer}
+                  zoom={timelineZoom}
+                  onClipUpdate={handleClipUpdate}
+                  selectedClipIds={selectedClipIds}
+                  linkedClipIds={linkedClipIds}
+                  onSelectClip={handleSelectClip}
+                  snapEnabled={snapEnabled}
+                  snapPoints={snapPoints}
+                  onContextMenu={handleContextMenu}
+                  onDuplicateClip={handleDuplicateClip}
+                  onDeleteClip={handleDeleteClip}
+                  onSplitClip={handleSplitClip}
+                  onClipResize={handleClipResize}
+                  onSpeedKeyframesChange={handleSpeedKeyframesChange}
+                  // Every clip moves and trims into its media; in ripple
+                  // mode moves reorder the track instead of leaving gaps
+                  isMovable={true}
+                  onClipReorder={editMode === "ripple" ? handleClipReorder : undefined}
+                  onClipReorderDrag={editMode === "ripple" ? handleClipReorderDrag : undefined}
+                  canExtend={true}
+                  canShrink={true}
+                  shrinkBehavior="trim"
+                  extendBehavior="trim"
+                  minDuration={0.1}
+                  // Scissor mode
+                  scissorMode={scissorMode}
+                  onScissorClick={handleScissorClick}
+                />
+              ))}
             
            
+            </div>
+             {dropTime !== null && (
+               <div
+                 className="pointer-events-none absolute top-0 bottom-0 z-20 w-0.5 bg-primary"
+                 style={{ left: TIMELINE_START_LEFT + dropTime * timelineZoom }}
+               />
+             )}
+             {silences?.map((range) => (
+               <div
+                 key={range.start}
+                 className="pointer-events-none absolute bottom-0 z-20 border-x border-red-500 bg-red-500/25"
+                 style={{
+                   top: RULER_HEIGHT,
+                   left: TIMELINE_START_LEFT + range.start * timelineZoom,
+                   width: (range.end - range.start) * timelineZoom,
+                 }}
+               />
+             ))}
+             <HoverPlayhead zoom={timelineZoom} />
+              <Playhead zoom={timelineZoom} scrollContainerRef={scrollContainerRef} />
           </div>
-           <HoverPlayhead zoom={timelineZoom} />
-            <Playhead zoom={timelineZoom} scrollContainerRef={scrollContainerRef} />
         </div>
       </div>
 
-      {contextMenu && (
+      {contextMenu && contextMenuClip && (
         <ClipContextMenu
           x={contextMenu.x}
           y={contextMenu.y}
           onClose={() => setContextMenu(null)}
           onDuplicate={() => handleDuplicateClip(contextMenu.clipId)}
+          onCopy={() => void copyClips(contextMenuTargetIds)}
+          onPasteAttributes={() => void handlePasteAttributes(contextMenuTargetIds)}
           onDelete={() => handleDeleteClip(contextMenu.clipId)}
           onSplit={() => handleSplitClip(contextMenu.clipId)}
+          speed={contextMenuClip.speed ?? 1}
+          onSpeedChange={(speed) => handleClipSpeedChange(contextMenu.clipId, speed)}
+          canChangeSpeed={contextMenuClip.freezeTime === undefined}
+          volume={getClipVolume(contextMenuClip)}
+          onVolumeChange={(volume) => handleClipVolumeChange(contextMenu.clipId, volume)}
+          canChangeVolume={
+            (contextMenuClip.type === "video" || contextMenuClip.type === "audio") &&
+            contextMenuClip.freezeTime === undefined
+          }
+          onFreezeFrame={(freezeDuration) => handleFreezeFrame(contextMenu.clipId, freezeDuration)}
+          canFreezeFrame={
+            contextMenuClip.type === "video" &&
+            getCurrentTime() >= contextMenuClip.start &&
+            getCurrentTime() <= contextMenuClip.start + contextMenuClip.duration
+          }
+          canDuplicate
+          canSplit={
+            !lockedTrackIds.has(contextMenuClip.trackId) &&
+            canSplitAt(contextMenuClip, getCurrentTime())
+          }
           canDelete={clips.length > 1}
+          onLink={() => handleLinkClips(new Set([...selectedClipIds, contextMenu.clipId]))}
+          onUnlink={() => handleUnlinkClip(contextMenu.clipId)}
+          canLink={canLinkClips(new Set([...selectedClipIds, contextMenu.clipId]))}
+          isLinked={linkedClipIds.has(contextMenu.clipId)}
         />
       )}
     </div>
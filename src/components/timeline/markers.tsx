@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import * as DropdownMenuPrimitive from "@radix-ui/react-dropdown-menu";
+import { HugeiconsIcon } from "@hugeicons/react";
+import { Delete01Icon, PencilEdit01Icon } from "@hugeicons/core-free-icons";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { MARKER_COLORS } from "@/lib/timeline";
+import { cn } from "@/lib/utils";
+import type { TimelineMarker } from "./types";
+import { RULER_HEIGHT, TIMELINE_START_LEFT } from "./constants";
+
+// Pixels the pointer has to travel before a press on a marker becomes a drag
+const DRAG_THRESHOLD = 3;
+
+interface MarkersProps {
+  markers: TimelineMarker[];
+  zoom: number;
+  onChange: (markerId: string, patch: Partial<TimelineMarker>) => void;
+  onDelete: (markerId: string) => void;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Marker flags drawn over the ruler. Clicking one jumps to it, dragging
+ * moves it, double-clicking renames it and right-clicking opens a menu
+ * with its color and delete.
+ */
+export default function Markers({
+  markers,
+  zoom,
+  onChange,
+  onDelete,
+  onSeek,
+}: MarkersProps) {
+  const [dragging, setDragging] = useState<{
+    markerId: string;
+    startX: number;
+    startTime: number;
+    moved: boolean;
+  } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [menu, setMenu] = useState<{
+    markerId: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const dx = e.clientX - dragging.startX;
+      if (!dragging.moved && Math.abs(dx) < DRAG_THRESHOLD) return;
+
+      if (!dragging.moved) setDragging({ ...dragging, moved: true });
+      onChange(dragging.markerId, {
+        time: Math.max(0, dragging.startTime + dx / zoom),
+      });
+    };
+    const handleMouseUp = () => {
+      if (!dragging.moved) onSeek(dragging.startTime);
+      setDragging(null);
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragging, zoom, onChange, onSeek]);
+
+  const menuMarker = menu
+    ? markers.find((marker) => marker.id === menu.markerId)
+    : undefined;
+
+  return (
+    <>
+      {markers.map((marker) => (
+        <div
+          key={marker.id}
+          className="absolute top-0 z-10 flex items-start"
+          style={{
+            left: TIMELINE_START_LEFT + marker.time * zoom,
+            height: RULER_HEIGHT,
+          }}
+          // The ruler seeks on click, markers handle their own
+          onClick={(e) => e.stopPropagation()}
+          onMouseMove={(e) => e.stopPropagation()}
+        >
+          <div
+            className="absolute top-0 bottom-0 left-0 w-0.5 -translate-x-1/2"
+            style={{ backgroundColor: marker.color }}
+          />
+          {editingId === marker.id ? (
+            <input
+              autoFocus
+              defaultValue={marker.name}
+              className="relative ml-0.5 h-4 w-28 rounded-sm bg-neutral-900 px-1 text-[10px] text-white outline-none ring-1 ring-white/30"
+              onFocus={(e) => e.currentTarget.select()}
+              onMouseDown={(e) => e.stopPropagation()}
+              onBlur={(e) => {
+                const name = e.currentTarget.value.trim();
+                if (name && name !== marker.name) {
+                  onChange(marker.id, { name });
+                }
+                setEditingId(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+                if (e.key === "Escape") setEditingId(null);
+              }}
+            />
+          ) : (
+            <div
+              title={marker.name}
+              className={cn(
+                "relative max-w-28 truncate rounded-r-sm px-1 text-[10px] leading-4 font-medium text-white",
+                dragging?.markerId === marker.id && dragging.moved
+                  ? "cursor-grabbing"
+                  : "cursor-grab",
+              )}
+              style={{ backgroundColor: marker.color }}
+              onMouseDown={(e) => {
+                if (e.button !== 0) return;
+                e.stopPropagation();
+                setDragging({
+                  markerId: marker.id,
+                  startX: e.clientX,
+                  startTime: marker.time,
+                  moved: false,
+                });
+              }}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                setEditingId(marker.id);
+              }}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setMenu({ markerId: marker.id, x: e.clientX, y: e.clientY });
+              }}
+            >
+              {marker.name}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {menu && menuMarker && (
+        <DropdownMenu open onOpenChange={(open) => !open && setMenu(null)}>
+          <DropdownMenuPrimitive.Trigger
+            className="pointer-events-none fixed h-0 w-0"
+            style={{ left: menu.x, top: menu.y }}
+          />
+          <DropdownMenuContent
+            side="right"
+            align="start"
+            sideOffset={0}
+            className="min-w-[160px]"
+            // Keep focus on the rename field instead of the hidden trigger
+            onCloseAutoFocus={(e) => e.preventDefault()}
+          >
+            <DropdownMenuItem onClick={() => setEditingId(menuMarker.id)}>
+              <HugeiconsIcon icon={PencilEdit01Icon} className="size-4" />
+              <span>Rename</span>
+            </DropdownMenuItem>
+            <div className="flex gap-1.5 px-2 py-1.5">
+              {MARKER_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={`Marker color ${color}`}
+                  className={cn(
+                    "size-4 rounded-full ring-offset-1 ring-offset-popover",
+                    menuMarker.color === color && "ring-2 ring-white",
+                  )}
+                  style={{ backgroundColor: color }}
+                  onClick={() => {
+                    onChange(menuMarker.id, { color });
+                    setMenu(null);
+                  }}
+                />
+              ))}
+            </div>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              variant="destructive"
+              onClick={() => onDelete(menuMarker.id)}
+            >
+              <HugeiconsIcon icon={Delete01Icon} className="size-4" />
+              <span>Delete</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </>
+  );
+}
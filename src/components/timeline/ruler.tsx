@@ -115,7 +115,7 @@ export default function Ruler({
   scaleWidth: scaleWidthOverride,
   startLeft = DEFAULT_START_LEFT,
 }: RulerProps) {
-  const { duration } = usePlayback();
+  const { duration, inPoint, outPoint } = usePlayback();
 
   // Ensure we have at least some duration to show
   const displayDuration = Math.max(duration, maxDuration || 0, TIMELINE_MIN_DURATION);
@@ -195,11 +195,29 @@ export default function Ruler({
     return items;
   }, [displayDuration, effectiveZoom, scale, minorInterval, startLeft, format]);
 
+  // In/out range, an open end runs to the start or end of the timeline
+  const hasRange = inPoint !== null || outPoint !== null;
+  const rangeLeft = startLeft + (inPoint ?? 0) * effectiveZoom;
+  const rangeRight = startLeft + (outPoint ?? Math.max(duration, inPoint ?? 0)) * effectiveZoom;
+
   return (
     <div
       className="relative h-full"
       style={{ height: RULER_HEIGHT, width: width, minWidth: "100%" }}
     >
+      {hasRange && (
+        <div
+          className="absolute inset-y-0 bg-sky-400/15 pointer-events-none"
+          style={{ left: rangeLeft, width: Math.max(0, rangeRight - rangeLeft) }}
+        >
+          {inPoint !== null && (
+            <div className="absolute inset-y-0 left-0 w-1 border-l-2 border-y-2 border-sky-400" />
+          )}
+          {outPoint !== null && (
+            <div className="absolute inset-y-0 right-0 w-1 border-r-2 border-y-2 border-sky-400" />
+          )}
+        </div>
+      )}
       {ticks}
     </div>
   );
@@ -0,0 +1,128 @@
+import { HugeiconsIcon } from "@hugeicons/react";
+import { AudioWave01Icon } from "@hugeicons/core-free-icons";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { SilenceSettings, TimeRange } from "@/lib/silence";
+
+const SILENCE_CONTROLS: {
+  key: keyof SilenceSettings;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: "thresholdDb",
+    label: "Threshold",
+    min: -60,
+    max: -10,
+    step: 1,
+    format: (value) => `${value} dB`,
+  },
+  {
+    key: "minDuration",
+    label: "Minimum length",
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+    format: (value) => `${value.toFixed(1)} s`,
+  },
+  {
+    key: "padding",
+    label: "Padding",
+    min: 0,
+    max: 1,
+    step: 0.05,
+    format: (value) => `${value.toFixed(2)} s`,
+  },
+];
+
+/**
+ * Finds the silent stretches of the timeline. While open, the cuts it
+ * proposes are highlighted on the tracks; `silences` is null until the
+ * audio has been analyzed.
+ */
+export function SilenceMenu({
+  open,
+  onOpenChange,
+  settings,
+  onSettingsChange,
+  silences,
+  onApply,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: SilenceSettings;
+  onSettingsChange: (settings: SilenceSettings) => void;
+  silences: TimeRange[] | null;
+  onApply: () => void;
+}) {
+  const total =
+    silences?.reduce((sum, range) => sum + range.end - range.start, 0) ?? 0;
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="icon" aria-label="Remove silence">
+              <HugeiconsIcon icon={AudioWave01Icon} />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Remove silence</TooltipContent>
+      </Tooltip>
+      <PopoverContent align="start" className="flex flex-col gap-3 py-3">
+        <div className="text-sm font-medium">Remove silence</div>
+        {SILENCE_CONTROLS.map(({ key, label, min, max, step, format }) => (
+          <div key={key} className="flex flex-col gap-2">
+            <div className="flex justify-between text-xs">
+              <span>{label}</span>
+              <span className="text-muted-foreground tabular-nums">
+                {format(settings[key])}
+              </span>
+            </div>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[settings[key]]}
+              onValueChange={([value]) => {
+                if (typeof value === "number") {
+                  onSettingsChange({ ...settings, [key]: value });
+                }
+              }}
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {silences === null
+              ? "Analyzing audio…"
+              : silences.length === 0
+                ? "No silence found"
+                : `${silences.length} ${silences.length === 1 ? "cut" : "cuts"}, ${total.toFixed(1)} s`}
+          </span>
+          <Button
+            size="sm"
+            disabled={!silences || silences.length === 0}
+            onClick={onApply}
+          >
+            Remove
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import type { SpeedKeyframe, TimelineClip } from "./types";
+import { MAX_CLIP_SPEED, MIN_CLIP_SPEED } from "@/lib/timeline";
+import {
+  getSourceTimeAfter,
+  getSpeedAt,
+  getSpeedKeyframes,
+  getTimelineSpan,
+} from "@/lib/speed-ramp";
+
+const LANE_HEIGHT = 18;
+const SAMPLE_SPACING = 4; // pixels between curve samples
+
+// Speeds sit on a log scale, so 0.5x is as far below 1x as 2x is above
+const MIN_LOG_SPEED = Math.log2(MIN_CLIP_SPEED);
+const LOG_SPEED_RANGE = Math.log2(MAX_CLIP_SPEED) - MIN_LOG_SPEED;
+
+const speedToY = (speed: number) =>
+  LANE_HEIGHT -
+  ((Math.log2(speed) - MIN_LOG_SPEED) / LOG_SPEED_RANGE) * LANE_HEIGHT;
+
+const yToSpeed = (y: number) => {
+  const ratio = Math.min(1, Math.max(0, 1 - y / LANE_HEIGHT));
+  return Number((2 ** (MIN_LOG_SPEED + ratio * LOG_SPEED_RANGE)).toFixed(2));
+};
+
+interface SpeedLaneProps {
+  clip: TimelineClip;
+  zoom: number;
+  /** Width of the clip in pixels */
+  width: number;
+  isLocked?: boolean;
+  onChange: (keyframes: SpeedKeyframe[]) => void;
+}
+
+/**
+ * Speed curve along the bottom of a clip. Double-click adds a keyframe,
+ * dragging one up or down changes its speed and double-clicking it again
+ * removes it.
+ */
+export default function SpeedLane({
+  clip,
+  zoom,
+  width,
+  isLocked = false,
+  onChange,
+}: SpeedLaneProps) {
+  const [dragging, setDragging] = useState<{
+    sourceTime: number;
+    top: number;
+  } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const trimStart = clip.trimStart ?? 0;
+  const keyframes = getSpeedKeyframes(clip);
+
+  const points: string[] = [];
+  for (let x = 0; x <= width; x += SAMPLE_SPACING) {
+    const sourceTime = getSourceTimeAfter(clip, trimStart, x / zoom);
+    points.push(`${x},${speedToY(getSpeedAt(clip, sourceTime)).toFixed(1)}`);
+  }
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const speed = yToSpeed(e.clientY - dragging.top);
+      onChange(
+        keyframes.map((keyframe) =>
+          keyframe.sourceTime === dragging.sourceTime
+            ? { ...keyframe, speed }
+            : keyframe,
+        ),
+      );
+    };
+    const handleMouseUp = () => setDragging(null);
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragging, keyframes, onChange]);
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    e.stopPropagation();
+    if (isLocked) return;
+
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    const sourceTime = getSourceTimeAfter(clip, trimStart, x / zoom);
+    onChange([
+      ...keyframes,
+      { sourceTime, speed: getSpeedAt(clip, sourceTime) },
+    ]);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-x-0 bottom-0 z-20 bg-black/30"
+      width={width}
+      height={LANE_HEIGHT}
+      onMouseDown={(e) => e.stopPropagation()}
+      onDoubleClick={handleDoubleClick}
+    >
+      <line
+        x1={0}
+        x2={width}
+        y1={speedToY(1)}
+        y2={speedToY(1)}
+        className="stroke-white/20"
+        strokeDasharray="2 3"
+      />
+      <polyline
+        points={points.join(" ")}
+        fill="none"
+        className="stroke-sky-400"
+        strokeWidth={1.5}
+      />
+      {keyframes.map((keyframe) => {
+        const x = getTimelineSpan(clip, trimStart, keyframe.sourceTime) * zoom;
+        if (x < 0 || x > width) return null;
+
+        return (
+          <circle
+            key={keyframe.sourceTime}
+            cx={x}
+            cy={speedToY(keyframe.speed)}
+            r={4}
+            className={
+              isLocked
+                ? "fill-sky-400"
+                : "cursor-ns-resize fill-sky-400 stroke-white hover:fill-white"
+            }
+            onMouseDown={(e) => {
+              e.stopPropagation();
+              if (isLocked) return;
+              setDragging({
+                sourceTime: keyframe.sourceTime,
+                top: svgRef.current?.getBoundingClientRect().top ?? e.clientY,
+              });
+            }}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              if (isLocked) return;
+              onChange(
+                keyframes.filter((k) => k.sourceTime !== keyframe.sourceTime),
+              );
+            }}
+          >
+            <title>{`${keyframe.speed}x`}</title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+}
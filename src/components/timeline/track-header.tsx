@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { HugeiconsIcon } from "@hugeicons/react";
+import {
+  Add01Icon,
+  Delete02Icon,
+  DragDropVerticalIcon,
+  HeadphonesIcon,
+  Layers01Icon,
+  MusicNote01Icon,
+  SquareLock02Icon,
+  SquareUnlock02Icon,
+  Video01Icon,
+  ViewIcon,
+  ViewOffSlashIcon,
+  VolumeHighIcon,
+  VolumeOffIcon,
+} from "@hugeicons/core-free-icons";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import type { TimelineTrack, TimelineTrackKind } from "./types";
+import { TRACK_HEIGHT } from "./constants";
+
+/** Drag data type of a track header being reordered */
+const TRACK_DRAG_TYPE = "application/x-openscreen-track";
+
+const TRACK_ICONS: Record<TimelineTrackKind, typeof Video01Icon> = {
+  video: Video01Icon,
+  overlay: Layers01Icon,
+  audio: MusicNote01Icon,
+  effect: Layers01Icon,
+};
+
+type TrackToggleProps = {
+  label: string;
+  icon: typeof Video01Icon;
+  active: boolean;
+  onToggle: () => void;
+};
+
+function TrackToggle({ label, icon, active, onToggle }: TrackToggleProps) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          aria-label={label}
+          aria-pressed={active}
+          onClick={onToggle}
+          className={cn(
+            "flex size-6 cursor-pointer items-center justify-center rounded text-muted-foreground hover:bg-accent hover:text-foreground",
+            active && "bg-accent text-foreground",
+          )}
+        >
+          <HugeiconsIcon icon={icon} className="size-4" />
+        </button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>{label}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+type TrackHeaderProps = {
+  track: TimelineTrack;
+  canDelete: boolean;
+  onChange: (patch: Partial<TimelineTrack>) => void;
+  onDelete: () => void;
+  /** Move the dragged track `trackId` to where this one is */
+  onReorder: (trackId: string) => void;
+};
+
+export default function TrackHeader({
+  track,
+  canDelete,
+  onChange,
+  onDelete,
+  onReorder,
+}: TrackHeaderProps) {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-1 border-b border-white/5 pr-2",
+        isDropTarget && "bg-accent",
+        !track.isVisible && "opacity-60",
+      )}
+      style={{
+        height: TRACK_HEIGHT,
+        boxShadow: `inset 3px 0 0 ${track.accentColor ?? "transparent"}`,
+      }}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(TRACK_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setIsDropTarget(true);
+      }}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={(e) => {
+        setIsDropTarget(false);
+        const trackId = e.dataTransfer.getData(TRACK_DRAG_TYPE);
+        if (trackId && trackId !== track.id) {
+          e.preventDefault();
+          onReorder(trackId);
+        }
+      }}
+    >
+      <span
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData(TRACK_DRAG_TYPE, track.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        className="flex h-full cursor-grab items-center pl-1 text-muted-foreground"
+        aria-label="Drag to reorder"
+      >
+        <HugeiconsIcon icon={DragDropVerticalIcon} className="size-4" />
+      </span>
+      <HugeiconsIcon
+        icon={TRACK_ICONS[track.kind]}
+        className="size-4 shrink-0 text-muted-foreground"
+      />
+      <span className="min-w-0 flex-1 truncate text-xs">{track.name}</span>
+      <TrackToggle
+        label={track.isLocked ? "Unlock track" : "Lock track"}
+        icon={track.isLocked ? SquareLock02Icon : SquareUnlock02Icon}
+        active={track.isLocked}
+        onToggle={() => onChange({ isLocked: !track.isLocked })}
+      />
+      <TrackToggle
+        label={track.isVisible ? "Hide track" : "Show track"}
+        icon={track.isVisible ? ViewIcon : ViewOffSlashIcon}
+        active={!track.isVisible}
+        onToggle={() => onChange({ isVisible: !track.isVisible })}
+      />
+      <TrackToggle
+        label={track.isMuted ? "Unmute track" : "Mute track"}
+        icon={track.isMuted ? VolumeOffIcon : VolumeHighIcon}
+        active={track.isMuted}
+        onToggle={() => onChange({ isMuted: !track.isMuted })}
+      />
+      <TrackToggle
+        label={track.isSolo ? "Unsolo track" : "Solo track"}
+        icon={HeadphonesIcon}
+        active={track.isSolo}
+        onToggle={() => onChange({ isSolo: !track.isSolo })}
+      />
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button
+            type="button"
+            aria-label="Delete track"
+            disabled={!canDelete}
+            onClick={onDelete}
+            className="flex size-6 cursor-pointer items-center justify-center rounded text-muted-foreground opacity-0 group-hover:opacity-100 hover:bg-accent hover:text-destructive disabled:pointer-events-none disabled:opacity-0"
+          >
+            <HugeiconsIcon icon={Delete02Icon} className="size-4" />
+          </button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Delete track</p>
+        </TooltipContent>
+      </Tooltip>
+    </div>
+  );
+}
+
+const NEW_TRACK_KINDS: { kind: TimelineTrackKind; label: string }[] = [
+  { kind: "video", label: "Video track" },
+  { kind: "overlay", label: "Overlay track" },
+  { kind: "audio", label: "Audio track" },
+];
+
+export function AddTrackMenu({
+  onAdd,
+}: {
+  onAdd: (kind: TimelineTrackKind) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <HugeiconsIcon icon={Add01Icon} />
+          Add track
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="min-w-[160px]">
+        {NEW_TRACK_KINDS.map(({ kind, label }) => (
+          <DropdownMenuItem key={kind} onClick={() => onAdd(kind)}>
+            <HugeiconsIcon icon={TRACK_ICONS[kind]} className="size-4" />
+            <span>{label}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,4 +1,4 @@
-import type { TimelineLayer } from "./types";
+import type { SpeedKeyframe, TimelineLayer } from "./types";
 import Clip, { type ClipProps, type ResizeBehavior } from "./clip";
 import { TRACK_HEIGHT } from "./constants";
 
@@ -11,9 +11,12 @@ interface TrackProps {
     newStart: number,
     newDuration?: number,
     trimStart?: number,
-    trimEnd?: number
+    trimEnd?: number,
+    unlinked?: boolean
   ) => void;
   selectedClipIds: Set<string>;
+  /** Clips linked to others, shown with a link badge */
+  linkedClipIds: Set<string>;
   onSelectClip: (clipId: string, multiSelect?: boolean) => void;
   snapEnabled: boolean;
   snapPoints: number[];
@@ -21,6 +24,14 @@ interface TrackProps {
   onDuplicateClip?: (clipId: string) => void;
   onDeleteClip?: (clipId: string) => void;
   onSplitClip?: (clipId: string) => void;
+  /** Ripple mode: dragging a clip puts it between two others */
+  onClipReorder?: (
+    layerId: string,
+    clipId: string,
+    start: number,
+    unlinked?: boolean
+  ) => void;
+  onClipReorderDrag?: (layerId: string, clipId: string, start: number) => void;
   
   // Clip behavior options (applied to all clips in the track)
   /** Whether clips can be moved/dragged */
@@ -50,6 +61,8 @@ interface TrackProps {
   scissorMode?: boolean;
   onScissorClick?: (clipId: string, splitTime: number) => void;
   
+  onSpeedKeyframesChange?: (clipId: string, keyframes: SpeedKeyframe[]) => void;
+  
   // Real-time resize
   onClipResize?: (
     layerId: string,
@@ -57,7 +70,8 @@ interface TrackProps {
     newStart: number,
     newDuration: number,
     trimStart: number,
-    trimEnd: number
+    trimEnd: number,
+    unlinked?: boolean
   ) => void;
 }
 
@@ -66,10 +80,13 @@ export default function Track({
   zoom,
   onClipUpdate,
   selectedClipIds,
+  linkedClipIds,
   onSelectClip,
   snapEnabled,
   snapPoints,
   onContextMenu,
+  onClipReorder,
+  onClipReorderDrag,
   // Clip behavior options
   isMovable,
   canExtend,
@@ -86,9 +103,11 @@ export default function Track({
   scissorMode,
   onScissorClick,
   onClipResize,
+  onSpeedKeyframesChange,
 }: TrackProps) {
   return (
     <div
+      data-track-id={layer.id}
       className="relative border-b border-white/5"
       style={{
         height: TRACK_HEIGHT,
@@ -102,16 +121,26 @@ export default function Track({
           clip={clip}
           zoom={zoom}
           isSelected={selectedClipIds.has(clip.id)}
+          isLinked={linkedClipIds.has(clip.id)}
           isLocked={layer.isLocked}
           snapEnabled={snapEnabled}
           snapPoints={snapPoints}
           onSelect={onSelectClip}
           onContextMenu={onContextMenu}
-          onUpdate={(clipId, newStart, newDuration, trimStart, trimEnd) =>
-            onClipUpdate(layer.id, clipId, newStart, newDuration, trimStart, trimEnd)
+          onUpdate={(clipId, newStart, newDuration, trimStart, trimEnd, unlinked) =>
+            onClipUpdate(layer.id, clipId, newStart, newDuration, trimStart, trimEnd, unlinked)
+          }
+          onResize={(clipId, newStart, newDuration, trimStart, trimEnd, unlinked) => 
+            onClipResize?.(layer.id, clipId, newStart, newDuration, trimStart, trimEnd, unlinked)
+          }
+          onReorder={
+            onClipReorder &&
+            ((clipId, start, unlinked) =>
+              onClipReorder(layer.id, clipId, start, unlinked))
           }
-          onResize={(clipId, newStart, newDuration, trimStart, trimEnd) => 
-            onClipResize?.(layer.id, clipId, newStart, newDuration, trimStart, trimEnd)
+          onReorderDrag={
+            onClipReorderDrag &&
+            ((clipId, start) => onClipReorderDrag(layer.id, clipId, start))
           }
           // Pass through clip behavior options
           isMovable={isMovable}
@@ -128,6 +157,7 @@ export default function Track({
           // Scissor mode
           scissorMode={scissorMode}
           onScissorClick={onScissorClick}
+          onSpeedKeyframesChange={onSpeedKeyframesChange}
         />
       ))}
     </div>
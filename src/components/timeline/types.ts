@@ -2,6 +2,24 @@ export type TimelineClipType = "video" | "audio" | "image" | "text" | "effect";
 
 export type ResizeMode = "start" | "end" | null;
 
+/**
+ * How edits treat the rest of a track:
+ * - "ripple": clips stay back to back, later clips shift to close gaps
+ * - "overwrite": clips stay where they are, gaps are allowed and a clip
+ *   placed over others replaces what it covers
+ */
+export type TimelineEditMode = "ripple" | "overwrite";
+
+/** Whether dragged and trimmed clip edges snap, and what they snap to */
+export interface SnapSettings {
+  enabled: boolean;
+  clipEdges: boolean;
+  playhead: boolean;
+  markers: boolean;
+  /** The in and out points */
+  range: boolean;
+}
+
 export interface TimelineClip {
   id: string;
   start: number; // Start time in seconds
@@ -9,23 +27,51 @@ export interface TimelineClip {
   name: string;
   color?: string;
   type: TimelineClipType;
-  waveform?: number[]; // Normalized 0-1 samples for visual preview
+  mediaId: string; // Media library asset the clip is cut from
+  trackId: string; // Track the clip sits on
   speed?: number;
+  speedKeyframes?: SpeedKeyframe[]; // Speed ramp, overrides speed
+  freezeTime?: number; // Source time held for the whole clip (freeze frame)
   muted?: boolean;
+  volume?: number; // Gain of the clip's sound, 0-1, full when unset
+  linkId?: string; // Clips sharing one are edited together (picture and sound)
   metadata?: string;
   originalDuration?: number; // For trimming calculations
   trimStart?: number; // Trim offset from start
   trimEnd?: number; // Trim offset from end
 }
 
-export interface TimelineLayer {
+/** Speed a ramped clip plays at when it reaches `sourceTime` */
+export interface SpeedKeyframe {
+  sourceTime: number; // Seconds into the clip's media
+  speed: number;
+}
+
+export type TimelineTrackKind = "video" | "audio" | "overlay" | "effect";
+
+export interface TimelineTrack {
   id: string;
   name: string;
-  clips: TimelineClip[];
   isVisible: boolean;
   isLocked: boolean;
+  isMuted: boolean;
+  /** While any track is soloed, only soloed tracks are heard */
+  isSolo: boolean;
   accentColor?: string;
-  kind?: "video" | "audio" | "overlay" | "effect";
+  kind: TimelineTrackKind;
+}
+
+/** Named point on the timeline, exported as a chapter */
+export interface TimelineMarker {
+  id: string;
+  time: number; // Timeline seconds
+  name: string;
+  color: string;
+}
+
+/** A track together with the clips on it, as the timeline draws it */
+export interface TimelineLayer extends TimelineTrack {
+  clips: TimelineClip[];
 }
 
 export interface TimelineState {
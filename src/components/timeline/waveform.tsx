@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { useWaveform } from "@/hooks/use-waveform";
+import type { WaveformLevel } from "@/lib/waveform";
+
+/** CSS pixels per canvas; long clips are split so no canvas gets huge */
+const TILE_WIDTH = 512;
+
+interface WaveformTileProps {
+  level: WaveformLevel;
+  /** Source seconds at the tile's left and right edge */
+  sourceStart: number;
+  sourceEnd: number;
+  left: number;
+  width: number;
+}
+
+/** Canvas that only holds pixels while it is (nearly) on screen */
+function WaveformTile({
+  level,
+  sourceStart,
+  sourceEnd,
+  left,
+  width,
+}: WaveformTileProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsVisible(entry.isIntersecting),
+      { rootMargin: `0px ${TILE_WIDTH}px` },
+    );
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    if (!isVisible) {
+      canvas.width = 0;
+      canvas.height = 0;
+      return;
+    }
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.round(width * ratio));
+    canvas.height = Math.max(1, Math.round(canvas.clientHeight * ratio));
+
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    const { peaks, peaksPerSecond } = level;
+    const secondsPerColumn = (sourceEnd - sourceStart) / canvas.width;
+    context.fillStyle = "rgba(255, 255, 255, 0.75)";
+
+    for (let column = 0; column < canvas.width; column++) {
+      const from = Math.floor(
+        (sourceStart + column * secondsPerColumn) * peaksPerSecond,
+      );
+      const to = Math.max(
+        from + 1,
+        Math.floor(
+          (sourceStart + (column + 1) * secondsPerColumn) * peaksPerSecond,
+        ),
+      );
+
+      let peak = 0;
+      for (let index = Math.max(0, from); index < to; index++) {
+        if (peaks[index] > peak) peak = peaks[index];
+      }
+
+      // Mirrored around the middle, with a hairline for silence
+      const height = Math.max(ratio, (peak / 255) * canvas.height);
+      context.fillRect(column, (canvas.height - height) / 2, 1, height);
+    }
+  }, [isVisible, level, sourceStart, sourceEnd, width]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-y-0 h-full"
+      style={{ left, width }}
+    />
+  );
+}
+
+interface WaveformProps {
+  /** Asset the clip is cut from */
+  filePath: string | null;
+  /** Source seconds cut off the start of the clip */
+  trimStart: number;
+  /** Timeline seconds the clip occupies */
+  duration: number;
+  speed: number;
+  zoom: number;
+}
+
+/**
+ * Audio peaks of the source inside the clip's trim window, at the
+ * resolution of the current zoom, so cuts can land between words.
+ */
+export default function Waveform({
+  filePath,
+  trimStart,
+  duration,
+  speed,
+  zoom,
+}: WaveformProps) {
+  const pixelsPerSourceSecond = zoom / speed;
+  const level = useWaveform(filePath, pixelsPerSourceSecond);
+
+  if (!level) {
+    return null;
+  }
+
+  const totalWidth = duration * zoom;
+  const tiles = [];
+  for (
+    let left = 0, index = 0;
+    left < totalWidth;
+    left += TILE_WIDTH, index++
+  ) {
+    const width = Math.min(TILE_WIDTH, totalWidth - left);
+    tiles.push(
+      <WaveformTile
+        key={index}
+        level={level}
+        sourceStart={trimStart + left / pixelsPerSourceSecond}
+        sourceEnd={trimStart + (left + width) / pixelsPerSourceSecond}
+        left={left}
+        width={width}
+      />,
+    );
+  }
+
+  return (
+    <div className="pointer-events-none absolute inset-x-0 bottom-0 h-1/2 overflow-hidden opacity-60">
+      {tiles}
+    </div>
+  );
+}
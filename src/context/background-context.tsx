@@ -1,4 +1,11 @@
-import { createContext, useContext, useState, type ReactNode } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
 
 // Gradient types
 export type GradientType = "linear" | "radial" | "conic";
@@ -14,7 +21,7 @@ export interface GradientSettings {
   stops: GradientStop[];
 }
 
-interface BackgroundState {
+export interface BackgroundSettings {
   enabled: boolean;
   wallpaperUrl: string;
   blurStrength: number;
@@ -27,9 +34,15 @@ interface BackgroundState {
   backgroundColor: string;
   backgroundMode: "wallpaper" | "color" | "gradient" | "image";
   gradientSettings: GradientSettings;
+  /** Fill for timeline gaps, null to show just the background there */
+  gapColor: string | null;
 }
 
-interface BackgroundContextValue extends BackgroundState {
+interface BackgroundContextValue extends BackgroundSettings {
+  /** Snapshot of every setting, stable until one of them changes */
+  settings: BackgroundSettings;
+  /** Replace every setting at once (project load, undo/redo) */
+  applySettings: (settings: BackgroundSettings) => void;
   setEnabled: (enabled: boolean) => void;
   setWallpaperUrl: (url: string) => void;
   setBlurStrength: (strength: number) => void;
@@ -44,6 +57,7 @@ interface BackgroundContextValue extends BackgroundState {
     mode: "wallpaper" | "color" | "gradient" | "image",
   ) => void;
   setGradientSettings: (settings: GradientSettings) => void;
+  setGapColor: (color: string | null) => void;
 }
 export const BACKGROUND_BLUR_VALUE = 0;
 export const BACKGROUND_PADDING_VALUE = 8;
@@ -52,6 +66,7 @@ export const VIDEO_SHADOW_VALUE = 30;
 export const VIDEO_BORDER_VALUE = 0;
 export const VIDEO_BORDER_COLOR_VALUE = "#ffffff";
 export const BACKGROUND_GRAIN_VALUE = 0;
+export const GAP_COLOR_VALUE = "#000000";
 
 // Default gradient settings
 export const DEFAULT_GRADIENT_SETTINGS: GradientSettings = {
@@ -96,8 +111,61 @@ export function BackgroundProvider({ children }: { children: ReactNode }) {
   const [gradientSettings, setGradientSettings] = useState<GradientSettings>(
     DEFAULT_GRADIENT_SETTINGS,
   );
+  // Gap fill: off by default, gaps show the background
+  const [gapColor, setGapColor] = useState<string | null>(null);
+
+  const settings = useMemo<BackgroundSettings>(
+    () => ({
+      enabled,
+      wallpaperUrl,
+      blurStrength,
+      padding,
+      videoBorderRadius,
+      videoShadow,
+      videoBorder,
+      videoBorderColor,
+      grainStrength,
+      backgroundColor,
+      backgroundMode,
+      gradientSettings,
+      gapColor,
+    }),
+    [
+      enabled,
+      wallpaperUrl,
+      blurStrength,
+      padding,
+      videoBorderRadius,
+      videoShadow,
+      videoBorder,
+      videoBorderColor,
+      grainStrength,
+      backgroundColor,
+      backgroundMode,
+      gradientSettings,
+      gapColor,
+    ],
+  );
+
+  const applySettings = useCallback((next: BackgroundSettings) => {
+    setEnabled(next.enabled);
+    setWallpaperUrl(next.wallpaperUrl);
+    setBlurStrength(next.blurStrength);
+    setPadding(next.padding);
+    setVideoBorderRadius(next.videoBorderRadius);
+    setVideoShadow(next.videoShadow);
+    setVideoBorder(next.videoBorder);
+    setVideoBorderColor(next.videoBorderColor);
+    setGrainStrength(next.grainStrength);
+    setBackgroundColor(next.backgroundColor);
+    setBackgroundMode(next.backgroundMode);
+    setGradientSettings(next.gradientSettings);
+    setGapColor(next.gapColor);
+  }, []);
 
   const value: BackgroundContextValue = {
+    settings,
+    applySettings,
     enabled,
     wallpaperUrl,
     blurStrength,
@@ -110,6 +178,7 @@ export function BackgroundProvider({ children }: { children: ReactNode }) {
     backgroundColor,
     backgroundMode,
     gradientSettings,
+    gapColor,
     setEnabled,
     setWallpaperUrl,
     setBlurStrength,
@@ -122,6 +191,7 @@ export function BackgroundProvider({ children }: { children: ReactNode }) {
     setBackgroundColor,
     setBackgroundMode,
     setGradientSettings,
+    setGapColor,
   };
 
   return (
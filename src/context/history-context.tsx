@@ -0,0 +1,263 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { usePlayback } from "@/context/playback-context";
+import {
+  useBackground,
+  type BackgroundSettings,
+} from "@/context/background-context";
+import type {
+  TimelineClip,
+  TimelineMarker,
+  TimelineTrack,
+} from "@/components/timeline/types";
+
+/** Maximum number of undo steps kept in memory */
+export const HISTORY_LIMIT = 100;
+
+// Edits committed shortly after the pointer is released (e.g. the final
+// normalize on mouseup after a clip drag) still belong to that gesture
+const GESTURE_SETTLE_MS = 250;
+
+export interface HistorySnapshot {
+  clips: TimelineClip[];
+  tracks: TimelineTrack[];
+  markers: TimelineMarker[];
+  background: BackgroundSettings;
+}
+
+interface HistoryContextValue {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  /** Drop all steps and treat `snapshot` as the new starting point */
+  reset: (snapshot: HistorySnapshot) => void;
+  /**
+   * Run `load`, whose state changes fill in what was just loaded (e.g. the
+   * clip of a new video) rather than being an edit, so no step is recorded
+   */
+  hydrate: (load: () => void) => void;
+}
+
+const HistoryContext = createContext<HistoryContextValue | undefined>(
+  undefined,
+);
+
+function isSameBackground(a: BackgroundSettings, b: BackgroundSettings) {
+  if (a === b) return true;
+  return (Object.keys(a) as (keyof BackgroundSettings)[]).every(
+    (key) => a[key] === b[key],
+  );
+}
+
+function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot) {
+  return (
+    a.clips === b.clips &&
+    a.tracks === b.tracks &&
+    a.markers === b.markers &&
+    isSameBackground(a.background, b.background)
+  );
+}
+
+export function HistoryProvider({ children }: { children: ReactNode }) {
+  const { clips, setClips, tracks, setTracks, markers, setMarkers } =
+    usePlayback();
+  const { settings: background, applySettings } = useBackground();
+
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  const presentRef = useRef<HistorySnapshot>({
+    clips,
+    tracks,
+    markers,
+    background,
+  });
+  const undoStackRef = useRef<HistorySnapshot[]>([]);
+  const redoStackRef = useRef<HistorySnapshot[]>([]);
+  // Pointer gesture bookkeeping: every change made while the same pointer is
+  // held down (slider drag, clip resize) collapses into one step
+  const gestureRef = useRef({ id: 0, active: false, endedAt: 0 });
+  const lastStepGestureRef = useRef<number | null>(null);
+  const isHydratingRef = useRef(false);
+  // Bumped with every hydration, so its render commits even if the load
+  // changed nothing
+  const [hydration, setHydration] = useState(0);
+
+  const syncFlags = useCallback(() => {
+    setCanUndo(undoStackRef.current.length > 0);
+    setCanRedo(redoStackRef.current.length > 0);
+  }, []);
+
+  useEffect(() => {
+    const gesture = gestureRef.current;
+
+    const handlePointerDown = () => {
+      gesture.id += 1;
+      gesture.active = true;
+    };
+
+    const handlePointerUp = () => {
+      gesture.active = false;
+      gesture.endedAt = performance.now();
+    };
+
+    window.addEventListener("pointerdown", handlePointerDown, true);
+    window.addEventListener("pointerup", handlePointerUp, true);
+    window.addEventListener("pointercancel", handlePointerUp, true);
+
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown, true);
+      window.removeEventListener("pointerup", handlePointerUp, true);
+      window.removeEventListener("pointercancel", handlePointerUp, true);
+    };
+  }, []);
+
+  // Record every change to the editable state as an undo step
+  useEffect(() => {
+    const previous = presentRef.current;
+    const next: HistorySnapshot = { clips, tracks, markers, background };
+
+    if (isSameSnapshot(previous, next)) {
+      return;
+    }
+
+    presentRef.current = next;
+
+    if (isHydratingRef.current) {
+      isHydratingRef.current = false;
+      return;
+    }
+
+    const gesture = gestureRef.current;
+    const inGesture =
+      gesture.active || performance.now() - gesture.endedAt < GESTURE_SETTLE_MS;
+
+    if (inGesture && lastStepGestureRef.current === gesture.id) {
+      // Same drag as the last step, which already holds the state before it
+      return;
+    }
+
+    undoStackRef.current.push(previous);
+    if (undoStackRef.current.length > HISTORY_LIMIT) {
+      undoStackRef.current.shift();
+    }
+    redoStackRef.current = [];
+    lastStepGestureRef.current = inGesture ? gesture.id : null;
+    syncFlags();
+  }, [clips, tracks, markers, background, syncFlags]);
+
+  // Runs after the recorder above: the load has committed by now, whether it
+  // changed anything or not, so the next change is an edit again
+  useEffect(() => {
+    isHydratingRef.current = false;
+  }, [hydration]);
+
+  const restore = useCallback(
+    (snapshot: HistorySnapshot) => {
+      // Setting present first makes the recorder above ignore the change
+      presentRef.current = snapshot;
+      lastStepGestureRef.current = null;
+      setClips(snapshot.clips);
+      setTracks(snapshot.tracks);
+      setMarkers(snapshot.markers);
+      applySettings(snapshot.background);
+    },
+    [applySettings, setClips, setTracks, setMarkers],
+  );
+
+  const undo = useCallback(() => {
+    const snapshot = undoStackRef.current.pop();
+    if (!snapshot) return;
+
+    redoStackRef.current.push(presentRef.current);
+    restore(snapshot);
+    syncFlags();
+  }, [restore, syncFlags]);
+
+  const redo = useCallback(() => {
+    const snapshot = redoStackRef.current.pop();
+    if (!snapshot) return;
+
+    undoStackRef.current.push(presentRef.current);
+    restore(snapshot);
+    syncFlags();
+  }, [restore, syncFlags]);
+
+  const reset = useCallback(
+    (snapshot: HistorySnapshot) => {
+      presentRef.current = snapshot;
+      undoStackRef.current = [];
+      redoStackRef.current = [];
+      lastStepGestureRef.current = null;
+      syncFlags();
+    },
+    [syncFlags],
+  );
+
+  const hydrate = useCallback((load: () => void) => {
+    isHydratingRef.current = true;
+    setHydration((count) => count + 1);
+    load();
+  }, []);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave text fields to their native undo
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      switch (e.key) {
+        case "z":
+        case "Z":
+          e.preventDefault();
+          if (e.shiftKey) {
+            redo();
+          } else {
+            undo();
+          }
+          break;
+        case "y":
+        case "Y":
+          e.preventDefault();
+          redo();
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const value = useMemo<HistoryContextValue>(
+    () => ({ canUndo, canRedo, undo, redo, reset, hydrate }),
+    [canUndo, canRedo, undo, redo, reset, hydrate],
+  );
+
+  return (
+    <HistoryContext.Provider value={value}>{children}</HistoryContext.Provider>
+  );
+}
+
+export function useHistory() {
+  const context = useContext(HistoryContext);
+  if (!context) {
+    throw new Error("useHistory must be used within HistoryProvider");
+  }
+  return context;
+}
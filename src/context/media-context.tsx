@@ -0,0 +1,390 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { usePlayback } from "@/context/playback-context";
+import { useBackground } from "@/context/background-context";
+import { useHistory } from "@/context/history-context";
+import {
+  DEFAULT_MEDIA_SOURCE,
+  MAIN_MEDIA_ID,
+  getFileName,
+  getMediaKind,
+  getMediaUrl,
+  getSourceFrameRate,
+  isLocalMediaPath,
+  normalizeMediaAssets,
+} from "@/lib/media";
+import { createDefaultTracks } from "@/lib/timeline";
+import type { TimelineClip, TimelineMarker } from "@/components/timeline/types";
+import type { ProjectMediaReference } from "@/types/project";
+import type { MediaProbeResult, MediaProxyStatus } from "@/types/media";
+
+interface MediaContextValue {
+  /** Video currently being edited */
+  source: ProjectMediaReference;
+  /** URL of the original `source`, always used for export */
+  sourceUrl: string;
+  /** URL the preview plays: the proxy once it is ready, else the original */
+  previewUrl: string;
+  /** Media library: `source` first, then everything imported */
+  assets: ProjectMediaReference[];
+  getAsset: (id: string) => ProjectMediaReference | undefined;
+  /** Preview URL of any asset, the proxy once it is ready */
+  getPreviewUrl: (filePath: string) => string;
+  /** Proxy generation status per media path */
+  proxies: Record<string, MediaProxyStatus>;
+  /** ffmpeg probe per media path, null when probing failed */
+  probes: Record<string, MediaProbeResult | null>;
+  /** Asset paths that no longer exist on disk */
+  missingPaths: ReadonlySet<string>;
+  /** ffmpeg probe of `source`, null until it finishes (or for the sample) */
+  probe: MediaProbeResult | null;
+  isProbing: boolean;
+  /** Replace the edited video and start a fresh timeline for it */
+  openVideo: (filePath: string) => void;
+  /** Pick a video through the native open dialog */
+  openVideoDialog: () => Promise<boolean>;
+  /** Point at a video without touching the timeline (project load) */
+  setSource: (source: ProjectMediaReference) => void;
+  /** Replace the whole library (project load) */
+  setAssets: (assets: ProjectMediaReference[]) => void;
+  /** Add files to the library, skipping ones already in it */
+  importMedia: (filePaths: string[]) => ProjectMediaReference[];
+  importMediaDialog: () => Promise<ProjectMediaReference[]>;
+  /** Drop an imported asset, the main video cannot be removed */
+  removeAsset: (id: string) => void;
+}
+
+const MediaContext = createContext<MediaContextValue | undefined>(undefined);
+
+export function MediaProvider({ children }: { children: ReactNode }) {
+  const {
+    setClips,
+    setTracks,
+    setMarkers,
+    setInPoint,
+    setOutPoint,
+    setFrameRate,
+    registerVideoElement,
+  } = usePlayback();
+  const { settings: background } = useBackground();
+  const { reset: resetHistory } = useHistory();
+
+  const [assets, setAssetsState] = useState<ProjectMediaReference[]>([
+    DEFAULT_MEDIA_SOURCE,
+  ]);
+  const [probes, setProbes] = useState<Record<string, MediaProbeResult | null>>(
+    {},
+  );
+  const [proxies, setProxies] = useState<Record<string, MediaProxyStatus>>({});
+  const [missingPaths, setMissingPaths] = useState<ReadonlySet<string>>(
+    () => new Set(),
+  );
+  const probingRef = useRef(new Set<string>());
+
+  const source = assets[0];
+  const sourceUrl = useMemo(() => getMediaUrl(source.path), [source.path]);
+
+  const getPreviewUrl = useCallback(
+    (filePath: string) => {
+      const proxy = proxies[filePath];
+      return proxy?.state === "ready" && proxy.proxyPath
+        ? getMediaUrl(proxy.proxyPath)
+        : getMediaUrl(filePath);
+    },
+    [proxies],
+  );
+  const previewUrl = useMemo(
+    () => getPreviewUrl(source.path),
+    [getPreviewUrl, source.path],
+  );
+
+  const probe = probes[source.path] ?? null;
+  const isProbing =
+    Boolean(window.mediaAPI) &&
+    isLocalMediaPath(source.path) &&
+    !(source.path in probes);
+
+  // Frame stepping moves by the source's frames
+  useEffect(() => {
+    setFrameRate(getSourceFrameRate(probe));
+  }, [probe, setFrameRate]);
+
+  const getAsset = useCallback(
+    (id: string) => assets.find((asset) => asset.id === id),
+    [assets],
+  );
+
+  const setSource = useCallback((next: ProjectMediaReference) => {
+    setAssetsState((previous) => [next, ...previous.slice(1)]);
+  }, []);
+
+  const setAssets = useCallback((next: ProjectMediaReference[]) => {
+    setAssetsState(normalizeMediaAssets(next));
+  }, []);
+
+  useEffect(() => {
+    const api = window.mediaAPI;
+    if (!api) return;
+
+    return api.onProxyStatus((status) => {
+      setProxies((previous) => ({ ...previous, [status.filePath]: status }));
+    });
+  }, []);
+
+  // Probe every asset once; videos that need one get a proxy afterwards
+  useEffect(() => {
+    const api = window.mediaAPI;
+    if (!api) return;
+
+    for (const asset of assets) {
+      const { path: filePath } = asset;
+      if (!isLocalMediaPath(filePath) || probingRef.current.has(filePath)) {
+        continue;
+      }
+      probingRef.current.add(filePath);
+
+      api
+        .probe(filePath)
+        .then((result) => {
+          setProbes((previous) => ({ ...previous, [filePath]: result }));
+          if (asset.kind !== "video") return;
+
+          result.warnings.forEach((warning) =>
+            console.warn(`${asset.name}: ${warning}`),
+          );
+          // Heavy or VFR sources get a proxy generated in the background
+          api
+            .requestProxy(filePath)
+            .then((status) => {
+              setProxies((previous) => ({
+                ...previous,
+                [status.filePath]: status,
+              }));
+            })
+            .catch((error) => {
+              console.error(`Failed to request proxy for ${filePath}`, error);
+            });
+        })
+        .catch((error) => {
+          console.error(`Failed to probe ${filePath}`, error);
+          setProbes((previous) => ({ ...previous, [filePath]: null }));
+          // Try again if the asset is imported anew, e.g. after relinking
+          probingRef.current.delete(filePath);
+        });
+    }
+  }, [assets]);
+
+  // Flag assets whose file went away, checked again whenever the window
+  // regains focus since that is usually when files were moved
+  const localPathsKey = assets
+    .map((asset) => asset.path)
+    .filter(isLocalMediaPath)
+    .join("\n");
+
+  useEffect(() => {
+    const api = window.mediaAPI;
+    const filePaths = localPathsKey ? localPathsKey.split("\n") : [];
+    if (!api) return;
+
+    const check = () => {
+      api
+        .findMissing(filePaths)
+        .then((missing) => {
+          setMissingPaths((previous) =>
+            previous.size === missing.length &&
+            missing.every((filePath) => previous.has(filePath))
+              ? previous
+              : new Set(missing),
+          );
+        })
+        .catch((error) => {
+          console.error("Failed to check for missing media", error);
+        });
+    };
+
+    check();
+    window.addEventListener("focus", check);
+    return () => window.removeEventListener("focus", check);
+  }, [localPathsKey]);
+
+  const openVideo = useCallback(
+    (filePath: string) => {
+      setSource({
+        id: MAIN_MEDIA_ID,
+        name: getFileName(filePath),
+        path: filePath,
+        kind: "video",
+      });
+      // Drop the old element so the timeline rebuilds from the new duration
+      registerVideoElement(null);
+      // The same arrays go to the history, so loading them is not a step
+      const clips: TimelineClip[] = [];
+      const markers: TimelineMarker[] = [];
+      const tracks = createDefaultTracks();
+      setClips(clips);
+      setTracks(tracks);
+      setMarkers(markers);
+      setInPoint(null);
+      setOutPoint(null);
+      resetHistory({ clips, tracks, markers, background });
+    },
+    [
+      background,
+      registerVideoElement,
+      resetHistory,
+      setClips,
+      setInPoint,
+      setMarkers,
+      setOutPoint,
+      setSource,
+      setTracks,
+    ],
+  );
+
+  const openVideoDialog = useCallback(async () => {
+    const filePath = await window.mediaAPI?.openVideoDialog();
+    if (!filePath) return false;
+
+    openVideo(filePath);
+    return true;
+  }, [openVideo]);
+
+  const importMedia = useCallback(
+    (filePaths: string[]) => {
+      const imported: ProjectMediaReference[] = [];
+      const added: ProjectMediaReference[] = [];
+
+      for (const filePath of filePaths) {
+        const kind = getMediaKind(filePath);
+        if (!kind) continue;
+
+        const existing =
+          assets.find((asset) => asset.path === filePath) ??
+          added.find((asset) => asset.path === filePath);
+        if (existing) {
+          imported.push(existing);
+          continue;
+        }
+
+        const asset: ProjectMediaReference = {
+          id: `asset-${crypto.randomUUID()}`,
+          name: getFileName(filePath),
+          path: filePath,
+          kind,
+        };
+        added.push(asset);
+        imported.push(asset);
+      }
+
+      if (added.length > 0) {
+        setAssetsState((previous) => [...previous, ...added]);
+      }
+      return imported;
+    },
+    [assets],
+  );
+
+  const importMediaDialog = useCallback(async () => {
+    const filePaths = await window.mediaAPI?.importMediaDialog();
+    return filePaths ? importMedia(filePaths) : [];
+  }, [importMedia]);
+
+  const removeAsset = useCallback((id: string) => {
+    if (id === MAIN_MEDIA_ID) return;
+    setAssetsState((previous) => previous.filter((asset) => asset.id !== id));
+  }, []);
+
+  // Video passed on the command line. Main hands it out only once, so the
+  // second StrictMode run simply gets null.
+  useEffect(() => {
+    window.mediaAPI
+      ?.getLaunchFile()
+      .then((filePath) => {
+        if (filePath) {
+          openVideo(filePath);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to read launch file", error);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      if (e.key === "i" || e.key === "I") {
+        e.preventDefault();
+        void openVideoDialog();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [openVideoDialog]);
+
+  const value = useMemo<MediaContextValue>(
+    () => ({
+      source,
+      sourceUrl,
+      previewUrl,
+      assets,
+      getAsset,
+      getPreviewUrl,
+      proxies,
+      probes,
+      missingPaths,
+      probe,
+      isProbing,
+      openVideo,
+      openVideoDialog,
+      setSource,
+      setAssets,
+      importMedia,
+      importMediaDialog,
+      removeAsset,
+    }),
+    [
+      source,
+      sourceUrl,
+      previewUrl,
+      assets,
+      getAsset,
+      getPreviewUrl,
+      proxies,
+      probes,
+      missingPaths,
+      probe,
+      isProbing,
+      openVideo,
+      openVideoDialog,
+      setSource,
+      setAssets,
+      importMedia,
+      importMediaDialog,
+      removeAsset,
+    ],
+  );
+
+  return (
+    <MediaContext.Provider value={value}>{children}</MediaContext.Provider>
+  );
+}
+
+export function useMedia() {
+  const context = useContext(MediaContext);
+  if (!context) {
+    throw new Error("useMedia must be used within MediaProvider");
+  }
+  return context;
+}
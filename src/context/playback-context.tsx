@@ -10,14 +10,47 @@ import {
   type Dispatch,
   type SetStateAction,
 } from "react";
-import type { TimelineClip } from "@/components/timeline/types";
+import type {
+  SnapSettings,
+  TimelineClip,
+  TimelineEditMode,
+  TimelineMarker,
+  TimelineTrack,
+} from "@/components/timeline/types";
+import { MAIN_MEDIA_ID } from "@/lib/media";
+import {
+  DEFAULT_SNAP_SETTINGS,
+  createDefaultTracks,
+  getActiveClips,
+  getClipVolume,
+  getUpcomingClips,
+  isTrackAudible,
+  type ActiveClip,
+} from "@/lib/timeline";
+import { getSpeedAt } from "@/lib/speed-ramp";
 
 export const TIMELINE_ZOOM_MIN = 5; // Minimum: 5 pixels per second (fit very long videos)
 export const TIMELINE_ZOOM_MAX = 200; // Maximum: 200 pixels per second (see individual seconds)
 export const TIMELINE_ZOOM_DEFAULT = 50; // Default: 50 pixels per second
 
+// How far ahead paused media is seeked to the clip about to start, so it
+// plays right away when the playhead gets there (after a gap or a cut)
+const CUE_AHEAD_SECONDS = 0.5;
+
+// Frame stepping uses this until the source has been probed
+const DEFAULT_FRAME_RATE = 30;
+
+// J/K/L shuttle speeds, each press in the same direction goes one faster
+const SHUTTLE_RATES = [1, 2, 4, 8];
+
+// Playback rates media elements accept, Chromium throws outside of them
+const MIN_MEDIA_PLAYBACK_RATE = 0.0625;
+const MAX_MEDIA_PLAYBACK_RATE = 16;
+
 interface PlaybackContextValue {
   currentTime: number;
+  /** Playhead time, also up to date while playing */
+  getCurrentTime: () => number;
   duration: number;
   isPlaying: boolean;
   play: () => Promise<void>;
@@ -25,7 +58,34 @@ interface PlaybackContextValue {
   togglePlay: () => Promise<void>;
   seek: (time: number) => void;
   step: (deltaSeconds: number) => void;
-  registerVideoElement: (video: HTMLVideoElement | null) => void;
+  /** Move by whole frames of the source, pausing first */
+  stepFrames: (frames: number) => void;
+  /** Jump to the previous (-1) or next (1) clip start or end */
+  jumpToEdit: (direction: -1 | 1) => void;
+  /** Frame rate of the source */
+  frameRate: number;
+  setFrameRate: (fps: number | null) => void;
+  /** Timeline playback speed, negative in reverse */
+  playbackRate: number;
+  /**
+   * J/K/L: play towards `direction`, one speed faster each time it is
+   * already going that way; 0 pauses
+   */
+  shuttle: (direction: -1 | 0 | 1) => void;
+  /**
+   * Main video element, `source` naming the file it plays. Replacing it with
+   * one of the same source (e.g. its proxy) keeps the time and play state,
+   * any other change starts over at 0.
+   */
+  registerVideoElement: (
+    video: HTMLVideoElement | null,
+    source?: string,
+  ) => void;
+  /** Element playing a media library asset other than the main video */
+  registerMediaElement: (
+    mediaId: string,
+    element: HTMLMediaElement | null,
+  ) => void;
   timelineZoom: number;
   setTimelineZoom: (zoom: number) => void;
   setDurationHint: (duration: number | null) => void;
@@ -33,8 +93,29 @@ interface PlaybackContextValue {
   scissorMode: boolean;
   setScissorMode: (mode: boolean) => void;
   toggleScissorMode: () => void;
+  editMode: TimelineEditMode;
+  setEditMode: (mode: TimelineEditMode) => void;
+  snapSettings: SnapSettings;
+  setSnapSettings: Dispatch<SetStateAction<SnapSettings>>;
   clips: TimelineClip[];
   setClips: Dispatch<SetStateAction<TimelineClip[]>>;
+  /** Timeline tracks, top first */
+  tracks: TimelineTrack[];
+  setTracks: Dispatch<SetStateAction<TimelineTrack[]>>;
+  /** Timeline markers, in no particular order */
+  markers: TimelineMarker[];
+  setMarkers: Dispatch<SetStateAction<TimelineMarker[]>>;
+  /** Start of the in/out range, null for the timeline start */
+  inPoint: number | null;
+  setInPoint: (time: number | null) => void;
+  /** End of the in/out range, null for the timeline end */
+  outPoint: number | null;
+  setOutPoint: (time: number | null) => void;
+  /** The in/out range with its open ends filled in */
+  getPlaybackRange: () => { start: number; end: number };
+  /** Playback wraps from the out point back to the in point */
+  isLooping: boolean;
+  setIsLooping: (looping: boolean) => void;
   subscribeToTimeUpdate: (callback: (time: number) => void) => () => void;
   subscribeToPreviewTimeUpdate: (callback: (time: number | null) => void) => () => void;
   setPreviewTime: (time: number | null) => void;
@@ -50,16 +131,30 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [timelineZoom, setTimelineZoomState] = useState(TIMELINE_ZOOM_DEFAULT);
   const [scissorMode, setScissorModeState] = useState(false);
+  const [editMode, setEditMode] = useState<TimelineEditMode>("ripple");
+  const [snapSettings, setSnapSettings] = useState(DEFAULT_SNAP_SETTINGS);
   const [clips, setClips] = useState<TimelineClip[]>([]);
+  const [tracks, setTracks] = useState<TimelineTrack[]>(createDefaultTracks);
+  const [markers, setMarkers] = useState<TimelineMarker[]>([]);
+  const [inPoint, setInPointState] = useState<number | null>(null);
+  const [outPoint, setOutPointState] = useState<number | null>(null);
+  const [isLooping, setIsLooping] = useState(false);
+  const [frameRate, setFrameRateState] = useState(DEFAULT_FRAME_RATE);
+  const [playbackRate, setPlaybackRateState] = useState(1);
 
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const videoSourceRef = useRef<string | null>(null);
+  const mediaElementsRef = useRef(new Map<string, HTMLMediaElement>());
   const cleanupRef = useRef<(() => void) | null>(null);
   const rafRef = useRef<number | null>(null);
   const durationHintRef = useRef<number | null>(null);
   const lastTickTimeRef = useRef<number>(0);
   const clipsRef = useRef<TimelineClip[]>([]);
+  const tracksRef = useRef<TimelineTrack[]>(tracks);
   const currentTimeRef = useRef<number>(0);
   const previewTimeRef = useRef<number | null>(null);
+  const rangeRef = useRef({ inPoint, outPoint, isLooping });
+  const playbackRateRef = useRef(1);
   const sourceDurationRef = useRef<number>(0);
   const timeListenersRef = useRef<Set<(time: number) => void>>(new Set());
   const previewTimeListenersRef = useRef<Set<(time: number | null) => void>>(new Set());
@@ -78,10 +173,19 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     }
   }, [clips]);
 
+  useEffect(() => {
+    tracksRef.current = tracks;
+  }, [tracks]);
+
   useEffect(() => {
     currentTimeRef.current = currentTime;
   }, [currentTime]);
 
+  // Read by the tick, so toggling the loop takes effect mid-playback
+  useEffect(() => {
+    rangeRef.current = { inPoint, outPoint, isLooping };
+  }, [inPoint, outPoint, isLooping]);
+
   const subscribeToTimeUpdate = useCallback((callback: (time: number) => void) => {
     timeListenersRef.current.add(callback);
     return () => {
@@ -96,6 +200,126 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Kept in a ref too, the tick reads it
+  const setPlaybackRate = useCallback((rate: number) => {
+    playbackRateRef.current = rate;
+    setPlaybackRateState(rate);
+  }, []);
+
+  const getMediaElement = useCallback(
+    (mediaId: string): HTMLMediaElement | null =>
+      mediaId === MAIN_MEDIA_ID
+        ? videoRef.current
+        : (mediaElementsRef.current.get(mediaId) ?? null),
+    [],
+  );
+
+  // Point the element of every clip under `time` at its source time and
+  // pause all others. While playing, only seek once an element drifted.
+  const syncMediaToTime = useCallback(
+    (time: number, playing: boolean) => {
+      const video = videoRef.current;
+      const currentClips = clipsRef.current;
+      const currentTracks = tracksRef.current;
+
+      if (currentClips.length === 0) {
+        // Fallback for no clips (linear)
+        if (video && (!playing || Math.abs(video.currentTime - time) > 0.5)) {
+          video.currentTime = time;
+        }
+        return;
+      }
+
+      // One element per asset: if two tracks show the same asset at once,
+      // the upper one drives it
+      const driven = new Map<HTMLMediaElement, ActiveClip>();
+      for (const active of getActiveClips(currentClips, currentTracks, time)) {
+        const element = getMediaElement(active.clip.mediaId);
+        if (element) {
+          driven.set(element, active);
+        }
+      }
+
+      for (const element of [video, ...mediaElementsRef.current.values()]) {
+        if (element && !driven.has(element) && !element.paused) {
+          element.pause();
+        }
+      }
+
+      // Elements with nothing to show wait on the frame they come back at
+      if (playing) {
+        const cued = new Set<HTMLMediaElement>();
+        for (const { clip, mediaTime } of getUpcomingClips(
+          currentClips,
+          currentTracks,
+          time,
+          CUE_AHEAD_SECONDS,
+        )) {
+          const element = getMediaElement(clip.mediaId);
+          if (!element || driven.has(element) || cued.has(element)) continue;
+
+          cued.add(element);
+          if (
+            !element.seeking &&
+            Math.abs(element.currentTime - mediaTime) > 0.01
+          ) {
+            element.currentTime = mediaTime;
+          }
+        }
+      }
+
+      for (const [element, { clip, track, mediaTime }] of driven) {
+        // A freeze frame holds a paused, silent frame
+        const isFrozen = clip.freezeTime !== undefined;
+
+        // Sped up or slowed down audio keeps its pitch. A ramp changes the
+        // rate as it goes, shuttling multiplies it.
+        const speed =
+          getSpeedAt(clip, mediaTime) *
+          (playing ? playbackRateRef.current : 1);
+        // Faster than media can play (shuttling over a sped up clip), the
+        // element is paused and seeked along every tick, without sound
+        const isSeekDriven = playing && speed > MAX_MEDIA_PLAYBACK_RATE;
+
+        element.muted =
+          isFrozen ||
+          isSeekDriven ||
+          Boolean(clip.muted) ||
+          !isTrackAudible(track, currentTracks);
+        const volume = getClipVolume(clip);
+        if (element.volume !== volume) {
+          element.volume = volume;
+        }
+
+        const elementRate = Math.min(
+          MAX_MEDIA_PLAYBACK_RATE,
+          Math.max(MIN_MEDIA_PLAYBACK_RATE, speed),
+        );
+        if (element.playbackRate !== elementRate) {
+          element.preservesPitch = true;
+          element.playbackRate = elementRate;
+        }
+
+        if (isSeekDriven) {
+          // Seeks pile up if issued before the last one landed
+          if (!element.seeking) element.currentTime = mediaTime;
+        } else if (
+          !playing ||
+          Math.abs(element.currentTime - mediaTime) > 0.1 * speed
+        ) {
+          element.currentTime = mediaTime;
+        }
+
+        if (isFrozen || isSeekDriven) {
+          if (!element.paused) element.pause();
+        } else if (playing && element.paused) {
+          element.play().catch(() => {});
+        }
+      }
+    },
+    [getMediaElement],
+  );
+
   const setPreviewTime = useCallback((time: number | null) => {
     previewTimeRef.current = time;
     previewTimeListenersRef.current.forEach(listener => listener(time));
@@ -103,23 +327,10 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     // If not playing, update video immediately for preview
     // If playing, tick loop will handle it (or we might want to force it here too?)
     // Actually, if we are paused, tick loop is not running.
-    if (!isPlaying && videoRef.current) {
-       const targetTime = time ?? currentTimeRef.current;
-       const video = videoRef.current;
-       const currentClips = clipsRef.current;
-       
-       if (currentClips.length > 0) {
-          const activeClip = currentClips.find(c => targetTime >= c.start && targetTime < c.start + c.duration);
-          if (activeClip) {
-             const offset = targetTime - activeClip.start;
-             const videoTime = activeClip.trimStart + offset;
-             video.currentTime = videoTime;
-          }
-       } else {
-          video.currentTime = targetTime;
-       }
+    if (!isPlaying) {
+      syncMediaToTime(time ?? currentTimeRef.current, false);
     }
-  }, [isPlaying]);
+  }, [isPlaying, syncMediaToTime]);
 
   const cancelAnimation = useCallback(() => {
     if (rafRef.current !== null) {
@@ -134,12 +345,30 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     lastTickTimeRef.current = now;
 
     // Update timeline time
-    let nextTime = currentTimeRef.current + delta;
-    
+    const rate = playbackRateRef.current;
+    const isReverse = rate < 0;
+    let nextTime = currentTimeRef.current + delta * rate;
+
+    // Looping wraps at the out point, unless the playhead was already past
+    // it, then at the end. In reverse it wraps at the in point the same way.
+    const { inPoint, outPoint, isLooping } = rangeRef.current;
+    const loopEnd =
+      outPoint !== null && currentTimeRef.current < outPoint
+        ? Math.min(outPoint, duration)
+        : duration;
+    const loopStart =
+      inPoint !== null && currentTimeRef.current > inPoint ? inPoint : 0;
+
     // Check bounds
-    if (nextTime >= duration) {
-      nextTime = duration;
+    if (isLooping && (isReverse ? nextTime <= loopStart : nextTime >= loopEnd)) {
+      nextTime = isReverse
+        ? Math.min(outPoint ?? duration, duration)
+        : (inPoint ?? 0);
+      rafRef.current = requestAnimationFrame(tick);
+    } else if (isReverse ? nextTime <= 0 : nextTime >= duration) {
+      nextTime = isReverse ? 0 : duration;
       setIsPlaying(false);
+      setPlaybackRate(1);
       cancelAnimationFrame(rafRef.current!);
       rafRef.current = null;
       // Ensure final state update
@@ -162,52 +391,13 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     // For now, let's NOT update state during playback loop, relying on listeners for smooth UI.
     // But we must update it when stopping.
     
-    // Sync video element
-    const video = videoRef.current;
-    const currentClips = clipsRef.current;
-    
+    // Sync media elements
     // Determine which time to show on video
     // If previewTime is set (hovering), use that. Otherwise use playback time.
+    // Media can't play backwards, in reverse it is seeked frame by frame
     const displayTime = previewTimeRef.current ?? nextTime;
-
-    if (video && currentClips.length > 0) {
-      // Find active clip
-      const activeClip = currentClips.find(c => displayTime >= c.start && displayTime < c.start + c.duration);
-      
-      if (activeClip) {
-         const offset = displayTime - activeClip.start;
-         const videoTime = activeClip.trimStart + offset;
-         
-         // Only seek if difference is significant to avoid jitter
-         // But for smooth playback we might need to be careful.
-         // If video is playing, we might just let it play if the rate is 1.
-         // But if we jumped clips, we MUST seek.
-         
-         // Check if we are "on track"
-         const currentVideoTime = video.currentTime;
-         if (Math.abs(currentVideoTime - videoTime) > 0.1 || previewTimeRef.current !== null) {
-           video.currentTime = videoTime;
-         }
-         
-         if (video.paused && previewTimeRef.current === null) {
-            video.play().catch(() => {});
-         }
-      } else {
-        // No clip at this time (gap?) - should not happen with gapless timeline
-        // But if it does, pause video?
-        if (!video.paused) {
-          video.pause();
-        }
-      }
-    } else if (video) {
-       // Fallback for no clips (linear)
-       // If we have no clips, maybe we shouldn't play? Or play linearly?
-       // Let's assume linear if no clips defined yet
-       if (Math.abs(video.currentTime - displayTime) > 0.5 || previewTimeRef.current !== null) {
-         video.currentTime = displayTime;
-       }
-    }
-  }, [duration, cancelAnimation]);
+    syncMediaToTime(displayTime, previewTimeRef.current === null && !isReverse);
+  }, [duration, setPlaybackRate, syncMediaToTime]);
 
   const ensureAnimation = useCallback(() => {
     if (rafRef.current === null) {
@@ -232,6 +422,8 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     videoRef.current = null;
     setIsPlaying(false);
     setCurrentTime(0);
+    // The new element is seeked before the sync effect would catch up
+    currentTimeRef.current = 0;
     sourceDurationRef.current = 0;
     if (durationHintRef.current !== null) {
       setDuration(durationHintRef.current);
@@ -241,12 +433,27 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
   }, [cancelAnimation]);
 
   const registerVideoElement = useCallback(
-    (video: HTMLVideoElement | null) => {
-      if (videoRef.current === video) {
+    (video: HTMLVideoElement | null, source?: string) => {
+      const previous = videoRef.current;
+      if (previous === video) {
         return;
       }
 
-      detachVideo();
+      const isSameSource =
+        video !== null &&
+        previous !== null &&
+        source !== undefined &&
+        source === videoSourceRef.current;
+
+      if (isSameSource) {
+        // Playback carries on, the tick starts the new element when playing
+        cleanupRef.current?.();
+        cleanupRef.current = null;
+        previous.pause();
+      } else {
+        detachVideo();
+      }
+      videoSourceRef.current = video ? (source ?? null) : null;
 
       if (!video) {
         return;
@@ -254,12 +461,9 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
 
       videoRef.current = video;
 
-      // Force pause initially if we are not playing
       // PixiJS video textures often autoplay by default, so we need to enforce our state
-      if (!isPlaying) {
-        video.pause();
-        video.currentTime = currentTimeRef.current;
-      }
+      video.pause();
+      video.currentTime = currentTimeRef.current;
 
       // We no longer drive time from video.timeupdate
       // But we might want to listen to durationchange
@@ -291,30 +495,48 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
     [detachVideo],
   );
 
+  const registerMediaElement = useCallback(
+    (mediaId: string, element: HTMLMediaElement | null) => {
+      const elements = mediaElementsRef.current;
+
+      if (!element) {
+        elements.get(mediaId)?.pause();
+        elements.delete(mediaId);
+        return;
+      }
+
+      elements.set(mediaId, element);
+      // Loaded elements start paused, the sync decides when they play
+      element.pause();
+    },
+    [],
+  );
+
   const play = useCallback(async () => {
     const video = videoRef.current;
     if (!video) return;
 
+    setPlaybackRate(1);
     setIsPlaying(true);
     ensureAnimation();
     
     // We don't call video.play() directly here, tick will handle it based on clips
     // But for initial start we might need to?
     // Actually tick calls video.play() if active clip found.
-  }, [ensureAnimation]);
+  }, [ensureAnimation, setPlaybackRate]);
 
   const pause = useCallback(async () => {
     setIsPlaying(false);
+    setPlaybackRate(1);
     cancelAnimation();
     
     // Sync state on pause
     setCurrentTime(currentTimeRef.current);
     
-    const video = videoRef.current;
-    if (video) {
-      video.pause();
+    for (const element of [videoRef.current, ...mediaElementsRef.current.values()]) {
+      element?.pause();
     }
-  }, [cancelAnimation]);
+  }, [cancelAnimation, setPlaybackRate]);
 
   const togglePlay = useCallback(async () => {
     if (isPlaying) {
@@ -340,28 +562,107 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
       timeListenersRef.current.forEach(listener => listener(next));
       
       // Sync video immediately
-      const video = videoRef.current;
-      const currentClips = clipsRef.current; // Use ref for latest clips
-
-      if (video && currentClips.length > 0) {
-        const activeClip = currentClips.find(c => next >= c.start && next < c.start + c.duration);
-        if (activeClip) {
-           const offset = next - activeClip.start;
-           const videoTime = activeClip.trimStart + offset;
-           video.currentTime = videoTime;
-        }
-      } else if (video) {
-         video.currentTime = next;
-      }
+      syncMediaToTime(next, false);
     },
-    [duration], // Removed clips from dependency to avoid recreation, using ref
+    [duration, syncMediaToTime], // Clips are read from a ref to avoid recreation
   );
 
+  const getCurrentTime = useCallback(() => currentTimeRef.current, []);
+
+  // Setting one end past the other drops the other
+  const setInPoint = useCallback((time: number | null) => {
+    setInPointState(time);
+    if (time !== null) {
+      setOutPointState((out) => (out !== null && out <= time ? null : out));
+    }
+  }, []);
+
+  const setOutPoint = useCallback((time: number | null) => {
+    setOutPointState(time);
+    if (time !== null) {
+      setInPointState((start) =>
+        start !== null && start >= time ? null : start,
+      );
+    }
+  }, []);
+
+  const getPlaybackRange = useCallback(() => {
+    const start = Math.min(inPoint ?? 0, duration);
+    const end = Math.min(outPoint ?? duration, duration);
+    return { start, end: Math.max(start, end) };
+  }, [inPoint, outPoint, duration]);
+
   const step = useCallback(
     (deltaSeconds: number) => {
-      seek(currentTime + deltaSeconds);
+      seek(currentTimeRef.current + deltaSeconds);
+    },
+    [seek],
+  );
+
+  const setFrameRate = useCallback((fps: number | null) => {
+    setFrameRateState(fps && fps > 0 ? fps : DEFAULT_FRAME_RATE);
+  }, []);
+
+  // Lands on a frame boundary, wherever the playhead was between frames
+  const stepFrames = useCallback(
+    (frames: number) => {
+      if (isPlaying) void pause();
+      const frame = Math.round(currentTimeRef.current * frameRate);
+      seek((frame + frames) / frameRate);
+    },
+    [frameRate, isPlaying, pause, seek],
+  );
+
+  const jumpToEdit = useCallback(
+    (direction: -1 | 1) => {
+      const time = currentTimeRef.current;
+      const edits = [
+        0,
+        duration,
+        ...clipsRef.current.flatMap((clip) => [
+          clip.start,
+          clip.start + clip.duration,
+        ]),
+      ];
+      // Half a frame of slack, so the playhead on an edit moves past it
+      const slack = 0.5 / frameRate;
+      const target =
+        direction > 0
+          ? Math.min(...edits.filter((edit) => edit > time + slack))
+          : Math.max(...edits.filter((edit) => edit < time - slack));
+
+      if (Number.isFinite(target)) seek(target);
+    },
+    [duration, frameRate, seek],
+  );
+
+  const shuttle = useCallback(
+    (direction: -1 | 0 | 1) => {
+      if (direction === 0) {
+        void pause();
+        return;
+      }
+      if (!videoRef.current) return;
+
+      const rate = playbackRateRef.current;
+      const speed =
+        isPlaying && Math.sign(rate) === direction ? Math.abs(rate) : 0;
+      const next =
+        SHUTTLE_RATES.find((candidate) => candidate > speed) ??
+        SHUTTLE_RATES[SHUTTLE_RATES.length - 1];
+
+      // Reverse seeks paused media instead of playing it
+      if (direction < 0) {
+        for (const element of [videoRef.current, ...mediaElementsRef.current.values()]) {
+          element?.pause();
+        }
+      }
+
+      setPlaybackRate(next * direction);
+      setIsPlaying(true);
+      ensureAnimation();
     },
-    [currentTime, seek],
+    [ensureAnimation, isPlaying, pause, setPlaybackRate],
   );
 
   const setTimelineZoom = useCallback((value: number) => {
@@ -396,6 +697,7 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
   const value = useMemo<PlaybackContextValue>(
     () => ({
       currentTime,
+      getCurrentTime,
       duration,
       isPlaying,
       play,
@@ -403,7 +705,14 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
       togglePlay,
       seek,
       step,
+      stepFrames,
+      jumpToEdit,
+      frameRate,
+      setFrameRate,
+      playbackRate,
+      shuttle,
       registerVideoElement,
+      registerMediaElement,
       timelineZoom,
       setTimelineZoom,
       setDurationHint: handleDurationHint,
@@ -411,14 +720,30 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
       scissorMode,
       setScissorMode,
       toggleScissorMode,
+      editMode,
+      setEditMode,
+      snapSettings,
+      setSnapSettings,
       clips,
       setClips,
+      tracks,
+      setTracks,
+      markers,
+      setMarkers,
+      inPoint,
+      setInPoint,
+      outPoint,
+      setOutPoint,
+      getPlaybackRange,
+      isLooping,
+      setIsLooping,
       subscribeToTimeUpdate,
       subscribeToPreviewTimeUpdate,
       setPreviewTime,
     }),
     [
       currentTime,
+      getCurrentTime,
       duration,
       isPlaying,
       play,
@@ -426,7 +751,14 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
       togglePlay,
       seek,
       step,
+      stepFrames,
+      jumpToEdit,
+      frameRate,
+      setFrameRate,
+      playbackRate,
+      shuttle,
       registerVideoElement,
+      registerMediaElement,
       timelineZoom,
       setTimelineZoom,
       handleDurationHint,
@@ -434,8 +766,20 @@ export function PlaybackProvider({ children }: { children: ReactNode }) {
       scissorMode,
       setScissorMode,
       toggleScissorMode,
+      editMode,
+      setEditMode,
+      snapSettings,
+      setSnapSettings,
       clips,
       setClips,
+      tracks,
+      markers,
+      inPoint,
+      setInPoint,
+      outPoint,
+      setOutPoint,
+      getPlaybackRange,
+      isLooping,
       subscribeToTimeUpdate,
       subscribeToPreviewTimeUpdate,
       setPreviewTime,
@@ -0,0 +1,420 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { usePlayback } from "@/context/playback-context";
+import { useBackground } from "@/context/background-context";
+import { useHistory } from "@/context/history-context";
+import { useMedia } from "@/context/media-context";
+import { normalizeMediaAssets } from "@/lib/media";
+import { createDefaultTracks } from "@/lib/timeline";
+import type { TimelineClip, TimelineMarker } from "@/components/timeline/types";
+import {
+  UNTITLED_PROJECT_NAME,
+  createProjectDocument,
+  getProjectContentKey,
+  getProjectNameFromPath,
+  parseProjectDocument,
+  serializeProjectDocument,
+  type ProjectContent,
+} from "@/lib/project";
+import type { AutosaveSnapshotInfo, ProjectDocument } from "@/types/project";
+
+export const DEFAULT_ASPECT_RATIO = "16-9";
+
+/** How often unsaved changes are snapshotted for crash recovery */
+export const AUTOSAVE_INTERVAL_MS = 30_000;
+
+interface ProjectContextValue {
+  projectName: string;
+  filePath: string | null;
+  isDirty: boolean;
+  isSaving: boolean;
+  lastError: string | null;
+  aspectRatio: string;
+  setAspectRatio: (aspectRatio: string) => void;
+  /** Save to the current file, asking for a location the first time */
+  saveProject: () => Promise<boolean>;
+  saveProjectAs: () => Promise<boolean>;
+  openProject: () => Promise<boolean>;
+  /** Open a project by path, e.g. from the recent projects list */
+  openProjectFile: (filePath: string) => Promise<boolean>;
+  /** Start over with an empty, untitled project */
+  closeProject: () => void;
+  /** Move the project file to the trash and close the project */
+  deleteProject: () => Promise<boolean>;
+  /** Load an autosave snapshot as unsaved changes and drop its session */
+  recoverSnapshot: (snapshot: AutosaveSnapshotInfo) => Promise<boolean>;
+}
+
+const ProjectContext = createContext<ProjectContextValue | undefined>(
+  undefined,
+);
+
+export function ProjectProvider({ children }: { children: ReactNode }) {
+  const { clips, setClips, tracks, setTracks, markers, setMarkers } =
+    usePlayback();
+  const { settings: background, applySettings } = useBackground();
+  const { reset: resetHistory } = useHistory();
+  const { assets: media, setAssets } = useMedia();
+  // Background the app started with, a closed project goes back to it
+  const initialBackgroundRef = useRef(background);
+
+  const [aspectRatio, setAspectRatio] = useState(DEFAULT_ASPECT_RATIO);
+  const [filePath, setFilePath] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState(UNTITLED_PROJECT_NAME);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const createdAtRef = useRef<string | undefined>(undefined);
+
+  const content = useMemo<ProjectContent>(
+    () => ({ aspectRatio, clips, tracks, markers, background, media }),
+    [aspectRatio, clips, tracks, markers, background, media],
+  );
+  const contentKey = useMemo(() => getProjectContentKey(content), [content]);
+
+  // Key of the content as last written to (or read from) disk. Starts as the
+  // empty editor so a fresh project becomes dirty once there is something in it.
+  // Null when the content never came from disk (a recovered snapshot).
+  const [savedKey, setSavedKey] = useState<string | null>(contentKey);
+  const isDirty = contentKey !== savedKey;
+
+  const lastAutosaveKeyRef = useRef<string | null>(null);
+  const autosaveStateRef = useRef({
+    content,
+    contentKey,
+    isDirty,
+    projectName,
+    filePath,
+  });
+  autosaveStateRef.current = {
+    content,
+    contentKey,
+    isDirty,
+    projectName,
+    filePath,
+  };
+
+  const writeProject = useCallback(
+    async (targetPath: string | null) => {
+      const api = window.projectAPI;
+      if (!api || isSaving) return false;
+
+      setIsSaving(true);
+      setLastError(null);
+
+      try {
+        const name = targetPath
+          ? getProjectNameFromPath(targetPath)
+          : projectName;
+        const document = createProjectDocument(content, {
+          name,
+          createdAt: createdAtRef.current,
+        });
+        const result = await api.saveProject({
+          content: serializeProjectDocument(document),
+          filePath: targetPath,
+          suggestedName: name,
+        });
+
+        if (!result) {
+          return false;
+        }
+
+        createdAtRef.current = document.createdAt;
+        setFilePath(result.filePath);
+        setProjectName(getProjectNameFromPath(result.filePath));
+        setSavedKey(contentKey);
+        lastAutosaveKeyRef.current = null;
+        void api.clearAutosave().catch((error) => {
+          console.error("Failed to clear autosave snapshots", error);
+        });
+        return true;
+      } catch (error) {
+        console.error("Failed to save project", error);
+        setLastError(error instanceof Error ? error.message : String(error));
+        return false;
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [content, contentKey, isSaving, projectName],
+  );
+
+  const saveProject = useCallback(
+    () => writeProject(filePath),
+    [filePath, writeProject],
+  );
+
+  const saveProjectAs = useCallback(() => writeProject(null), [writeProject]);
+
+  const loadDocument = useCallback(
+    (
+      document: ProjectDocument,
+      documentPath: string | null,
+      { unsaved = false }: { unsaved?: boolean } = {},
+    ) => {
+      setAssets(document.media);
+      setClips(document.timeline.clips);
+      setTracks(document.timeline.tracks);
+      setMarkers(document.timeline.markers);
+      applySettings(document.background);
+      resetHistory({
+        clips: document.timeline.clips,
+        tracks: document.timeline.tracks,
+        markers: document.timeline.markers,
+        background: document.background,
+      });
+      setAspectRatio(document.aspectRatio);
+      setFilePath(documentPath);
+      setProjectName(
+        documentPath ? getProjectNameFromPath(documentPath) : document.name,
+      );
+      createdAtRef.current = document.createdAt;
+      setSavedKey(
+        unsaved
+          ? null
+          : getProjectContentKey({
+              aspectRatio: document.aspectRatio,
+              clips: document.timeline.clips,
+              tracks: document.timeline.tracks,
+              markers: document.timeline.markers,
+              background: document.background,
+              media: normalizeMediaAssets(document.media),
+            }),
+      );
+    },
+    [applySettings, resetHistory, setAssets, setClips, setTracks, setMarkers],
+  );
+
+  const openProject = useCallback(async () => {
+    const api = window.projectAPI;
+    if (!api) return false;
+
+    setLastError(null);
+
+    try {
+      const result = await api.openProject();
+      if (!result) {
+        return false;
+      }
+
+      loadDocument(parseProjectDocument(result.content), result.filePath);
+      return true;
+    } catch (error) {
+      console.error("Failed to open project", error);
+      setLastError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }, [loadDocument]);
+
+  const openProjectFile = useCallback(
+    async (projectPath: string) => {
+      const api = window.projectAPI;
+      if (!api) return false;
+
+      setLastError(null);
+
+      try {
+        const result = await api.openProjectFile(projectPath);
+        loadDocument(parseProjectDocument(result.content), result.filePath);
+        return true;
+      } catch (error) {
+        console.error(`Failed to open project ${projectPath}`, error);
+        setLastError(error instanceof Error ? error.message : String(error));
+        return false;
+      }
+    },
+    [loadDocument],
+  );
+
+  const closeProject = useCallback(() => {
+    const initialBackground = initialBackgroundRef.current;
+    const initialTracks = createDefaultTracks();
+    const initialClips: TimelineClip[] = [];
+    const initialMarkers: TimelineMarker[] = [];
+
+    setAssets([]);
+    setClips(initialClips);
+    setTracks(initialTracks);
+    setMarkers(initialMarkers);
+    applySettings(initialBackground);
+    resetHistory({
+      clips: initialClips,
+      tracks: initialTracks,
+      markers: initialMarkers,
+      background: initialBackground,
+    });
+    setAspectRatio(DEFAULT_ASPECT_RATIO);
+    setFilePath(null);
+    setProjectName(UNTITLED_PROJECT_NAME);
+    setLastError(null);
+    createdAtRef.current = undefined;
+    lastAutosaveKeyRef.current = null;
+    setSavedKey(
+      getProjectContentKey({
+        aspectRatio: DEFAULT_ASPECT_RATIO,
+        clips: [],
+        tracks: initialTracks,
+        markers: [],
+        background: initialBackground,
+        media: normalizeMediaAssets([]),
+      }),
+    );
+    void window.projectAPI?.clearAutosave().catch((error) => {
+      console.error("Failed to clear autosave snapshots", error);
+    });
+  }, [applySettings, resetHistory, setAssets, setClips, setTracks, setMarkers]);
+
+  const deleteProject = useCallback(async () => {
+    setLastError(null);
+
+    try {
+      if (filePath) {
+        await window.projectAPI?.deleteProject(filePath);
+      }
+      closeProject();
+      return true;
+    } catch (error) {
+      console.error("Failed to delete project", error);
+      setLastError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }, [closeProject, filePath]);
+
+  const recoverSnapshot = useCallback(
+    async (snapshot: AutosaveSnapshotInfo) => {
+      const api = window.projectAPI;
+      if (!api) return false;
+
+      setLastError(null);
+
+      try {
+        const { content: raw, projectPath } = await api.readAutosave(
+          snapshot.id,
+        );
+        loadDocument(parseProjectDocument(raw), projectPath, {
+          unsaved: true,
+        });
+        await api.discardAutosave(snapshot.sessionId);
+        return true;
+      } catch (error) {
+        console.error("Failed to recover autosave snapshot", error);
+        setLastError(error instanceof Error ? error.message : String(error));
+        return false;
+      }
+    },
+    [loadDocument],
+  );
+
+  // Periodically snapshot unsaved changes so they survive a crash
+  useEffect(() => {
+    const api = window.projectAPI;
+    if (!api) return;
+
+    const timer = window.setInterval(() => {
+      const state = autosaveStateRef.current;
+      if (!state.isDirty || state.contentKey === lastAutosaveKeyRef.current) {
+        return;
+      }
+
+      lastAutosaveKeyRef.current = state.contentKey;
+      const document = createProjectDocument(state.content, {
+        name: state.projectName,
+        createdAt: createdAtRef.current,
+      });
+
+      api
+        .writeAutosave({
+          content: serializeProjectDocument(document),
+          projectName: state.projectName,
+          projectPath: state.filePath,
+        })
+        .catch((error) => {
+          console.error("Failed to write autosave snapshot", error);
+          lastAutosaveKeyRef.current = null;
+        });
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      switch (e.key) {
+        case "s":
+        case "S":
+          e.preventDefault();
+          if (e.shiftKey) {
+            void saveProjectAs();
+          } else {
+            void saveProject();
+          }
+          break;
+        case "o":
+        case "O":
+          e.preventDefault();
+          void openProject();
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [openProject, saveProject, saveProjectAs]);
+
+  const value = useMemo<ProjectContextValue>(
+    () => ({
+      projectName,
+      filePath,
+      isDirty,
+      isSaving,
+      lastError,
+      aspectRatio,
+      setAspectRatio,
+      saveProject,
+      saveProjectAs,
+      openProject,
+      openProjectFile,
+      closeProject,
+      deleteProject,
+      recoverSnapshot,
+    }),
+    [
+      projectName,
+      filePath,
+      isDirty,
+      isSaving,
+      lastError,
+      aspectRatio,
+      saveProject,
+      saveProjectAs,
+      openProject,
+      openProjectFile,
+      closeProject,
+      deleteProject,
+      recoverSnapshot,
+    ],
+  );
+
+  return (
+    <ProjectContext.Provider value={value}>{children}</ProjectContext.Provider>
+  );
+}
+
+export function useProject() {
+  const context = useContext(ProjectContext);
+  if (!context) {
+    throw new Error("useProject must be used within ProjectProvider");
+  }
+  return context;
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { FILMSTRIP_INTERVALS } from "@electron/media/types";
+import { getMediaUrl, isLocalMediaPath } from "@/lib/media";
+import type { FilmstripResult } from "@/types/media";
+
+/** Narrowest a thumbnail is drawn before switching to a sparser level */
+const MIN_THUMBNAIL_WIDTH = 64;
+
+interface Filmstrip {
+  filePath: string;
+  /** Source seconds between thumbnails */
+  interval: number;
+  frameUrls: string[];
+}
+
+// Shared by every clip cut from the same asset
+const filmstripRequests = new Map<string, Promise<FilmstripResult>>();
+
+function requestFilmstrip(filePath: string, interval: number) {
+  const key = `${filePath}|${interval}`;
+  let request = filmstripRequests.get(key);
+
+  if (!request) {
+    request = window.mediaAPI!.getFilmstrip(filePath, interval);
+    filmstripRequests.set(key, request);
+    request.catch(() => filmstripRequests.delete(key));
+  }
+
+  return request;
+}
+
+/** Densest thumbnail interval that still leaves each one room to show */
+export function getFilmstripInterval(pixelsPerSourceSecond: number): number {
+  return (
+    FILMSTRIP_INTERVALS.find(
+      (interval) => interval * pixelsPerSourceSecond >= MIN_THUMBNAIL_WIDTH,
+    ) ?? FILMSTRIP_INTERVALS[FILMSTRIP_INTERVALS.length - 1]
+  );
+}
+
+/**
+ * Thumbnails of `filePath` at a density matching the zoom. The previous
+ * level stays on screen while a new one is extracted.
+ */
+export function useFilmstrip(
+  filePath: string | null,
+  pixelsPerSourceSecond: number,
+): Filmstrip | null {
+  const interval = getFilmstripInterval(pixelsPerSourceSecond);
+  const [filmstrip, setFilmstrip] = useState<Filmstrip | null>(null);
+
+  useEffect(() => {
+    if (!filePath || !isLocalMediaPath(filePath) || !window.mediaAPI) {
+      return;
+    }
+
+    let cancelled = false;
+
+    requestFilmstrip(filePath, interval)
+      .then((result) => {
+        if (cancelled) return;
+        setFilmstrip({
+          filePath,
+          interval: result.interval,
+          frameUrls: result.framePaths.map(getMediaUrl),
+        });
+      })
+      .catch((error) => {
+        console.error(`Failed to extract filmstrip for ${filePath}`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath, interval]);
+
+  return filmstrip && filmstrip.filePath === filePath ? filmstrip : null;
+}
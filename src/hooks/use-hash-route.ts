@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from "react";
+
+export type AppRoute = "welcome" | "editor";
+
+// Matches WELCOME_ROUTE in the main process, anything else is the editor
+const WELCOME_HASH = "#/welcome";
+
+function readRoute(): AppRoute {
+  return window.location.hash === WELCOME_HASH ? "welcome" : "editor";
+}
+
+export function useHashRoute() {
+  const [route, setRoute] = useState<AppRoute>(readRoute);
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(readRoute());
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  const navigate = useCallback((next: AppRoute) => {
+    window.location.hash = next === "welcome" ? WELCOME_HASH : "#/editor";
+  }, []);
+
+  return { route, navigate } as const;
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { getMediaUrl, isLocalMediaPath } from "@/lib/media";
+
+/**
+ * URL of a representative frame of a local video, extracted once by the main
+ * process. Null while it is extracted, when that failed, or for media that
+ * is not on disk (the bundled sample).
+ */
+export function usePoster(filePath: string | null): string | null {
+  const [poster, setPoster] = useState<{
+    filePath: string;
+    url: string;
+  } | null>(null);
+
+  useEffect(() => {
+    const api = window.mediaAPI;
+    if (!api || !filePath || !isLocalMediaPath(filePath)) return;
+
+    let cancelled = false;
+    api
+      .getPoster(filePath)
+      .then((posterPath) => {
+        if (!cancelled) setPoster({ filePath, url: getMediaUrl(posterPath) });
+      })
+      .catch((error) => {
+        console.error(`Failed to extract poster for ${filePath}`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  return poster && poster.filePath === filePath ? poster.url : null;
+}
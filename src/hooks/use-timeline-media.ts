@@ -0,0 +1,294 @@
+import { Assets, Texture } from "pixi.js";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePlayback } from "@/context/playback-context";
+import { useMedia } from "@/context/media-context";
+import { MAIN_MEDIA_ID, getMediaUrl } from "@/lib/media";
+import { getActiveClips, isVisualTrack } from "@/lib/timeline";
+import type { MediaAssetKind } from "@/types/media";
+
+interface LoadedMedia {
+  url: string;
+  kind: MediaAssetKind;
+  texture: Texture | null;
+  audio: HTMLAudioElement | null;
+}
+
+interface UseMediaTexturesOptions {
+  /** Load the original media instead of the preview proxy (export) */
+  useOriginalMedia?: boolean;
+  /** Receives video elements instead of them driving playback */
+  onVideoElement?: (mediaId: string, video: HTMLVideoElement) => void;
+  /** Called for a video or image that failed to load */
+  onMediaError?: (mediaId: string, error: unknown) => void;
+}
+
+/** Assets cut into the timeline, the main video always included */
+export function useTimelineMediaIds(): string[] {
+  const { clips } = usePlayback();
+  const key = useMemo(
+    () =>
+      [...new Set([MAIN_MEDIA_ID, ...clips.map((clip) => clip.mediaId)])].join(
+        "\n",
+      ),
+    [clips],
+  );
+
+  return useMemo(() => key.split("\n"), [key]);
+}
+
+/**
+ * Assets under the playhead (or the hover preview while there is one), one
+ * per visible picture track, bottom track first
+ */
+export function useActiveMediaIds(): string[] {
+  const {
+    clips,
+    tracks,
+    currentTime,
+    subscribeToTimeUpdate,
+    subscribeToPreviewTimeUpdate,
+  } = usePlayback();
+  const [activeKey, setActiveKey] = useState(MAIN_MEDIA_ID);
+  const timeRef = useRef(currentTime);
+  const previewTimeRef = useRef<number | null>(null);
+
+  const update = useCallback(() => {
+    // Before the timeline is built the main video is all there is
+    if (clips.length === 0) {
+      setActiveKey(MAIN_MEDIA_ID);
+      return;
+    }
+
+    // Playback stops exactly at the end, keep showing the last frame there
+    const end = Math.max(...clips.map((clip) => clip.start + clip.duration));
+    const time = Math.min(
+      previewTimeRef.current ?? timeRef.current,
+      end - 0.001,
+    );
+    setActiveKey(
+      getActiveClips(clips, tracks, time)
+        .filter(({ track }) => isVisualTrack(track))
+        .map(({ clip }) => clip.mediaId)
+        .join("\n"),
+    );
+  }, [clips, tracks]);
+
+  useEffect(() => {
+    timeRef.current = currentTime;
+    update();
+  }, [currentTime, update]);
+
+  useEffect(() => {
+    const unsubscribeTime = subscribeToTimeUpdate((time) => {
+      timeRef.current = time;
+      update();
+    });
+    const unsubscribePreview = subscribeToPreviewTimeUpdate((time) => {
+      previewTimeRef.current = time;
+      update();
+    });
+
+    return () => {
+      unsubscribeTime();
+      unsubscribePreview();
+    };
+  }, [subscribeToTimeUpdate, subscribeToPreviewTimeUpdate, update]);
+
+  return useMemo(() => (activeKey ? activeKey.split("\n") : []), [activeKey]);
+}
+
+/**
+ * Loads every asset in `mediaIds`: videos and images as Pixi textures,
+ * audio as plain elements. Video and audio elements are handed to the
+ * playback context (or `onVideoElement`) so the timeline can drive them.
+ * Assets that leave the list are released again.
+ */
+export function useMediaTextures(
+  mediaIds: string[],
+  {
+    useOriginalMedia = false,
+    onVideoElement,
+    onMediaError,
+  }: UseMediaTexturesOptions = {},
+) {
+  const { registerVideoElement, registerMediaElement } = usePlayback();
+  const { getAsset, getPreviewUrl } = useMedia();
+
+  const [textures, setTextures] = useState<Record<string, Texture>>({});
+  // Ids that finished loading, successfully or not
+  const [settledIds, setSettledIds] = useState<ReadonlySet<string>>(
+    () => new Set(),
+  );
+  const loadedRef = useRef(new Map<string, LoadedMedia>());
+  // Main video replaced by a new one (e.g. its proxy), kept until the new
+  // element takes over playback
+  const retiredMainRef = useRef<LoadedMedia | null>(null);
+
+  const wanted = useMemo(() => {
+    const entries = new Map<string, { url: string; kind: MediaAssetKind }>();
+    for (const mediaId of mediaIds) {
+      const asset = getAsset(mediaId);
+      if (!asset) continue;
+
+      entries.set(mediaId, {
+        kind: asset.kind,
+        url:
+          useOriginalMedia || asset.kind !== "video"
+            ? getMediaUrl(asset.path)
+            : getPreviewUrl(asset.path),
+      });
+    }
+    return entries;
+  }, [mediaIds, getAsset, getPreviewUrl, useOriginalMedia]);
+
+  const unloadRetiredMain = useCallback(() => {
+    const retired = retiredMainRef.current;
+    retiredMainRef.current = null;
+    // Loading the same URL again got the same texture back, keep it then
+    if (
+      retired?.texture &&
+      loadedRef.current.get(MAIN_MEDIA_ID)?.url !== retired.url
+    ) {
+      void Assets.unload(retired.url);
+    }
+  }, []);
+
+  const release = useCallback(
+    (mediaId: string, media: LoadedMedia) => {
+      loadedRef.current.delete(mediaId);
+      setTextures(({ [mediaId]: _released, ...rest }) => rest);
+      setSettledIds((previous) => {
+        const next = new Set(previous);
+        next.delete(mediaId);
+        return next;
+      });
+
+      if (media.audio) {
+        media.audio.pause();
+        media.audio.removeAttribute("src");
+        media.audio.load();
+      }
+
+      if (onVideoElement) {
+        // An original only the export loaded next to a preview proxy. The
+        // rest is shared with the preview, unloading it would break it.
+        const asset = getAsset(mediaId);
+        if (media.texture && asset && media.url !== getPreviewUrl(asset.path)) {
+          void Assets.unload(media.url);
+        }
+        return;
+      }
+
+      // The main video element stays registered until a new one replaces it
+      if (mediaId === MAIN_MEDIA_ID) {
+        unloadRetiredMain();
+        retiredMainRef.current = media;
+        return;
+      }
+
+      registerMediaElement(mediaId, null);
+      if (media.texture) {
+        void Assets.unload(media.url);
+      }
+    },
+    [
+      getAsset,
+      getPreviewUrl,
+      onVideoElement,
+      registerMediaElement,
+      unloadRetiredMain,
+    ],
+  );
+
+  const settle = useCallback((mediaId: string) => {
+    setSettledIds((previous) => new Set(previous).add(mediaId));
+  }, []);
+
+  useEffect(() => {
+    const loaded = loadedRef.current;
+
+    for (const [mediaId, media] of loaded) {
+      if (wanted.get(mediaId)?.url !== media.url) {
+        release(mediaId, media);
+      }
+    }
+
+    for (const [mediaId, { url, kind }] of wanted) {
+      if (loaded.has(mediaId)) continue;
+
+      const media: LoadedMedia = { url, kind, texture: null, audio: null };
+      loaded.set(mediaId, media);
+      const isCurrent = () => loaded.get(mediaId) === media;
+
+      if (kind === "audio") {
+        const audio = new Audio(url);
+        audio.preload = "auto";
+        media.audio = audio;
+        if (!onVideoElement) {
+          registerMediaElement(mediaId, audio);
+        }
+        settle(mediaId);
+        continue;
+      }
+
+      // media:// URLs of .mkv and friends have no extension Pixi knows
+      Assets.load<Texture>({
+        src: url,
+        loadParser: kind === "video" ? "loadVideo" : "loadTextures",
+      })
+        .then((texture) => {
+          if (!isCurrent()) return;
+          media.texture = texture;
+          setTextures((previous) => ({ ...previous, [mediaId]: texture }));
+
+          if (kind === "video" && texture.source?.resource) {
+            // In PixiJS v8, the resource is the HTMLVideoElement for video textures
+            const video = texture.source.resource as HTMLVideoElement;
+            if (onVideoElement) {
+              onVideoElement(mediaId, video);
+            } else if (mediaId === MAIN_MEDIA_ID) {
+              registerVideoElement(video, getAsset(mediaId)?.path);
+              unloadRetiredMain();
+            } else {
+              registerMediaElement(mediaId, video);
+            }
+          }
+        })
+        .catch((error) => {
+          console.error(`Failed to load media texture from ${url}`, error);
+          if (isCurrent()) {
+            onMediaError?.(mediaId, error);
+          }
+        })
+        .finally(() => {
+          if (isCurrent()) {
+            settle(mediaId);
+          }
+        });
+    }
+  }, [
+    wanted,
+    release,
+    settle,
+    onVideoElement,
+    onMediaError,
+    getAsset,
+    registerMediaElement,
+    registerVideoElement,
+    unloadRetiredMain,
+  ]);
+
+  // Release everything on unmount
+  const releaseRef = useRef(release);
+  releaseRef.current = release;
+  useEffect(
+    () => () => {
+      for (const [mediaId, media] of loadedRef.current) {
+        releaseRef.current(mediaId, media);
+      }
+    },
+    [],
+  );
+
+  return { textures, settledIds };
+}
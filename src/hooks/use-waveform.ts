@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { getMediaUrl, isLocalMediaPath } from "@/lib/media";
+import {
+  buildWaveformLevels,
+  getWaveformLevel,
+  type WaveformLevel,
+  type WaveformWorkerRequest,
+  type WaveformWorkerResponse,
+} from "@/lib/waveform";
+
+// Shared by every clip cut from the same asset
+const waveformRequests = new Map<string, Promise<WaveformLevel[]>>();
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const workerJobs = new Map<
+  number,
+  { resolve: (peaks: Uint8Array) => void; reject: (error: Error) => void }
+>();
+
+function analyzeInWorker(url: string): Promise<Uint8Array> {
+  if (!worker) {
+    worker = new Worker(
+      new URL("../workers/waveform.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.onmessage = (event: MessageEvent<WaveformWorkerResponse>) => {
+      const response = event.data;
+      const job = workerJobs.get(response.id);
+      workerJobs.delete(response.id);
+
+      if ("error" in response) {
+        job?.reject(new Error(response.error));
+      } else {
+        job?.resolve(response.peaks);
+      }
+    };
+  }
+
+  const id = nextJobId++;
+  return new Promise((resolve, reject) => {
+    workerJobs.set(id, { resolve, reject });
+    // Workers resolve relative URLs against their own script
+    const request: WaveformWorkerRequest = {
+      id,
+      url: new URL(url, window.location.href).href,
+    };
+    worker!.postMessage(request);
+  });
+}
+
+async function loadPeaks(filePath: string): Promise<Uint8Array> {
+  const api = window.mediaAPI;
+  // The bundled sample is not a file on disk, so it is never cached
+  const cacheable = Boolean(api) && isLocalMediaPath(filePath);
+
+  if (cacheable) {
+    const cached = await api!.readWaveform(filePath);
+    if (cached) return cached;
+  }
+
+  const peaks = await analyzeInWorker(getMediaUrl(filePath));
+
+  if (cacheable) {
+    api!.writeWaveform(filePath, peaks).catch((error) => {
+      console.error(`Failed to cache waveform for ${filePath}`, error);
+    });
+  }
+
+  return peaks;
+}
+
+/** Every resolution of the waveform of `filePath`, loaded once per file */
+export function requestWaveform(filePath: string) {
+  let request = waveformRequests.get(filePath);
+
+  if (!request) {
+    request = loadPeaks(filePath).then(buildWaveformLevels);
+    waveformRequests.set(filePath, request);
+    request.catch(() => waveformRequests.delete(filePath));
+  }
+
+  return request;
+}
+
+/**
+ * Audio peaks of `filePath` at the resolution matching the zoom. Null
+ * until the source has been analyzed, or when it has no audio.
+ */
+export function useWaveform(
+  filePath: string | null,
+  pixelsPerSourceSecond: number,
+): WaveformLevel | null {
+  const [waveform, setWaveform] = useState<{
+    filePath: string;
+    levels: WaveformLevel[];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!filePath) return;
+
+    let cancelled = false;
+
+    requestWaveform(filePath)
+      .then((levels) => {
+        if (!cancelled) {
+          setWaveform({ filePath, levels });
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to compute waveform for ${filePath}`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  if (
+    !waveform ||
+    waveform.filePath !== filePath ||
+    waveform.levels[0].peaks.length === 0
+  ) {
+    return null;
+  }
+
+  return getWaveformLevel(waveform.levels, pixelsPerSourceSecond);
+}
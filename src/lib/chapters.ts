@@ -0,0 +1,177 @@
+import type { TimelineMarker } from "@/components/timeline/types";
+
+export interface Chapter {
+  start: number; // Timeline seconds
+  title: string;
+}
+
+// Title of the chapter added at 0:00 when the first marker comes later
+const INTRO_TITLE = "Intro";
+
+// Nero chapters store their start in 100 ns units
+const CHPL_TIMESCALE = 10_000_000;
+// One byte holds the chapter count and each title's length
+const CHPL_MAX_COUNT = 255;
+const CHPL_MAX_TITLE_BYTES = 255;
+
+/**
+ * Chapters from the markers within the exported `range` of the timeline,
+ * in time order and relative to its start. Players and YouTube expect the
+ * first chapter at 0:00, so one is added when no marker sits there.
+ */
+export function getChapters(
+  markers: TimelineMarker[],
+  range: { start: number; end: number },
+): Chapter[] {
+  const chapters = [...markers]
+    .filter((marker) => marker.time >= range.start && marker.time < range.end)
+    .sort((a, b) => a.time - b.time)
+    .map((marker) => ({
+      start: marker.time - range.start,
+      title: marker.name,
+    }));
+
+  if (chapters.length > 0 && Math.floor(chapters[0].start) > 0) {
+    chapters.unshift({ start: 0, title: INTRO_TITLE });
+  }
+
+  return chapters;
+}
+
+/** "01:05", or "1:02:05" past the hour */
+function formatChapterTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, "0")}:${secs}`
+    : `${mins.toString().padStart(2, "0")}:${secs}`;
+}
+
+/** Chapter list in the "00:00 Intro" form YouTube reads from descriptions */
+export function formatChapterList(chapters: Chapter[]): string {
+  return chapters
+    .map((chapter) => `${formatChapterTime(chapter.start)} ${chapter.title}`)
+    .join("\n");
+}
+
+/** UTF-8 bytes of `text`, cut back to a whole character within `maxBytes` */
+function encodeTitle(text: string, maxBytes: number): Uint8Array {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length <= maxBytes) return bytes;
+
+  let end = maxBytes;
+  // Continuation bytes look like 10xxxxxx
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+}
+
+/** Nero `chpl` box, the chapter list ffmpeg, VLC and mpv read from MP4 */
+function createChplBox(chapters: Chapter[]): Uint8Array {
+  const entries = chapters.slice(0, CHPL_MAX_COUNT).map((chapter) => ({
+    start: BigInt(Math.round(chapter.start * CHPL_TIMESCALE)),
+    title: encodeTitle(chapter.title, CHPL_MAX_TITLE_BYTES),
+  }));
+  const size =
+    17 + entries.reduce((sum, entry) => sum + 9 + entry.title.length, 0);
+
+  const box = new Uint8Array(size);
+  const view = new DataView(box.buffer);
+  view.setUint32(0, size);
+  box.set(new TextEncoder().encode("chpl"), 4);
+  view.setUint32(8, 0x01000000); // Version 1, no flags
+  view.setUint32(12, 0); // Reserved
+  view.setUint8(16, entries.length);
+
+  let offset = 17;
+  for (const entry of entries) {
+    view.setBigUint64(offset, entry.start);
+    view.setUint8(offset + 8, entry.title.length);
+    box.set(entry.title, offset + 9);
+    offset += 9 + entry.title.length;
+  }
+
+  return box;
+}
+
+interface Mp4Box {
+  type: string;
+  offset: number;
+  size: number;
+}
+
+/** Boxes laid out one after the other between `start` and `end` */
+function readBoxes(view: DataView, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = String.fromCharCode(
+      ...new Uint8Array(view.buffer, view.byteOffset + offset + 4, 4),
+    );
+
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < 8) break;
+
+    boxes.push({ type, offset, size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Embed `chapters` in an MP4 file. The `moov` box grows, so it has to come
+ * after the media data (no fast start) or every sample offset would move;
+ * otherwise the file is returned as it was.
+ */
+export function addMp4Chapters(
+  buffer: ArrayBuffer,
+  chapters: Chapter[],
+): ArrayBuffer {
+  if (chapters.length === 0) return buffer;
+
+  const view = new DataView(buffer);
+  const boxes = readBoxes(view, 0, buffer.byteLength);
+  const moov = boxes.find((box) => box.type === "moov");
+  const mdat = boxes.find((box) => box.type === "mdat");
+
+  if (!moov || !mdat || moov.offset < mdat.offset) {
+    console.warn("Cannot add chapters: the MP4 movie box precedes its media");
+    return buffer;
+  }
+
+  const chpl = createChplBox(chapters);
+  const udta = readBoxes(view, moov.offset + 8, moov.offset + moov.size).find(
+    (box) => box.type === "udta",
+  );
+
+  // Insert into the existing user data box, or add one at the end of moov
+  const insertAt = udta ? udta.offset + udta.size : moov.offset + moov.size;
+  const insert = udta ? chpl : new Uint8Array(8 + chpl.length);
+  if (!udta) {
+    new DataView(insert.buffer).setUint32(0, insert.length);
+    insert.set(new TextEncoder().encode("udta"), 4);
+    insert.set(chpl, 8);
+  }
+
+  const result = new Uint8Array(buffer.byteLength + insert.length);
+  result.set(new Uint8Array(buffer, 0, insertAt), 0);
+  result.set(insert, insertAt);
+  result.set(new Uint8Array(buffer, insertAt), insertAt + insert.length);
+
+  const resultView = new DataView(result.buffer);
+  resultView.setUint32(moov.offset, moov.size + insert.length);
+  if (udta) {
+    resultView.setUint32(udta.offset, udta.size + insert.length);
+  }
+
+  return result.buffer;
+}
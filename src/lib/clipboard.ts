@@ -0,0 +1,118 @@
+import type { TimelineClip } from "@/components/timeline/types";
+import type { ProjectMediaReference } from "@/types/project";
+
+export const CLIPBOARD_FORMAT = "openscreen-clips";
+export const CLIPBOARD_FORMAT_VERSION = 1;
+
+/**
+ * Clips as copied to the system clipboard. They carry the media they are cut
+ * from, so they paste into another project (or another window) as well.
+ */
+export interface ClipboardContent {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  /** In time order, with the tracks and spacing they were copied with */
+  clips: TimelineClip[];
+  media: ProjectMediaReference[];
+}
+
+export function serializeClipboard(
+  clips: TimelineClip[],
+  media: ProjectMediaReference[],
+): string {
+  const mediaIds = new Set(clips.map((clip) => clip.mediaId));
+  const content: ClipboardContent = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_FORMAT_VERSION,
+    clips: [...clips].sort((a, b) => a.start - b.start),
+    media: media.filter((asset) => mediaIds.has(asset.id)),
+  };
+
+  return JSON.stringify(content);
+}
+
+const CLIP_TYPES: TimelineClip["type"][] = [
+  "video",
+  "audio",
+  "image",
+  "text",
+  "effect",
+];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isOptionalFiniteNumber = (value: unknown) =>
+  value === undefined || isFiniteNumber(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0;
+
+/** Whether `value` is a clip the timeline math can work with */
+function isValidClip(value: unknown): value is TimelineClip {
+  if (!value || typeof value !== "object") return false;
+  const clip = value as Record<string, unknown>;
+
+  return (
+    isNonEmptyString(clip.id) &&
+    isNonEmptyString(clip.mediaId) &&
+    isNonEmptyString(clip.trackId) &&
+    typeof clip.name === "string" &&
+    (clip.linkId === undefined || typeof clip.linkId === "string") &&
+    CLIP_TYPES.includes(clip.type as TimelineClip["type"]) &&
+    isFiniteNumber(clip.start) &&
+    clip.start >= 0 &&
+    isFiniteNumber(clip.duration) &&
+    clip.duration > 0 &&
+    (clip.speed === undefined ||
+      (isFiniteNumber(clip.speed) && clip.speed > 0)) &&
+    isOptionalFiniteNumber(clip.volume) &&
+    isOptionalFiniteNumber(clip.trimStart) &&
+    isOptionalFiniteNumber(clip.trimEnd) &&
+    isOptionalFiniteNumber(clip.originalDuration) &&
+    isOptionalFiniteNumber(clip.freezeTime) &&
+    (clip.speedKeyframes === undefined ||
+      (Array.isArray(clip.speedKeyframes) &&
+        clip.speedKeyframes.every(
+          (keyframe) =>
+            isFiniteNumber(keyframe?.sourceTime) &&
+            isFiniteNumber(keyframe?.speed) &&
+            keyframe.speed > 0,
+        )))
+  );
+}
+
+function isValidMediaReference(value: unknown): value is ProjectMediaReference {
+  if (!value || typeof value !== "object") return false;
+  const reference = value as Record<string, unknown>;
+  return isNonEmptyString(reference.id) && isNonEmptyString(reference.path);
+}
+
+/**
+ * Clips from clipboard text, null when it holds anything else. Every clip
+ * and media reference is checked, clipboard text can be anything.
+ */
+export function parseClipboard(text: string): ClipboardContent | null {
+  let data: Partial<ClipboardContent>;
+
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (
+    !data ||
+    data.format !== CLIPBOARD_FORMAT ||
+    typeof data.version !== "number" ||
+    data.version > CLIPBOARD_FORMAT_VERSION ||
+    !Array.isArray(data.clips) ||
+    !Array.isArray(data.media) ||
+    !data.clips.every(isValidClip) ||
+    !data.media.every(isValidMediaReference)
+  ) {
+    return null;
+  }
+
+  return data as ClipboardContent;
+}
@@ -0,0 +1,306 @@
+import {
+  ALL_FORMATS,
+  AudioBufferSink,
+  Input,
+  UrlSource,
+  canEncodeAudio,
+  type AudioCodec,
+  type InputAudioTrack,
+} from "mediabunny";
+import type { TimelineClip, TimelineTrack } from "@/components/timeline/types";
+import {
+  getClipMediaTime,
+  getClipVolume,
+  isTrackAudible,
+} from "@/lib/timeline";
+
+/** Opus only encodes at 48 kHz, so the whole mix is made at that rate */
+export const EXPORT_AUDIO_SAMPLE_RATE = 48_000;
+export const EXPORT_AUDIO_CHANNELS = 2;
+
+// Source decoded around each block, so reads near its edges find samples
+const DECODE_MARGIN = 0.1;
+
+// Spacing of the grains a sped up clip is stretched with, each grain two
+// hops long and overlapping its neighbours by half: about 43 ms of sound
+const GRAIN_HOP = 1024;
+
+/** Decoded source audio from `start` (seconds) on */
+interface SourceAudio {
+  start: number;
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/**
+ * Codec the sound of an export is encoded with: AAC in MP4 where the
+ * platform has an encoder for it, Opus otherwise. Null when neither can be
+ * encoded, the export is then silent.
+ */
+export async function getExportAudioCodec(
+  container: "mp4" | "webm",
+): Promise<AudioCodec | null> {
+  const candidates: AudioCodec[] =
+    container === "mp4" ? ["aac", "opus"] : ["opus"];
+
+  for (const codec of candidates) {
+    const supported = await canEncodeAudio(codec, {
+      numberOfChannels: EXPORT_AUDIO_CHANNELS,
+      sampleRate: EXPORT_AUDIO_SAMPLE_RATE,
+    });
+    if (supported) return codec;
+  }
+  return null;
+}
+
+/** Clips whose sound goes into the export, as the preview plays them */
+export function getExportAudioClips(
+  clips: TimelineClip[],
+  tracks: TimelineTrack[],
+): TimelineClip[] {
+  return clips.filter((clip) => {
+    const track = tracks.find((t) => t.id === clip.trackId);
+    return (
+      track !== undefined &&
+      isTrackAudible(track, tracks) &&
+      !clip.muted &&
+      clip.freezeTime === undefined &&
+      getClipVolume(clip) > 0 &&
+      (clip.type === "video" || clip.type === "audio")
+    );
+  });
+}
+
+/** Sample of `channel` at `time`, linearly interpolated, silent outside */
+function readSample(audio: SourceAudio, channel: number, time: number) {
+  const data = audio.channels[Math.min(channel, audio.channels.length - 1)];
+  const position = (time - audio.start) * audio.sampleRate;
+  const index = Math.floor(position);
+  if (index < 0 || index + 1 >= data.length) return 0;
+
+  const fraction = position - index;
+  return data[index] * (1 - fraction) + data[index + 1] * fraction;
+}
+
+/** Whether `clip` plays its source at anything but normal speed */
+function isStretched(clip: TimelineClip): boolean {
+  return (clip.speedKeyframes?.length ?? 0) > 0 || (clip.speed ?? 1) !== 1;
+}
+
+/**
+ * Mixes the sound of the timeline block by block, so long exports never
+ * hold more than one block of decoded audio. Each clip plays with its
+ * track's mute and solo state and its own volume. Sped up and slowed down
+ * clips are time-stretched so they keep their pitch, as the preview does.
+ */
+export class TimelineAudioMixer {
+  private readonly clips: TimelineClip[];
+  private readonly getMediaUrl: (mediaId: string) => string | null;
+  private readonly tracks = new Map<
+    string,
+    Promise<{ input: Input; track: InputAudioTrack } | null>
+  >();
+
+  constructor(
+    clips: TimelineClip[],
+    tracks: TimelineTrack[],
+    getMediaUrl: (mediaId: string) => string | null,
+  ) {
+    this.clips = getExportAudioClips(clips, tracks);
+    this.getMediaUrl = getMediaUrl;
+  }
+
+  get isEmpty(): boolean {
+    return this.clips.length === 0;
+  }
+
+  /** Primary audio track of an asset, null when it has none */
+  private getAudioTrack(mediaId: string) {
+    let track = this.tracks.get(mediaId);
+
+    if (!track) {
+      const url = this.getMediaUrl(mediaId);
+      track = url
+        ? (async () => {
+            const input = new Input({
+              source: new UrlSource(new URL(url, window.location.href).href),
+              formats: ALL_FORMATS,
+            });
+            const audioTrack = await input.getPrimaryAudioTrack();
+            if (!audioTrack || !(await audioTrack.canDecode())) {
+              input.dispose();
+              return null;
+            }
+            return { input, track: audioTrack };
+          })().catch((error) => {
+            console.error(`Failed to open the audio of ${mediaId}`, error);
+            return null;
+          })
+        : Promise.resolve(null);
+      this.tracks.set(mediaId, track);
+    }
+
+    return track;
+  }
+
+  /** Source audio of `mediaId` between `from` and `to` (seconds) */
+  private async decode(
+    mediaId: string,
+    from: number,
+    to: number,
+  ): Promise<SourceAudio | null> {
+    const opened = await this.getAudioTrack(mediaId);
+    if (!opened) return null;
+
+    const buffers: { timestamp: number; buffer: AudioBuffer }[] = [];
+    const sink = new AudioBufferSink(opened.track);
+    for await (const { buffer, timestamp } of sink.buffers(
+      Math.max(0, from - DECODE_MARGIN),
+      to + DECODE_MARGIN,
+    )) {
+      buffers.push({ buffer, timestamp });
+    }
+    if (buffers.length === 0) return null;
+
+    const { sampleRate, numberOfChannels } = buffers[0].buffer;
+    const start = buffers[0].timestamp;
+    const last = buffers[buffers.length - 1];
+    const length = Math.ceil(
+      (last.timestamp - start) * sampleRate + last.buffer.length,
+    );
+    const channels = Array.from(
+      { length: numberOfChannels },
+      () => new Float32Array(length),
+    );
+
+    for (const { buffer, timestamp } of buffers) {
+      const offset = Math.round((timestamp - start) * sampleRate);
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        const data = buffer
+          .getChannelData(Math.min(channel, buffer.numberOfChannels - 1))
+          .subarray(0, Math.max(0, length - offset));
+        channels[channel].set(data, offset);
+      }
+    }
+
+    return { start, sampleRate, channels };
+  }
+
+  /** Add the sound of `clip` to `output`, which starts at timeline `start` */
+  private async mixClip(
+    clip: TimelineClip,
+    output: Float32Array[],
+    start: number,
+  ) {
+    const sampleRate = EXPORT_AUDIO_SAMPLE_RATE;
+    const end = start + output[0].length / sampleRate;
+    const from = Math.max(clip.start, start);
+    const to = Math.min(clip.start + clip.duration, end);
+    if (to <= from) return;
+
+    const first = Math.ceil((from - start) * sampleRate);
+    const last = Math.min(
+      output[0].length,
+      Math.ceil((to - start) * sampleRate),
+    );
+    const volume = getClipVolume(clip);
+
+    if (!isStretched(clip)) {
+      const source = await this.decode(
+        clip.mediaId,
+        getClipMediaTime(clip, from),
+        getClipMediaTime(clip, to),
+      );
+      if (!source) return;
+
+      for (let index = first; index < last; index++) {
+        const sourceTime = getClipMediaTime(clip, start + index / sampleRate);
+        for (let channel = 0; channel < output.length; channel++) {
+          output[channel][index] +=
+            readSample(source, channel, sourceTime) * volume;
+        }
+      }
+      return;
+    }
+
+    // Overlap-add: grain k sits at clip sample k * GRAIN_HOP and plays the
+    // source at normal speed from where the clip is at that moment, so the
+    // speed only changes which stretch of source each grain picks
+    const grainSources = new Map<number, number>();
+    const getGrainSource = (grain: number) => {
+      let sourceTime = grainSources.get(grain);
+      if (sourceTime === undefined) {
+        sourceTime = getClipMediaTime(
+          clip,
+          clip.start + (grain * GRAIN_HOP) / sampleRate,
+        );
+        grainSources.set(grain, sourceTime);
+      }
+      return sourceTime;
+    };
+    const offset = (start - clip.start) * sampleRate;
+    const firstGrain = Math.floor((offset + first) / GRAIN_HOP);
+    const lastGrain = Math.floor((offset + last) / GRAIN_HOP) + 1;
+
+    const source = await this.decode(
+      clip.mediaId,
+      Math.min(getGrainSource(firstGrain), getGrainSource(firstGrain + 1)) -
+        GRAIN_HOP / sampleRate,
+      Math.max(getGrainSource(lastGrain - 1), getGrainSource(lastGrain)) +
+        GRAIN_HOP / sampleRate,
+    );
+    if (!source) return;
+
+    for (let index = first; index < last; index++) {
+      const position = offset + index;
+      const grain = Math.floor(position / GRAIN_HOP);
+      const phase = position - grain * GRAIN_HOP;
+      // Hann crossfade from this grain to the next, the two always sum to 1
+      const fade = 0.5 * (1 + Math.cos((Math.PI * phase) / GRAIN_HOP));
+      const current = getGrainSource(grain) + phase / sampleRate;
+      const next = getGrainSource(grain + 1) + (phase - GRAIN_HOP) / sampleRate;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][index] +=
+          (readSample(source, channel, current) * fade +
+            readSample(source, channel, next) * (1 - fade)) *
+          volume;
+      }
+    }
+  }
+
+  /** The mix of `length` samples from timeline `start` */
+  async render(start: number, length: number): Promise<AudioBuffer> {
+    const output = Array.from(
+      { length: EXPORT_AUDIO_CHANNELS },
+      () => new Float32Array(length),
+    );
+
+    for (const clip of this.clips) {
+      await this.mixClip(clip, output, start);
+    }
+
+    const buffer = new AudioBuffer({
+      length,
+      numberOfChannels: EXPORT_AUDIO_CHANNELS,
+      sampleRate: EXPORT_AUDIO_SAMPLE_RATE,
+    });
+    output.forEach((data, channel) => {
+      // Overlapping clips can add up past full scale
+      for (let index = 0; index < data.length; index++) {
+        data[index] = Math.max(-1, Math.min(1, data[index]));
+      }
+      buffer.copyToChannel(data, channel);
+    });
+
+    return buffer;
+  }
+
+  async dispose() {
+    const opened = await Promise.all(this.tracks.values());
+    for (const entry of opened) {
+      entry?.input.dispose();
+    }
+    this.tracks.clear();
+  }
+}
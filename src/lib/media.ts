@@ -0,0 +1,105 @@
+import {
+  AUDIO_FILE_EXTENSIONS,
+  IMAGE_FILE_EXTENSIONS,
+  MEDIA_PROTOCOL,
+  MEDIA_PROTOCOL_HOST,
+  VIDEO_FILE_EXTENSIONS,
+} from "@electron/media/types";
+import type { MediaAssetKind, MediaProbeResult } from "@/types/media";
+import type { ProjectMediaReference } from "@/types/project";
+
+/** Recording bundled with the app, edited until the user opens their own */
+export const DEFAULT_VIDEO_SOURCE = "/video/output.mp4";
+
+/** Id of the video the timeline is cut from */
+export const MAIN_MEDIA_ID = "main-video";
+
+/** `DataTransfer` type carrying an asset id from the media library */
+export const MEDIA_ASSET_DRAG_TYPE = "application/x-openscreen-asset";
+
+/** Timeline length of an image dropped from the media library */
+export const DEFAULT_IMAGE_DURATION = 5;
+
+export function getFileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
+
+export const DEFAULT_MEDIA_SOURCE: ProjectMediaReference = {
+  id: MAIN_MEDIA_ID,
+  name: getFileName(DEFAULT_VIDEO_SOURCE),
+  path: DEFAULT_VIDEO_SOURCE,
+  kind: "video",
+};
+
+/** Library order: the main video first (the sample if there is none) */
+export function normalizeMediaAssets(
+  assets: ProjectMediaReference[],
+): ProjectMediaReference[] {
+  const main = assets.find((asset) => asset.id === MAIN_MEDIA_ID);
+  return [
+    main ?? DEFAULT_MEDIA_SOURCE,
+    ...assets.filter((asset) => asset.id !== MAIN_MEDIA_ID),
+  ];
+}
+
+const getExtension = (filePath: string) =>
+  filePath.split(".").pop()?.toLowerCase() ?? "";
+
+export function isVideoFile(filePath: string): boolean {
+  return VIDEO_FILE_EXTENSIONS.includes(getExtension(filePath));
+}
+
+/** Kind of a file the media library accepts, null for anything else */
+export function getMediaKind(filePath: string): MediaAssetKind | null {
+  const extension = getExtension(filePath);
+  if (VIDEO_FILE_EXTENSIONS.includes(extension)) return "video";
+  if (IMAGE_FILE_EXTENSIONS.includes(extension)) return "image";
+  if (AUDIO_FILE_EXTENSIONS.includes(extension)) return "audio";
+  return null;
+}
+
+/** Frame rates offered for export */
+export const EXPORT_FRAME_RATES = [24, 25, 30, 50, 60] as const;
+export const DEFAULT_EXPORT_FPS = 30;
+
+/** False for the bundled sample, which is served by the renderer itself */
+export function isLocalMediaPath(filePath: string): boolean {
+  return filePath !== DEFAULT_VIDEO_SOURCE;
+}
+
+/**
+ * URL the renderer loads a media path from. Local files go through the
+ * main process `media://` protocol, which supports range requests.
+ */
+export function getMediaUrl(filePath: string): string {
+  if (!isLocalMediaPath(filePath)) {
+    return filePath;
+  }
+
+  // Windows paths use backslashes and drive letters, both fine once encoded
+  return `${MEDIA_PROTOCOL}://${MEDIA_PROTOCOL_HOST}/${encodeURIComponent(filePath)}`;
+}
+
+/** Frame rate the source was captured at, null when unknown */
+export function getSourceFrameRate(
+  probe: MediaProbeResult | null,
+): number | null {
+  const video = probe?.video;
+  if (!video) return null;
+
+  // The average of a VFR screen recording undercounts what it was captured at
+  const sourceFps = video.isVariableFrameRate
+    ? (video.nominalFrameRate ?? video.frameRate)
+    : video.frameRate;
+  return sourceFps || null;
+}
+
+/** Standard export frame rate closest to the source's */
+export function getDefaultExportFps(probe: MediaProbeResult | null): number {
+  const sourceFps = getSourceFrameRate(probe);
+  if (!sourceFps) return DEFAULT_EXPORT_FPS;
+
+  return EXPORT_FRAME_RATES.reduce((best, fps) =>
+    Math.abs(fps - sourceFps) < Math.abs(best - sourceFps) ? fps : best,
+  );
+}
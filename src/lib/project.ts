@@ -0,0 +1,217 @@
+import type {
+  TimelineClip,
+  TimelineMarker,
+  TimelineTrack,
+} from "@/components/timeline/types";
+import type { BackgroundSettings } from "@/context/background-context";
+import type { ProjectDocument, ProjectMediaReference } from "@/types/project";
+import { MAIN_MEDIA_ID, getFileName } from "@/lib/media";
+import {
+  DEFAULT_TRACK_ID,
+  MAX_CLIP_VOLUME,
+  createDefaultTracks,
+} from "@/lib/timeline";
+
+export const PROJECT_FORMAT = "openscreen-project";
+export const PROJECT_FORMAT_VERSION = 6;
+export const UNTITLED_PROJECT_NAME = "Untitled";
+
+/** Everything the user can edit, i.e. what makes a project "dirty" */
+export interface ProjectContent {
+  aspectRatio: string;
+  clips: TimelineClip[];
+  tracks: TimelineTrack[];
+  markers: TimelineMarker[];
+  background: BackgroundSettings;
+  media: ProjectMediaReference[];
+}
+
+/**
+ * Stable string used to compare the editable content of a project without
+ * the metadata (timestamps, name) that changes on every save.
+ */
+export function getProjectContentKey(content: ProjectContent): string {
+  return JSON.stringify({
+    aspectRatio: content.aspectRatio,
+    clips: content.clips,
+    tracks: content.tracks,
+    markers: content.markers,
+    background: content.background,
+    media: content.media,
+  });
+}
+
+export function createProjectDocument(
+  content: ProjectContent,
+  meta: { name: string; createdAt?: string },
+): ProjectDocument {
+  const now = new Date().toISOString();
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    name: meta.name,
+    createdAt: meta.createdAt ?? now,
+    updatedAt: now,
+    aspectRatio: content.aspectRatio,
+    timeline: {
+      clips: content.clips,
+      tracks: content.tracks,
+      markers: content.markers,
+    },
+    background: content.background,
+    media: content.media,
+  };
+}
+
+export function serializeProjectDocument(document: ProjectDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Clips used to have a `waveform` of preview samples. It was never saved,
+ * but hand-edited or foreign files may still carry one; the peaks now come
+ * from the waveform cache, so it is dropped.
+ */
+function dropLegacyWaveform(
+  clip: TimelineClip & { waveform?: unknown },
+): TimelineClip {
+  const { waveform: _waveform, ...rest } = clip;
+  return rest;
+}
+
+export function parseProjectDocument(raw: string): ProjectDocument {
+  let data: Partial<ProjectDocument>;
+
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("Project file is not valid JSON");
+  }
+
+  if (!data || data.format !== PROJECT_FORMAT) {
+    throw new Error("File is not an OpenScreen project");
+  }
+
+  if (typeof data.version !== "number" || data.version < 1) {
+    throw new Error("Project file has no valid format version");
+  }
+
+  if (data.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(
+      `Project was saved by a newer version of OpenScreen (format v${data.version})`,
+    );
+  }
+
+  if (
+    !data.timeline ||
+    !Array.isArray(data.timeline.clips) ||
+    (data.version >= 3 && !Array.isArray(data.timeline.tracks)) ||
+    (data.version >= 4 && !Array.isArray(data.timeline.markers)) ||
+    !data.background
+  ) {
+    throw new Error("Project file is missing timeline or background data");
+  }
+
+  const document: ProjectDocument = {
+    format: PROJECT_FORMAT,
+    version: data.version,
+    name: data.name ?? UNTITLED_PROJECT_NAME,
+    createdAt: data.createdAt ?? new Date().toISOString(),
+    updatedAt: data.updatedAt ?? new Date().toISOString(),
+    aspectRatio: data.aspectRatio ?? "16-9",
+    timeline: {
+      clips: data.timeline.clips.map(dropLegacyWaveform),
+      // Added in v3, the migration below fills it in for older files
+      tracks: data.timeline.tracks ?? [],
+      // Added in v4
+      markers: data.timeline.markers ?? [],
+    },
+    background: data.background,
+    media: data.media ?? [],
+  };
+
+  return migrateProjectDocument(document);
+}
+
+/** Upgrade an older document to PROJECT_FORMAT_VERSION, step by step */
+function migrateProjectDocument(document: ProjectDocument): ProjectDocument {
+  let migrated = document;
+
+  // v2: media became a library of typed assets and clips name their asset.
+  // Everything in a v1 project was cut from the single main video.
+  if (migrated.version < 2) {
+    migrated = {
+      ...migrated,
+      version: 2,
+      timeline: {
+        ...migrated.timeline,
+        clips: migrated.timeline.clips.map((clip) => ({
+          ...clip,
+          mediaId: clip.mediaId ?? MAIN_MEDIA_ID,
+        })),
+      },
+      media: migrated.media.map((reference) => ({
+        ...reference,
+        kind: reference.kind ?? "video",
+      })),
+    };
+  }
+
+  // v3: the timeline has tracks. Older projects had a single video track.
+  if (migrated.version < 3) {
+    migrated = {
+      ...migrated,
+      version: 3,
+      timeline: {
+        ...migrated.timeline,
+        clips: migrated.timeline.clips.map((clip) => ({
+          ...clip,
+          trackId: clip.trackId ?? DEFAULT_TRACK_ID,
+        })),
+        tracks: createDefaultTracks(),
+      },
+    };
+  }
+
+  // v4: timeline markers. Older projects had none.
+  if (migrated.version < 4) {
+    migrated = {
+      ...migrated,
+      version: 4,
+      timeline: { ...migrated.timeline, markers: [] },
+    };
+  }
+
+  // v5: timeline gaps can be filled with a color. Older projects had no gaps.
+  if (migrated.version < 5) {
+    migrated = {
+      ...migrated,
+      version: 5,
+      background: { ...migrated.background, gapColor: null },
+    };
+  }
+
+  // v6: clips have a volume. Older clips played at the source's own level.
+  if (migrated.version < 6) {
+    migrated = {
+      ...migrated,
+      version: 6,
+      timeline: {
+        ...migrated.timeline,
+        clips: migrated.timeline.clips.map((clip) => ({
+          ...clip,
+          volume: clip.volume ?? MAX_CLIP_VOLUME,
+        })),
+      },
+    };
+  }
+
+  return migrated;
+}
+
+export function getProjectNameFromPath(filePath: string): string {
+  return (
+    getFileName(filePath).replace(/\.openscreen$/i, "") || UNTITLED_PROJECT_NAME
+  );
+}
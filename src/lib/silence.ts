@@ -0,0 +1,135 @@
+import type { TimelineClip } from "@/components/timeline/types";
+import type { WaveformLevel } from "@/lib/waveform";
+import { getClipMediaTime } from "@/lib/timeline";
+import { getTimelineSpan } from "@/lib/speed-ramp";
+
+export interface SilenceSettings {
+  /** Peaks at or below this level count as silent */
+  thresholdDb: number;
+  /** Shortest silence worth cutting, in seconds */
+  minDuration: number;
+  /** Silence kept on each side of a cut, in seconds */
+  padding: number;
+}
+
+export const DEFAULT_SILENCE_SETTINGS: SilenceSettings = {
+  thresholdDb: -40,
+  minDuration: 0.5,
+  padding: 0.1,
+};
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/** Waveform peaks are 0-255, 255 being full scale */
+const dbToPeak = (db: number) => 255 * Math.pow(10, db / 20);
+
+/** Source time ranges of `level` that stay at or below `thresholdDb` */
+function findQuietRanges(
+  level: WaveformLevel,
+  thresholdDb: number,
+): TimeRange[] {
+  const threshold = dbToPeak(thresholdDb);
+  const ranges: TimeRange[] = [];
+  let runStart = -1;
+
+  for (let index = 0; index <= level.peaks.length; index++) {
+    const isQuiet =
+      index < level.peaks.length && level.peaks[index] <= threshold;
+    if (isQuiet && runStart < 0) {
+      runStart = index;
+    } else if (!isQuiet && runStart >= 0) {
+      ranges.push({
+        start: runStart / level.peaksPerSecond,
+        end: index / level.peaksPerSecond,
+      });
+      runStart = -1;
+    }
+  }
+
+  return ranges;
+}
+
+/** Ranges covering the same time as `ranges`, sorted and merged */
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const merged: TimeRange[] = [];
+
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/** What is left of `ranges` once `cuts` are taken out */
+function subtractRanges(ranges: TimeRange[], cuts: TimeRange[]): TimeRange[] {
+  return cuts.reduce(
+    (remaining, cut) =>
+      remaining.flatMap((range) => {
+        if (cut.end <= range.start || cut.start >= range.end) return [range];
+        return [
+          { start: range.start, end: cut.start },
+          { start: cut.end, end: range.end },
+        ].filter((piece) => piece.end > piece.start);
+      }),
+    mergeRanges(ranges),
+  );
+}
+
+/**
+ * Timeline ranges where every clip with sound is silent, shortened by the
+ * padding on each side. `getLevel` gives the finest waveform of a clip's
+ * media, null when it has no sound. Gaps and clips without sound are not
+ * silence, only what plays quietly is.
+ */
+export function findSilences(
+  clips: TimelineClip[],
+  getLevel: (clip: TimelineClip) => WaveformLevel | null,
+  settings: SilenceSettings,
+): TimeRange[] {
+  const covered: TimeRange[] = [];
+  const loud: TimeRange[] = [];
+
+  for (const clip of clips) {
+    const level = getLevel(clip);
+    if (!level || level.peaks.length === 0 || clip.freezeTime !== undefined) {
+      continue;
+    }
+
+    const clipEnd = clip.start + clip.duration;
+    const trimStart = clip.trimStart ?? 0;
+    const sourceEnd = getClipMediaTime(clip, clipEnd);
+    const toTimeline = (sourceTime: number) =>
+      clip.start +
+      getTimelineSpan(
+        clip,
+        trimStart,
+        Math.min(sourceEnd, Math.max(trimStart, sourceTime)),
+      );
+
+    const quiet = findQuietRanges(level, settings.thresholdDb)
+      .filter((range) => range.end > trimStart && range.start < sourceEnd)
+      .map((range) => ({
+        start: toTimeline(range.start),
+        end: toTimeline(range.end),
+      }));
+
+    covered.push({ start: clip.start, end: clipEnd });
+    loud.push(...subtractRanges([{ start: clip.start, end: clipEnd }], quiet));
+  }
+
+  return subtractRanges(covered, loud)
+    .filter((range) => range.end - range.start >= settings.minDuration)
+    .map((range) => ({
+      start: range.start + settings.padding,
+      end: range.end - settings.padding,
+    }))
+    .filter((range) => range.end > range.start);
+}
@@ -0,0 +1,135 @@
+import type { SpeedKeyframe, TimelineClip } from "@/components/timeline/types";
+
+/*
+ * A speed ramp eases between keyframes placed on the clip's source media.
+ * What gets eased is the slowness (1 / speed): the timeline time a stretch
+ * of source takes then integrates to a polynomial, and the way back from
+ * timeline to source time is a bisection of that polynomial. Preview,
+ * scrubbing and export all go through the same two functions below, so they
+ * agree on the frame to the last bit.
+ */
+
+const ease = (x: number) => x * x * (3 - 2 * x);
+
+// Integral of `ease` from 0 to x
+const easeIntegral = (x: number) => x * x * x - (x * x * x * x) / 2;
+
+// Enough halvings to pin x down to double precision
+const BISECTION_STEPS = 52;
+
+/** The clip's keyframes in source order, empty without a ramp */
+export function getSpeedKeyframes(clip: TimelineClip): SpeedKeyframe[] {
+  return [...(clip.speedKeyframes ?? [])].sort(
+    (a, b) => a.sourceTime - b.sourceTime,
+  );
+}
+
+/** Timeline seconds the source from 0 up to `sourceTime` takes to play */
+function getRampOffset(keyframes: SpeedKeyframe[], sourceTime: number) {
+  const first = keyframes[0];
+  if (sourceTime <= first.sourceTime) return sourceTime / first.speed;
+
+  let offset = first.sourceTime / first.speed;
+  for (let i = 1; i < keyframes.length; i++) {
+    const from = keyframes[i - 1];
+    const to = keyframes[i];
+    const length = to.sourceTime - from.sourceTime;
+    const slowness = 1 / from.speed;
+    const slownessChange = 1 / to.speed - slowness;
+    const x = Math.min(1, (sourceTime - from.sourceTime) / length);
+
+    offset += length * (slowness * x + slownessChange * easeIntegral(x));
+    if (sourceTime <= to.sourceTime) return offset;
+  }
+
+  const last = keyframes[keyframes.length - 1];
+  return offset + (sourceTime - last.sourceTime) / last.speed;
+}
+
+/** Source time that `offset` timeline seconds from source 0 reach */
+function getRampSourceTime(keyframes: SpeedKeyframe[], offset: number) {
+  const first = keyframes[0];
+  let segmentStart = first.sourceTime / first.speed;
+  if (offset <= segmentStart) return offset * first.speed;
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const from = keyframes[i - 1];
+    const to = keyframes[i];
+    const length = to.sourceTime - from.sourceTime;
+    const slowness = 1 / from.speed;
+    const slownessChange = 1 / to.speed - slowness;
+    const segmentLength = length * (slowness + slownessChange / 2);
+
+    if (offset <= segmentStart + segmentLength) {
+      const target = offset - segmentStart;
+      let low = 0;
+      let high = 1;
+      for (let step = 0; step < BISECTION_STEPS; step++) {
+        const mid = (low + high) / 2;
+        const reached =
+          length * (slowness * mid + slownessChange * easeIntegral(mid));
+        if (reached < target) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      return from.sourceTime + (length * (low + high)) / 2;
+    }
+
+    segmentStart += segmentLength;
+  }
+
+  const last = keyframes[keyframes.length - 1];
+  return last.sourceTime + (offset - segmentStart) * last.speed;
+}
+
+/** Speed `clip` plays at when it reaches `sourceTime` */
+export function getSpeedAt(clip: TimelineClip, sourceTime: number): number {
+  const keyframes = getSpeedKeyframes(clip);
+  if (keyframes.length === 0) return clip.speed ?? 1;
+
+  const next = keyframes.findIndex((k) => k.sourceTime > sourceTime);
+  if (next === 0) return keyframes[0].speed;
+  if (next === -1) return keyframes[keyframes.length - 1].speed;
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const x = ease(
+    (sourceTime - from.sourceTime) / (to.sourceTime - from.sourceTime),
+  );
+  return 1 / (1 / from.speed + (1 / to.speed - 1 / from.speed) * x);
+}
+
+/** Source time `clip` reaches `timelineOffset` seconds after `fromSource` */
+export function getSourceTimeAfter(
+  clip: TimelineClip,
+  fromSource: number,
+  timelineOffset: number,
+): number {
+  const keyframes = getSpeedKeyframes(clip);
+  if (keyframes.length === 0) {
+    return fromSource + timelineOffset * (clip.speed ?? 1);
+  }
+
+  return getRampSourceTime(
+    keyframes,
+    getRampOffset(keyframes, fromSource) + timelineOffset,
+  );
+}
+
+/** Timeline seconds `clip` takes to play from `fromSource` to `toSource` */
+export function getTimelineSpan(
+  clip: TimelineClip,
+  fromSource: number,
+  toSource: number,
+): number {
+  const keyframes = getSpeedKeyframes(clip);
+  if (keyframes.length === 0) {
+    return (toSource - fromSource) / (clip.speed ?? 1);
+  }
+
+  return (
+    getRampOffset(keyframes, toSource) - getRampOffset(keyframes, fromSource)
+  );
+}
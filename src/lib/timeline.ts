@@ -0,0 +1,317 @@
+import type {
+  SnapSettings,
+  SpeedKeyframe,
+  TimelineClip,
+  TimelineMarker,
+  TimelineTrack,
+  TimelineTrackKind,
+} from "@/components/timeline/types";
+import type { MediaAssetKind } from "@/types/media";
+import { getSourceTimeAfter, getTimelineSpan } from "@/lib/speed-ramp";
+
+/** Playback speeds a clip can be set to */
+export const MIN_CLIP_SPEED = 0.25;
+export const MAX_CLIP_SPEED = 16;
+
+/** Clip volumes run from silent to the source's own level */
+export const MIN_CLIP_VOLUME = 0;
+export const MAX_CLIP_VOLUME = 1;
+
+/** Track the main video starts out on */
+export const DEFAULT_TRACK_ID = "video-layer-1";
+
+const TRACK_ACCENT_COLORS: Record<TimelineTrackKind, string> = {
+  video: "#eab308",
+  overlay: "#a855f7",
+  audio: "#22c55e",
+  effect: "#3b82f6",
+};
+
+const TRACK_NAMES: Record<TimelineTrackKind, string> = {
+  video: "Video",
+  overlay: "Overlay",
+  audio: "Audio",
+  effect: "Effect",
+};
+
+export function createDefaultTracks(): TimelineTrack[] {
+  return [
+    {
+      id: DEFAULT_TRACK_ID,
+      name: "Video Track",
+      kind: "video",
+      isVisible: true,
+      isLocked: false,
+      isMuted: false,
+      isSolo: false,
+      accentColor: TRACK_ACCENT_COLORS.video,
+    },
+  ];
+}
+
+/** New empty track, numbered after the existing ones of its kind */
+export function createTrack(
+  kind: TimelineTrackKind,
+  tracks: TimelineTrack[],
+): TimelineTrack {
+  const count = tracks.filter((track) => track.kind === kind).length;
+
+  return {
+    id: `track-${crypto.randomUUID()}`,
+    name: `${TRACK_NAMES[kind]} ${count + 1}`,
+    kind,
+    isVisible: true,
+    isLocked: false,
+    isMuted: false,
+    isSolo: false,
+    accentColor: TRACK_ACCENT_COLORS[kind],
+  };
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  clipEdges: true,
+  playhead: true,
+  markers: true,
+  range: true,
+};
+
+export const MARKER_COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#22c55e",
+  "#3b82f6",
+  "#a855f7",
+];
+
+/** New marker at `time`, named and colored after the ones already there */
+export function createMarker(
+  time: number,
+  markers: TimelineMarker[],
+): TimelineMarker {
+  return {
+    id: `marker-${crypto.randomUUID()}`,
+    time,
+    name: `Marker ${markers.length + 1}`,
+    color: MARKER_COLORS[markers.length % MARKER_COLORS.length],
+  };
+}
+
+/** Tracks that make up the picture, as opposed to sound only */
+export function isVisualTrack(track: TimelineTrack): boolean {
+  return track.kind !== "audio";
+}
+
+/** Whether an asset of `kind` can be placed on `track` */
+export function canPlaceOnTrack(
+  track: TimelineTrack,
+  kind: MediaAssetKind,
+): boolean {
+  return kind === "audio" ? track.kind === "audio" : isVisualTrack(track);
+}
+
+export function isTrackAudible(
+  track: TimelineTrack,
+  tracks: TimelineTrack[],
+): boolean {
+  if (!track.isVisible || track.isMuted) return false;
+  return track.isSolo || !tracks.some((other) => other.isSolo);
+}
+
+const clampSpeed = (speed: number) =>
+  Math.min(MAX_CLIP_SPEED, Math.max(MIN_CLIP_SPEED, speed));
+
+/** Gain `clip` plays its sound at */
+export function getClipVolume(clip: TimelineClip): number {
+  return Math.min(
+    MAX_CLIP_VOLUME,
+    Math.max(MIN_CLIP_VOLUME, clip.volume ?? MAX_CLIP_VOLUME),
+  );
+}
+
+/** Source time `clip` shows at timeline `time` */
+export function getClipMediaTime(clip: TimelineClip, time: number): number {
+  if (clip.freezeTime !== undefined) return clip.freezeTime;
+  return getSourceTimeAfter(clip, clip.trimStart ?? 0, time - clip.start);
+}
+
+/**
+ * `clip` played at a constant `speed`, dropping any ramp: the same source
+ * span, so its timeline duration stretches or shrinks to match
+ */
+export function setClipSpeed(clip: TimelineClip, speed: number): TimelineClip {
+  const { speedKeyframes: _ramp, ...rest } = clip;
+  const nextSpeed = clampSpeed(speed);
+  const sourceDuration =
+    getClipMediaTime(clip, clip.start + clip.duration) - (clip.trimStart ?? 0);
+
+  return {
+    ...rest,
+    speed: nextSpeed,
+    duration: sourceDuration / nextSpeed,
+  };
+}
+
+/** Still of the frame `clip` shows at timeline `time`, lasting `duration` */
+export function createFreezeFrameClip(
+  clip: TimelineClip,
+  time: number,
+  duration: number,
+): TimelineClip {
+  const {
+    speedKeyframes: _ramp,
+    originalDuration: _originalDuration,
+    ...rest
+  } = clip;
+
+  return {
+    ...rest,
+    id: `clip-${crypto.randomUUID()}`,
+    name: `${clip.name} (freeze)`,
+    start: time,
+    duration,
+    speed: 1,
+    freezeTime: getClipMediaTime(clip, time),
+    trimStart: 0,
+    trimEnd: 0,
+  };
+}
+
+/** `clip` with a new speed ramp over the same source span */
+export function setClipSpeedKeyframes(
+  clip: TimelineClip,
+  keyframes: SpeedKeyframe[],
+): TimelineClip {
+  const { speedKeyframes: _ramp, ...rest } = clip;
+  const trimStart = clip.trimStart ?? 0;
+  const sourceEnd = getClipMediaTime(clip, clip.start + clip.duration);
+
+  // One keyframe per source time, the last one set wins
+  const bySourceTime = new Map(
+    keyframes.map((keyframe) => [
+      keyframe.sourceTime,
+      { sourceTime: keyframe.sourceTime, speed: clampSpeed(keyframe.speed) },
+    ]),
+  );
+  const next: TimelineClip =
+    bySourceTime.size > 0
+      ? {
+          ...rest,
+          speedKeyframes: [...bySourceTime.values()].sort(
+            (a, b) => a.sourceTime - b.sourceTime,
+          ),
+        }
+      : rest;
+
+  return {
+    ...next,
+    duration: getTimelineSpan(next, trimStart, sourceEnd),
+  };
+}
+
+/**
+ * `clip` at the speed (or speed ramp) of `source`, over its own source span.
+ * A ramp keeps its place relative to the start of the clip. Stills have no
+ * speed.
+ */
+export function copyClipSpeed(
+  clip: TimelineClip,
+  source: TimelineClip,
+): TimelineClip {
+  if (clip.freezeTime !== undefined || source.freezeTime !== undefined) {
+    return clip;
+  }
+
+  const ramp = source.speedKeyframes ?? [];
+  if (ramp.length === 0) return setClipSpeed(clip, source.speed ?? 1);
+
+  const offset = (clip.trimStart ?? 0) - (source.trimStart ?? 0);
+  return setClipSpeedKeyframes(
+    clip,
+    ramp.map((keyframe) => ({
+      ...keyframe,
+      sourceTime: keyframe.sourceTime + offset,
+    })),
+  );
+}
+
+/** `clip` with the speed (or speed ramp), volume, mute and color of `source` */
+export function pasteClipAttributes(
+  clip: TimelineClip,
+  source: TimelineClip,
+): TimelineClip {
+  return copyClipSpeed(
+    {
+      ...clip,
+      volume: source.volume,
+      muted: source.muted,
+      color: source.color,
+    },
+    source,
+  );
+}
+
+export interface ActiveClip {
+  clip: TimelineClip;
+  track: TimelineTrack;
+  /** Source time the clip shows at the requested timeline time */
+  mediaTime: number;
+}
+
+/**
+ * Clips starting within `lookahead` seconds after `time` on a visible track,
+ * earliest first, with the source time they start at
+ */
+export function getUpcomingClips(
+  clips: TimelineClip[],
+  tracks: TimelineTrack[],
+  time: number,
+  lookahead: number,
+): ActiveClip[] {
+  const visibleTracks = new Map(
+    tracks.filter((track) => track.isVisible).map((track) => [track.id, track]),
+  );
+
+  return clips
+    .filter((clip) => clip.start > time && clip.start <= time + lookahead)
+    .sort((a, b) => a.start - b.start)
+    .flatMap((clip) => {
+      const track = visibleTracks.get(clip.trackId);
+      return track
+        ? [{ clip, track, mediaTime: getClipMediaTime(clip, clip.start) }]
+        : [];
+    });
+}
+
+/**
+ * Clip under `time` on every visible track. The picture stacks like the
+ * timeline reads, a track covers the ones below it, so the bottom track
+ * comes first and later entries go on top.
+ */
+export function getActiveClips(
+  clips: TimelineClip[],
+  tracks: TimelineTrack[],
+  time: number,
+): ActiveClip[] {
+  const active: ActiveClip[] = [];
+
+  for (const track of [...tracks].reverse()) {
+    if (!track.isVisible) continue;
+
+    const clip = clips.find(
+      (c) =>
+        c.trackId === track.id &&
+        time >= c.start &&
+        time < c.start + c.duration,
+    );
+    if (clip) {
+      active.push({
+        clip,
+        track,
+        mediaTime: getClipMediaTime(clip, time),
+      });
+    }
+  }
+
+  return active;
+}
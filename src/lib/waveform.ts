@@ -0,0 +1,58 @@
+import { WAVEFORM_PEAKS_PER_SECOND } from "@electron/media/types";
+
+/** Coarsest level kept, enough for the most zoomed out timeline */
+const MIN_PEAKS_PER_SECOND = 4;
+
+/** One resolution of an asset's waveform, peaks are 0-255 */
+export interface WaveformLevel {
+  peaksPerSecond: number;
+  peaks: Uint8Array;
+}
+
+export interface WaveformWorkerRequest {
+  id: number;
+  url: string;
+}
+
+export type WaveformWorkerResponse =
+  | { id: number; peaks: Uint8Array }
+  | { id: number; error: string };
+
+/**
+ * Mipmap of the finest peaks: every level halves the previous one, keeping
+ * the louder of each pair so short transients survive zooming out.
+ */
+export function buildWaveformLevels(peaks: Uint8Array): WaveformLevel[] {
+  const levels: WaveformLevel[] = [
+    { peaksPerSecond: WAVEFORM_PEAKS_PER_SECOND, peaks },
+  ];
+
+  let previous = levels[0];
+  while (previous.peaksPerSecond / 2 >= MIN_PEAKS_PER_SECOND) {
+    const next = new Uint8Array(Math.ceil(previous.peaks.length / 2));
+    for (let index = 0; index < next.length; index++) {
+      next[index] = Math.max(
+        previous.peaks[index * 2],
+        previous.peaks[index * 2 + 1] ?? 0,
+      );
+    }
+
+    previous = { peaksPerSecond: previous.peaksPerSecond / 2, peaks: next };
+    levels.push(previous);
+  }
+
+  return levels;
+}
+
+/** Coarsest level that still has a peak for every pixel */
+export function getWaveformLevel(
+  levels: WaveformLevel[],
+  pixelsPerSourceSecond: number,
+): WaveformLevel {
+  for (let index = levels.length - 1; index > 0; index--) {
+    if (levels[index].peaksPerSecond >= pixelsPerSourceSecond) {
+      return levels[index];
+    }
+  }
+  return levels[0];
+}
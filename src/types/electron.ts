@@ -2,6 +2,8 @@
 import type { ElectronAPI as ElectronAPIType } from "@electron/api/electron-api";
 import type { RecordingRendererAPI } from "@electron/api/recording-api";
 import type { ExportRendererAPI } from "@electron/api/export-api";
+import type { ProjectRendererAPI } from "@electron/api/project-api";
+import type { MediaRendererAPI } from "@electron/api/media-api";
 
 export type ElectronAPI = ElectronAPIType;
 
@@ -26,5 +28,7 @@ declare global {
     customIpcRenderer?: CustomIPCRendererAPI;
     recordingAPI?: RecordingRendererAPI;
     exportAPI?: ExportRendererAPI;
+    projectAPI?: ProjectRendererAPI;
+    mediaAPI?: MediaRendererAPI;
   }
 }
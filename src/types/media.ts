@@ -0,0 +1,9 @@
+export type {
+  FilmstripResult,
+  MediaAssetKind,
+  MediaAudioStreamInfo,
+  MediaProbeResult,
+  MediaProxyState,
+  MediaProxyStatus,
+  MediaVideoStreamInfo,
+} from "@electron/media/types";
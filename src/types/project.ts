@@ -0,0 +1,45 @@
+import type {
+  TimelineClip,
+  TimelineMarker,
+  TimelineTrack,
+} from "@/components/timeline/types";
+import type { BackgroundSettings } from "@/context/background-context";
+import type { MediaAssetKind } from "@/types/media";
+
+export type {
+  AutosaveSnapshot,
+  AutosaveSnapshotInfo,
+  ProjectSaveRequest,
+  ProjectSaveResult,
+  ProjectOpenResult,
+  RecentProject,
+} from "@electron/project/types";
+
+/** Reference to a source file used by the project (a media library asset) */
+export interface ProjectMediaReference {
+  id: string;
+  name: string;
+  path: string;
+  kind: MediaAssetKind;
+}
+
+/**
+ * On-disk `.openscreen` document. Bump PROJECT_FORMAT_VERSION (and add a
+ * migration in `@/lib/project`) whenever this shape changes.
+ */
+export interface ProjectDocument {
+  format: "openscreen-project";
+  version: number;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  aspectRatio: string;
+  timeline: {
+    clips: TimelineClip[];
+    /** Top track first */
+    tracks: TimelineTrack[];
+    markers: TimelineMarker[];
+  };
+  background: BackgroundSettings;
+  media: ProjectMediaReference[];
+}
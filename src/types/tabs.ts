@@ -1,5 +1,6 @@
 import { type ReactNode } from "react";
 export type TabId =
+  | "media"
   | "background"
   | "cursor"
   | "video"
@@ -0,0 +1,92 @@
+import { ALL_FORMATS, AudioSampleSink, Input, UrlSource } from "mediabunny";
+import { WAVEFORM_PEAKS_PER_SECOND } from "@electron/media/types";
+import type {
+  WaveformWorkerRequest,
+  WaveformWorkerResponse,
+} from "@/lib/waveform";
+
+/**
+ * Decodes the primary audio track of a media URL and reduces it to the
+ * loudest absolute sample (all channels) per 1/WAVEFORM_PEAKS_PER_SECOND s.
+ * Media without audio yields no peaks.
+ */
+async function computePeaks(url: string): Promise<Uint8Array> {
+  const input = new Input({ source: new UrlSource(url), formats: ALL_FORMATS });
+
+  try {
+    const track = await input.getPrimaryAudioTrack();
+    if (!track) {
+      return new Uint8Array(0);
+    }
+    if (!(await track.canDecode())) {
+      throw new Error(`Cannot decode ${track.codec ?? "unknown"} audio`);
+    }
+
+    const duration = await track.computeDuration();
+    let peaks = new Uint8Array(Math.ceil(duration * WAVEFORM_PEAKS_PER_SECOND));
+    let channel = new Float32Array(0);
+
+    const sink = new AudioSampleSink(track);
+    for await (const sample of sink.samples()) {
+      const { numberOfChannels, numberOfFrames, sampleRate, timestamp } =
+        sample;
+      const framesPerPeak = sampleRate / WAVEFORM_PEAKS_PER_SECOND;
+      const firstFrame = timestamp * sampleRate;
+
+      const lastPeak = Math.floor(
+        (firstFrame + numberOfFrames) / framesPerPeak,
+      );
+      if (lastPeak >= peaks.length) {
+        // Decoded audio can run past the container's duration
+        const grown = new Uint8Array(lastPeak + 1);
+        grown.set(peaks);
+        peaks = grown;
+      }
+
+      if (channel.length < numberOfFrames) {
+        channel = new Float32Array(numberOfFrames);
+      }
+
+      for (let planeIndex = 0; planeIndex < numberOfChannels; planeIndex++) {
+        sample.copyTo(channel, { planeIndex, format: "f32-planar" });
+
+        for (let frame = 0; frame < numberOfFrames; frame++) {
+          const peakIndex = Math.floor((firstFrame + frame) / framesPerPeak);
+          if (peakIndex < 0) continue;
+
+          const value = Math.min(
+            255,
+            Math.round(Math.abs(channel[frame]) * 255),
+          );
+          if (value > peaks[peakIndex]) {
+            peaks[peakIndex] = value;
+          }
+        }
+      }
+
+      sample.close();
+    }
+
+    return peaks;
+  } finally {
+    input.dispose();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WaveformWorkerRequest>) => {
+  const { id, url } = event.data;
+  let response: WaveformWorkerResponse;
+
+  try {
+    response = { id, peaks: await computePeaks(url) };
+  } catch (error) {
+    response = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  self.postMessage(response, {
+    transfer: "peaks" in response ? [response.peaks.buffer] : [],
+  });
+};
@@ -12,6 +12,14 @@ export default defineConfig({
       main: {
         // Shortcut of `build.lib.entry`.
         entry: "electron/main.ts",
+        vite: {
+          build: {
+            rollupOptions: {
+              // Resolves its platform binary relative to node_modules at runtime
+              external: ["@ffmpeg-installer/ffmpeg"],
+            },
+          },
+        },
       },
       preload: {
         // Shortcut of `build.rollupOptions.input`.